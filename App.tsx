@@ -1,15 +1,21 @@
 
-import React, { useState } from 'react';
+import React from 'react';
 import { ImageGenerator } from './components/ImageGenerator';
 import { ImageAnalyzer } from './components/ImageAnalyzer';
-import { SparklesIcon, PhotoIcon, CubeTransparentIcon } from './components/Icons';
-
-type ActiveTab = 'generate' | 'analyze';
+import { HistoryGallery } from './components/HistoryGallery';
+import { ProviderSwitcher } from './components/ProviderSwitcher';
+import { SettingsPanel } from './components/SettingsPanel';
+import { UsageDashboard } from './components/UsageDashboard';
+import { BudgetNotice } from './components/BudgetNotice';
+import { SparklesIcon, PhotoIcon, CubeTransparentIcon, ClockIcon, Cog6ToothIcon, ChartBarIcon } from './components/Icons';
+import { useStudio } from './context/StudioContext';
+import { StudioTab } from './types';
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<ActiveTab>('generate');
+  const { state: { tab: activeTab, openRequests }, navigate, openHistoryEntry } = useStudio();
+  const { generate: generatorRequest, analyze: analyzerRequest } = openRequests;
 
-  const getTabClass = (tabName: ActiveTab) => {
+  const getTabClass = (tabName: StudioTab) => {
     return `flex items-center justify-center w-full px-4 py-3 font-medium text-sm rounded-lg transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500 ${
       activeTab === tabName
         ? 'bg-indigo-600 text-white shadow-lg'
@@ -33,30 +39,60 @@ const App: React.FC = () => {
         </header>
 
         <main className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-2xl shadow-2xl p-4 sm:p-6 w-full">
-          <div className="grid grid-cols-2 gap-4 mb-6">
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-4 mb-6">
             <button
-              onClick={() => setActiveTab('generate')}
+              onClick={() => navigate('generate')}
               className={getTabClass('generate')}
             >
               <SparklesIcon className="w-5 h-5 mr-2" />
               Generate
             </button>
             <button
-              onClick={() => setActiveTab('analyze')}
+              onClick={() => navigate('analyze')}
               className={getTabClass('analyze')}
             >
               <PhotoIcon className="w-5 h-5 mr-2" />
               Analyze
             </button>
+            <button
+              onClick={() => navigate('history')}
+              className={getTabClass('history')}
+            >
+              <ClockIcon className="w-5 h-5 mr-2" />
+              History
+            </button>
+            <button
+              onClick={() => navigate('usage')}
+              className={getTabClass('usage')}
+            >
+              <ChartBarIcon className="w-5 h-5 mr-2" />
+              Usage
+            </button>
+            <button
+              onClick={() => navigate('settings')}
+              className={getTabClass('settings')}
+            >
+              <Cog6ToothIcon className="w-5 h-5 mr-2" />
+              Settings
+            </button>
           </div>
 
-          <div>
-            {activeTab === 'generate' && <ImageGenerator />}
-            {activeTab === 'analyze' && <ImageAnalyzer />}
+          <BudgetNotice />
+
+          {/* The generator and analyzer stay mounted so their work survives tab switches. */}
+          <div hidden={activeTab !== 'generate'}>
+            <ImageGenerator key={generatorRequest?.key} initialEntry={generatorRequest?.entry} autoRun={generatorRequest?.autoRun} />
+          </div>
+          <div hidden={activeTab !== 'analyze'}>
+            <ImageAnalyzer key={analyzerRequest?.key} initialEntry={analyzerRequest?.entry} autoRun={analyzerRequest?.autoRun} />
           </div>
+          {activeTab === 'history' && <HistoryGallery onOpen={openHistoryEntry} />}
+          {activeTab === 'usage' && <UsageDashboard />}
+          {activeTab === 'settings' && <SettingsPanel />}
         </main>
-        <footer className="text-center mt-8 text-gray-500 text-sm">
+        <footer className="text-center mt-8 text-gray-500 text-sm space-y-3">
             <p>Powered by Google Gemini</p>
+            <ProviderSwitcher />
         </footer>
       </div>
     </div>
@@ -0,0 +1,149 @@
+import React from 'react';
+import {
+  GenerationOptions,
+  defaultGenerationOptions,
+  imagenModels,
+  ImagenModel,
+  generatorOutputMimeTypes,
+  GeneratorOutputMimeType,
+  personGenerationPolicies,
+  PersonGenerationPolicy,
+} from '../types';
+import { AdjustmentsHorizontalIcon, ArrowPathIcon } from './Icons';
+
+interface AdvancedOptionsPanelProps {
+  options: GenerationOptions;
+  onChange: (options: GenerationOptions) => void;
+  disabled?: boolean;
+}
+
+const personGenerationLabels: Record<PersonGenerationPolicy, string> = {
+  ALLOW_ADULT: 'Adults only',
+  ALLOW_ALL: 'Adults and children',
+  DONT_ALLOW: 'No people',
+};
+
+const MAX_SEED = 2147483647;
+
+const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-50';
+
+export const AdvancedOptionsPanel: React.FC<AdvancedOptionsPanelProps> = ({ options, onChange, disabled }) => {
+  const update = <K extends keyof GenerationOptions>(key: K, value: GenerationOptions[K]) => {
+    onChange({ ...options, [key]: value });
+  };
+
+  const handleSeedChange = (value: string) => {
+    if (value === '') return update('seed', null);
+    const seed = Number.parseInt(value, 10);
+    if (Number.isNaN(seed)) return;
+    update('seed', Math.min(Math.max(seed, 0), MAX_SEED));
+  };
+
+  return (
+    <details>
+      <summary className="text-sm font-medium text-gray-300 cursor-pointer hover:text-white transition-colors flex items-center gap-2">
+        <AdjustmentsHorizontalIcon className="w-5 h-5" />
+        Advanced
+      </summary>
+      <div className="mt-3 bg-gray-700/50 p-4 rounded-lg space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="model" className="block text-xs font-medium text-gray-400 mb-1">Model</label>
+            <select id="model" value={options.model} onChange={(e) => update('model', e.target.value as ImagenModel)} className={inputClass} disabled={disabled}>
+              {imagenModels.map((model) => <option key={model} value={model}>{model}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="outputMimeType" className="block text-xs font-medium text-gray-400 mb-1">Output Format</label>
+            <select id="outputMimeType" value={options.outputMimeType} onChange={(e) => update('outputMimeType', e.target.value as GeneratorOutputMimeType)} className={inputClass} disabled={disabled}>
+              {generatorOutputMimeTypes.map((mimeType) => <option key={mimeType} value={mimeType}>{mimeType}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="personGeneration" className="block text-xs font-medium text-gray-400 mb-1">People</label>
+            <select id="personGeneration" value={options.personGeneration} onChange={(e) => update('personGeneration', e.target.value as PersonGenerationPolicy)} className={inputClass} disabled={disabled}>
+              {personGenerationPolicies.map((policy) => <option key={policy} value={policy}>{personGenerationLabels[policy]}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="seed" className="block text-xs font-medium text-gray-400 mb-1">Seed</label>
+            <div className="flex gap-2">
+              <input
+                id="seed"
+                type="number"
+                min="0"
+                max={MAX_SEED}
+                value={options.seed ?? ''}
+                onChange={(e) => handleSeedChange(e.target.value)}
+                placeholder="Random"
+                className={inputClass}
+                disabled={disabled}
+              />
+              <button
+                onClick={() => update('seed', Math.floor(Math.random() * MAX_SEED))}
+                className="p-2 rounded-md bg-gray-600 text-gray-300 hover:bg-gray-500 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500"
+                disabled={disabled}
+                aria-label="Pick a new seed"
+              >
+                <ArrowPathIcon className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+        </div>
+        <div>
+          <label htmlFor="negativePrompt" className="block text-xs font-medium text-gray-400 mb-1">Negative Prompt</label>
+          <input
+            id="negativePrompt"
+            type="text"
+            value={options.negativePrompt}
+            onChange={(e) => update('negativePrompt', e.target.value)}
+            placeholder="e.g., blurry, text, watermark"
+            className={inputClass}
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label htmlFor="guidanceScale" className="text-xs font-medium text-gray-400 flex justify-between mb-1">
+            <span>Guidance Scale</span>
+            <span className="font-mono">{options.guidanceScale ?? 'Auto'}</span>
+          </label>
+          <div className="flex items-center gap-2">
+            <input
+              id="guidanceScale"
+              type="range"
+              min="1"
+              max="20"
+              step="0.5"
+              value={options.guidanceScale ?? 10}
+              onChange={(e) => update('guidanceScale', e.target.valueAsNumber)}
+              className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+              disabled={disabled}
+            />
+            <button
+              onClick={() => update('guidanceScale', null)}
+              className="px-3 py-1 text-xs font-semibold rounded-full bg-gray-600 text-gray-300 hover:bg-gray-500 transition-colors"
+              disabled={disabled}
+            >
+              Auto
+            </button>
+          </div>
+        </div>
+        <div className="flex items-center justify-between pt-2 border-t border-gray-600/50">
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={options.enhancePrompt}
+              onChange={(e) => update('enhancePrompt', e.target.checked)}
+              className="accent-indigo-500"
+              disabled={disabled}
+            />
+            Let the model enhance my prompt
+          </label>
+          <button onClick={() => onChange(defaultGenerationOptions)} className="px-3 py-1 text-sm font-semibold rounded-full bg-red-600/50 text-red-200 hover:bg-red-600/80 transition-colors" disabled={disabled}>
+            Reset
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { AnalysisPreset, builtInAnalysisPresets } from '../types';
+import { DocumentMagnifyingGlassIcon, XMarkIcon } from './Icons';
+
+interface AnalysisPromptPanelProps {
+  instruction: string;
+  onChange: (instruction: string) => void;
+  disabled?: boolean;
+}
+
+const PRESETS_STORAGE_KEY = 'analysisPresets';
+
+export const AnalysisPromptPanel: React.FC<AnalysisPromptPanelProps> = ({ instruction, onChange, disabled }) => {
+  const [customPresets, setCustomPresets] = useState<AnalysisPreset[]>([]);
+  const [presetName, setPresetName] = useState<string>('');
+  const [presetError, setPresetError] = useState<string | null>(null);
+
+  useEffect(() => {
+    try {
+      const storedPresets = localStorage.getItem(PRESETS_STORAGE_KEY);
+      if (storedPresets) {
+        const parsed = JSON.parse(storedPresets);
+        if (Array.isArray(parsed)) {
+          setCustomPresets(parsed);
+        }
+      }
+    } catch (e) {
+      console.error("Failed to parse analysis presets from localStorage", e);
+    }
+  }, []);
+
+  const saveCustomPresets = (presets: AnalysisPreset[]) => {
+    setCustomPresets(presets);
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  };
+
+  const allPresets = [...builtInAnalysisPresets, ...customPresets];
+  const activePreset = allPresets.find((preset) => preset.instruction === instruction.trim());
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) {
+      setPresetError('Please enter a name for the preset.');
+      return;
+    }
+    if (!instruction.trim()) {
+      setPresetError('The instruction is empty.');
+      return;
+    }
+    if (allPresets.some((preset) => preset.name.toLowerCase() === name.toLowerCase())) {
+      setPresetError('A preset with this name already exists.');
+      return;
+    }
+    saveCustomPresets([...customPresets, { id: crypto.randomUUID(), name, instruction: instruction.trim() }]);
+    setPresetName('');
+    setPresetError(null);
+  };
+
+  const handleRemovePreset = (id: string) => {
+    saveCustomPresets(customPresets.filter((preset) => preset.id !== id));
+  };
+
+  return (
+    <details open>
+      <summary className="text-sm font-medium text-gray-300 cursor-pointer hover:text-white transition-colors flex items-center gap-2">
+        <DocumentMagnifyingGlassIcon className="w-5 h-5" />
+        Analysis Prompt
+      </summary>
+      <div className="mt-3 bg-gray-700/50 p-4 rounded-lg space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {allPresets.map((preset) => {
+            const isSelected = activePreset?.id === preset.id;
+            return (
+              <div
+                key={preset.id}
+                className={`flex items-center rounded-full text-sm font-medium transition-colors ${isSelected ? 'bg-indigo-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`}
+              >
+                <button
+                  onClick={() => onChange(preset.instruction)}
+                  className={`py-1 ${preset.builtIn ? 'px-3' : 'pl-3 pr-1'}`}
+                  disabled={disabled}
+                  title={preset.instruction}
+                >
+                  {preset.name}
+                </button>
+                {!preset.builtIn && (
+                  <button onClick={() => handleRemovePreset(preset.id)} className="mr-1.5 text-gray-300 hover:text-white hover:bg-gray-400 rounded-full p-0.5 transition-colors" aria-label={`Delete preset ${preset.name}`}>
+                    <XMarkIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <textarea
+          value={instruction}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Ask anything about the image, e.g., What brand is the mug?"
+          className="w-full h-24 p-3 bg-gray-700 border border-gray-600 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+          disabled={disabled}
+        />
+        {!activePreset && instruction.trim() && (
+          <div className="flex gap-2 items-start">
+            <div className="flex-grow">
+              <input type="text" value={presetName} onChange={(e) => { setPresetName(e.target.value); setPresetError(null); }} placeholder="Preset name" className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500" />
+              {presetError && <p className="text-red-400 text-xs mt-1">{presetError}</p>}
+            </div>
+            <button onClick={handleSavePreset} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-indigo-700 transition-colors text-sm">Save Preset</button>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
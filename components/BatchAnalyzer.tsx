@@ -0,0 +1,351 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { AnalysisMode, ImageAnalysis } from '../types';
+import { analyzeImage, analyzeImageStructured, isRateLimitError } from '../services/geminiService';
+import { Job, JobStatus, runQueue } from '../services/jobQueue';
+import { isRetryableError } from '../services/serviceErrors';
+import { collectDroppedImageFiles, PickedFile, pickImageFiles } from '../utils/files';
+import { dataUrlToImageData, getOutputMimeType, loadImage, ProcessingSettings, processImage, simplifyRatio } from '../utils/imageProcessing';
+import { downloadBlob } from '../utils/download';
+import { Spinner } from './Spinner';
+import { ArrowDownTrayIcon, DocumentMagnifyingGlassIcon, FolderIcon, PhotoIcon, QueueListIcon, StopIcon, TrashIcon } from './Icons';
+
+interface BatchAnalyzerProps {
+  /** Current analyzer settings; an `aspectRatio` of `Auto` keeps each image's own ratio. */
+  settings: ProcessingSettings;
+  instruction: string;
+  analysisMode: AnalysisMode;
+  disabled?: boolean;
+}
+
+type BatchResult = string | ImageAnalysis;
+type BatchJob = Job<PickedFile, BatchResult>;
+
+const CONCURRENCY_STORAGE_KEY = 'batchConcurrency';
+const concurrencyOptions = [1, 2, 3, 4, 6, 8] as const;
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+
+const statusStyles: Record<JobStatus, string> = {
+  pending: 'bg-gray-600 text-gray-300',
+  running: 'bg-indigo-600 text-white',
+  retrying: 'bg-amber-600/80 text-white',
+  done: 'bg-green-600/80 text-white',
+  failed: 'bg-red-600/80 text-white',
+  cancelled: 'bg-gray-600 text-gray-400',
+};
+
+const escapeCsv = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const jobsToCsv = (jobs: BatchJob[], mode: AnalysisMode) => {
+  const header = mode === 'structured'
+    ? ['file', 'status', 'attempts', 'error', 'summary', 'subjects', 'objects', 'mood', 'tags', 'dominant_colors', 'detected_text']
+    : ['file', 'status', 'attempts', 'error', 'analysis'];
+  const rows = jobs.map((job) => {
+    const base = [job.item.path, job.status, String(job.attempts), job.error ?? ''];
+    if (mode === 'structured') {
+      const analysis = typeof job.result === 'object' ? job.result : null;
+      return [
+        ...base,
+        analysis?.summary ?? '',
+        analysis?.subjects.join('; ') ?? '',
+        analysis?.objects.map((object) => object.label).join('; ') ?? '',
+        analysis?.mood ?? '',
+        analysis?.tags.join('; ') ?? '',
+        analysis?.dominantColors.map((color) => color.hex).join('; ') ?? '',
+        analysis?.detectedText.join('; ') ?? '',
+      ];
+    }
+    return [...base, typeof job.result === 'string' ? job.result : ''];
+  });
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\r\n');
+};
+
+const jobsToJson = (jobs: BatchJob[]) =>
+  JSON.stringify(jobs.map((job) => ({
+    file: job.item.path,
+    status: job.status,
+    attempts: job.attempts,
+    error: job.error ?? null,
+    result: job.result ?? null,
+  })), null, 2);
+
+export const BatchAnalyzer: React.FC<BatchAnalyzerProps> = ({ settings, instruction, analysisMode, disabled }) => {
+  const [files, setFiles] = useState<PickedFile[]>([]);
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [running, setRunning] = useState<boolean>(false);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const filesInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(CONCURRENCY_STORAGE_KEY);
+      if (stored && (concurrencyOptions as readonly number[]).includes(Number(stored))) {
+        setConcurrency(Number(stored));
+      }
+    } catch (e) {
+      console.error("Failed to read batch concurrency from localStorage", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    // `webkitdirectory` is not part of React's input attributes.
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const handleConcurrencyChange = (value: number) => {
+    setConcurrency(value);
+    localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(value));
+  };
+
+  const addFiles = (picked: PickedFile[]) => {
+    if (picked.length === 0) {
+      setError('No image files were found.');
+      return;
+    }
+    setError(null);
+    setJobs([]);
+    setExpandedIndex(null);
+    setFiles((prev) => {
+      const known = new Set(prev.map((entry) => entry.path));
+      return [...prev, ...picked.filter((entry) => !known.has(entry.path))];
+    });
+  };
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (event.target.files) {
+      addFiles(pickImageFiles(event.target.files));
+    }
+    event.target.value = '';
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (running) return;
+    try {
+      addFiles(await collectDroppedImageFiles(event.dataTransfer));
+    } catch (err) {
+      console.error("Failed to read dropped files", err);
+      setError('Some of the dropped files could not be read.');
+    }
+  };
+
+  const analyzeFile = async ({ file }: PickedFile, signal?: AbortSignal): Promise<BatchResult> => {
+    const url = URL.createObjectURL(file);
+    try {
+      const image = await loadImage(url);
+      const aspectRatio = settings.aspectRatio === 'Auto' ? simplifyRatio(image.naturalWidth, image.naturalHeight) : settings.aspectRatio;
+      const imageData = dataUrlToImageData(await processImage(image, { ...settings, aspectRatio }, getOutputMimeType(file.type), signal));
+      // The queue retries failed files and pauses all workers on rate limits, so the service must not.
+      return analysisMode === 'structured'
+        ? await analyzeImageStructured(imageData, instruction, signal, { retries: 0 })
+        : await analyzeImage(imageData, instruction, signal, { retries: 0 });
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  };
+
+  const handleStart = async (onlyFailed = false) => {
+    const items = onlyFailed
+      ? jobs.filter((job) => job.status === 'failed' || job.status === 'cancelled').map((job) => job.item)
+      : files;
+    if (items.length === 0) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setRunning(true);
+    setError(null);
+    // Keep finished results when only re-running the failures.
+    const kept = onlyFailed ? jobs.filter((job) => job.status === 'done') : [];
+
+    try {
+      await runQueue(items, analyzeFile, {
+        concurrency,
+        maxRetries: MAX_RETRIES,
+        baseDelayMs: RETRY_BASE_DELAY_MS,
+        signal: controller.signal,
+        isRetryable: isRetryableError,
+        isRateLimited: isRateLimitError,
+      }, (updated) => {
+        if (abortControllerRef.current === controller) {
+          setJobs([...kept, ...updated]);
+        }
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setRunning(false);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleClear = () => {
+    setFiles([]);
+    setJobs([]);
+    setExpandedIndex(null);
+    setError(null);
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    if (format === 'csv') {
+      // The BOM makes spreadsheet apps read the file as UTF-8.
+      downloadBlob(new Blob(['\uFEFF', jobsToCsv(jobs, analysisMode)], { type: 'text/csv' }), `batch-analysis-${stamp}.csv`);
+    } else {
+      downloadBlob(new Blob([jobsToJson(jobs)], { type: 'application/json' }), `batch-analysis-${stamp}.json`);
+    }
+  };
+
+  const counts = jobs.reduce((acc, job) => ({ ...acc, [job.status]: acc[job.status] + 1 }), {
+    pending: 0, running: 0, retrying: 0, done: 0, failed: 0, cancelled: 0,
+  } as Record<JobStatus, number>);
+  const settled = counts.done + counts.failed + counts.cancelled;
+  const progress = jobs.length > 0 ? Math.round((settled / jobs.length) * 100) : 0;
+  const rows: (BatchJob | null)[] = jobs.length > 0 ? jobs : files.map(() => null);
+
+  return (
+    <details className="pt-4 border-t border-gray-700/50">
+      <summary className="text-sm font-medium text-gray-300 cursor-pointer hover:text-white transition-colors flex items-center gap-2">
+        <QueueListIcon className="w-5 h-5" />
+        Batch Analysis
+        {files.length > 0 && <span className="text-xs text-gray-400">({files.length} images)</span>}
+      </summary>
+      <div className="mt-3 bg-gray-700/50 p-4 rounded-lg space-y-4">
+        <p className="text-xs text-gray-400">
+          Every image is processed with the aspect ratio, resize mode, filters, rotation, prompt and output mode selected above.
+          {settings.aspectRatio === 'Auto' && ' With Auto, each image keeps its own aspect ratio.'}
+        </p>
+
+        <div
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`p-6 rounded-lg border-2 border-dashed text-center transition-colors ${isDragging ? 'border-indigo-500 bg-indigo-900/20' : 'border-gray-600'}`}
+        >
+          <input type="file" ref={filesInputRef} onChange={handleInputChange} accept="image/*" multiple className="hidden" />
+          <input type="file" ref={folderInputRef} onChange={handleInputChange} className="hidden" />
+          <PhotoIcon className="w-10 h-10 mx-auto mb-2 text-gray-500" />
+          <p className="text-sm text-gray-400 mb-3">Drop images or folders here</p>
+          <div className="flex justify-center gap-2">
+            <button onClick={() => filesInputRef.current?.click()} disabled={running} className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 disabled:opacity-50 transition-colors">
+              <PhotoIcon className="w-4 h-4" />
+              Add Images
+            </button>
+            <button onClick={() => folderInputRef.current?.click()} disabled={running} className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 disabled:opacity-50 transition-colors">
+              <FolderIcon className="w-4 h-4" />
+              Add Folder
+            </button>
+          </div>
+        </div>
+
+        {error && <div className="text-red-400 bg-red-900/50 p-3 rounded-lg text-center text-sm">{error}</div>}
+
+        {files.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                Parallel requests
+                <select
+                  value={concurrency}
+                  onChange={(e) => handleConcurrencyChange(Number(e.target.value))}
+                  disabled={running}
+                  className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                  {concurrencyOptions.map((option) => <option key={option} value={option}>{option}</option>)}
+                </select>
+              </label>
+              <div className="flex-grow" />
+              {jobs.length > 0 && !running && (
+                <>
+                  {(counts.failed > 0 || counts.cancelled > 0) && (
+                    <button onClick={() => handleStart(true)} disabled={disabled} className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 disabled:opacity-50 transition-colors">
+                      Retry {counts.failed + counts.cancelled} unfinished
+                    </button>
+                  )}
+                  <button onClick={() => handleExport('csv')} className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 transition-colors">
+                    <ArrowDownTrayIcon className="w-4 h-4" />
+                    CSV
+                  </button>
+                  <button onClick={() => handleExport('json')} className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 transition-colors">
+                    <ArrowDownTrayIcon className="w-4 h-4" />
+                    JSON
+                  </button>
+                </>
+              )}
+              <button onClick={handleClear} disabled={running} className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-red-600/50 text-red-200 hover:bg-red-600/80 disabled:opacity-50 transition-colors">
+                <TrashIcon className="w-4 h-4" />
+                Clear
+              </button>
+            </div>
+
+            {jobs.length > 0 && (
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs text-gray-400">
+                  <span>{settled} / {jobs.length} finished · {counts.done} done · {counts.failed} failed{counts.cancelled > 0 && ` · ${counts.cancelled} cancelled`}</span>
+                  <span className="font-mono">{progress}%</span>
+                </div>
+                <div className="w-full h-2 bg-gray-600 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500 transition-all duration-300" style={{ width: `${progress}%` }} />
+                </div>
+              </div>
+            )}
+
+            <ul className="max-h-96 overflow-y-auto space-y-1 pr-1">
+              {rows.map((job, index) => {
+                const path = job ? job.item.path : files[index].path;
+                const status: JobStatus = job?.status ?? 'pending';
+                const isExpanded = expandedIndex === index && job?.result !== undefined;
+                return (
+                  <li key={path} className="bg-gray-800/60 rounded-md text-sm">
+                    <button
+                      onClick={() => setExpandedIndex(isExpanded ? null : index)}
+                      className="w-full flex items-center gap-3 px-3 py-1.5 text-left"
+                    >
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize flex items-center gap-1 ${statusStyles[status]}`}>
+                        {(status === 'running' || status === 'retrying') && <Spinner className="w-3 h-3" />}
+                        {status}
+                      </span>
+                      <span className="text-gray-200 flex-grow truncate" title={path}>{path}</span>
+                      {job && job.attempts > 1 && <span className="text-xs text-gray-400">attempt {job.attempts}</span>}
+                    </button>
+                    {job?.error && <p className="px-3 pb-2 text-xs text-red-400">{job.error}</p>}
+                    {isExpanded && (
+                      <p className="px-3 pb-2 text-xs text-gray-300 whitespace-pre-wrap">
+                        {typeof job.result === 'string' ? job.result : job.result?.summary}
+                      </p>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+
+            {running ? (
+              <button onClick={handleCancel} className="w-full bg-red-600/70 text-white font-bold py-3 px-4 rounded-lg hover:bg-red-600 transition-colors duration-300 flex justify-center items-center">
+                <StopIcon className="w-5 h-5 mr-2" />Cancel Batch
+              </button>
+            ) : (
+              <button onClick={() => handleStart()} disabled={disabled} className="w-full bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-800 disabled:cursor-not-allowed transition-colors duration-300 flex justify-center items-center">
+                <DocumentMagnifyingGlassIcon className="w-5 h-5 mr-2" />Analyze {files.length} Images
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </details>
+  );
+};
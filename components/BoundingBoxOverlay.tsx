@@ -0,0 +1,85 @@
+import React from 'react';
+import { DetectedObject } from '../types';
+
+interface BoundingBoxOverlayProps {
+  objects: DetectedObject[];
+  imageWidth: number;
+  imageHeight: number;
+  /** Must match the `object-fit` of the preview image underneath. */
+  fit: 'cover' | 'contain';
+  /** The CSS transform applied to the preview image (rotation / mirroring). */
+  transform: string;
+  isMirrored: boolean;
+  hiddenIndices: Set<number>;
+  hoveredIndex: number | null;
+  onHover: (index: number | null) => void;
+}
+
+export const boxColors = ['#818cf8', '#f472b6', '#34d399', '#fbbf24', '#60a5fa', '#f87171', '#a78bfa', '#2dd4bf'];
+
+/**
+ * Draws detected objects over the analyzer preview. The SVG covers the same
+ * box as the `<img>`, uses the image's natural size as its viewBox and mirrors
+ * its object-fit through `preserveAspectRatio`, so boxes stay aligned in both
+ * resize modes and under the same rotate/mirror transform.
+ */
+export const BoundingBoxOverlay: React.FC<BoundingBoxOverlayProps> = ({
+  objects, imageWidth, imageHeight, fit, transform, isMirrored, hiddenIndices, hoveredIndex, onHover,
+}) => {
+  const fontSize = Math.max(imageWidth, imageHeight) * 0.025;
+
+  return (
+    <svg
+      viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+      preserveAspectRatio={fit === 'cover' ? 'xMidYMid slice' : 'xMidYMid meet'}
+      className="absolute inset-0 w-full h-full pointer-events-none transition-transform duration-300"
+      style={{ transform }}
+    >
+      {objects.map((object, index) => {
+        if (!object.box || hiddenIndices.has(index)) return null;
+        const [ymin, xmin, ymax, xmax] = object.box;
+        const x = (xmin / 1000) * imageWidth;
+        const y = (ymin / 1000) * imageHeight;
+        const width = ((xmax - xmin) / 1000) * imageWidth;
+        const height = ((ymax - ymin) / 1000) * imageHeight;
+        const centerX = x + width / 2;
+        const color = boxColors[index % boxColors.length];
+        const isHovered = hoveredIndex === index;
+
+        return (
+          <g
+            key={index}
+            style={{ pointerEvents: 'all', cursor: 'pointer' }}
+            onMouseEnter={() => onHover(index)}
+            onMouseLeave={() => onHover(null)}
+          >
+            <title>{object.label}</title>
+            <rect
+              x={x}
+              y={y}
+              width={width}
+              height={height}
+              fill={isHovered ? `${color}33` : 'transparent'}
+              stroke={color}
+              strokeWidth={isHovered ? 4 : 2}
+              vectorEffect="non-scaling-stroke"
+            />
+            <text
+              x={centerX}
+              y={y + fontSize * 1.2}
+              fill={color}
+              fontSize={fontSize}
+              fontWeight="600"
+              textAnchor="middle"
+              // Undo the preview's mirroring so labels stay readable.
+              transform={isMirrored ? `translate(${centerX * 2} 0) scale(-1 1)` : undefined}
+              style={{ paintOrder: 'stroke', stroke: '#111827', strokeWidth: fontSize * 0.15 }}
+            >
+              {object.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,31 @@
+import React, { useSyncExternalStore } from 'react';
+import { formatCost, getBudgetStatus, getUsageState, subscribeToUsage } from '../services/usageService';
+import { useStudio } from '../context/StudioContext';
+
+/**
+ * Warns on every tab once this month's estimated spend nears or passes the budget.
+ */
+export const BudgetNotice: React.FC = () => {
+  const usage = useSyncExternalStore(subscribeToUsage, getUsageState);
+  const { state: { tab }, navigate } = useStudio();
+  const { state, spent, limit } = getBudgetStatus(usage);
+
+  if (limit === null || (state !== 'near' && state !== 'over')) return null;
+
+  const message = state === 'near'
+    ? `${formatCost(spent)} of the ${formatCost(limit)} monthly budget is spent.`
+    : usage.budget.mode === 'block'
+      ? `The ${formatCost(limit)} monthly budget is used up, so Gemini calls are blocked until next month.`
+      : `The ${formatCost(limit)} monthly budget is exceeded: ${formatCost(spent)} spent.`;
+
+  return (
+    <div role="status" className={`flex flex-wrap items-center justify-between gap-2 mb-6 p-3 rounded-lg text-sm ${state === 'over' ? 'bg-red-900/50 text-red-300' : 'bg-yellow-900/40 text-yellow-300'}`}>
+      <span>{message}</span>
+      {tab !== 'usage' && (
+        <button onClick={() => navigate('usage')} className="px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 transition-colors">
+          View Usage
+        </button>
+      )}
+    </div>
+  );
+};
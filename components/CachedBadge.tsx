@@ -0,0 +1,35 @@
+import React from 'react';
+import { ArrowPathIcon } from './Icons';
+
+interface CachedBadgeProps {
+  /** When the reused result was first stored. */
+  storedAt: number;
+  /** Runs the request again without the cache. */
+  onRefresh?: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Marks a result that came from the response cache instead of a new API call.
+ */
+export const CachedBadge: React.FC<CachedBadgeProps> = ({ storedAt, onRefresh, disabled }) => (
+  <span className="inline-flex items-center gap-1">
+    <span
+      className="px-2 py-0.5 text-xs font-semibold rounded-full bg-emerald-900/60 text-emerald-300"
+      title={`Reused from ${new Date(storedAt).toLocaleString()}; no API call was made.`}
+    >
+      Cached
+    </span>
+    {onRefresh && (
+      <button
+        onClick={onRefresh}
+        disabled={disabled}
+        className="p-1 rounded-full text-gray-400 hover:text-white hover:bg-gray-600 disabled:opacity-50 transition-colors"
+        title="Run again without the cache"
+        aria-label="Run again without the cache"
+      >
+        <ArrowPathIcon className="w-3.5 h-3.5" />
+      </button>
+    )}
+  </span>
+);
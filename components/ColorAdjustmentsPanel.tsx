@@ -0,0 +1,78 @@
+import React from 'react';
+import { ColorAdjustments, CurveChannel, CurvePoint, Levels, ToneSettings } from '../types';
+import { Histogram } from '../utils/pixelAdjustments';
+import { adjustmentLabels } from '../utils/editStack';
+import { ToneCurveEditor } from './ToneCurveEditor';
+import { SunIcon } from './Icons';
+
+interface ColorAdjustmentsPanelProps {
+  adjustments: ColorAdjustments;
+  tone: ToneSettings;
+  histogram: Histogram | null;
+  onAdjustmentChange: (adjustment: keyof ColorAdjustments, value: number) => void;
+  onCurveChange: (channel: CurveChannel, points: CurvePoint[]) => void;
+  onLevelsChange: (levels: Levels) => void;
+  onResetAdjustments: () => void;
+  onResetTone: () => void;
+  disabled?: boolean;
+}
+
+const sliderGroups: { title: string; adjustments: (keyof ColorAdjustments)[]; min: number }[] = [
+  { title: 'Light', adjustments: ['exposure', 'highlights', 'shadows'], min: -100 },
+  { title: 'Color', adjustments: ['temperature', 'tint', 'vibrance'], min: -100 },
+  { title: 'Detail', adjustments: ['sharpen', 'vignette'], min: 0 },
+];
+
+export const ColorAdjustmentsPanel: React.FC<ColorAdjustmentsPanelProps> = ({ adjustments, tone, histogram, onAdjustmentChange, onCurveChange, onLevelsChange, onResetAdjustments, onResetTone, disabled }) => {
+  return (
+    <details>
+      <summary className="text-sm font-medium text-gray-300 cursor-pointer hover:text-white transition-colors flex items-center gap-2">
+        <SunIcon className="w-5 h-5" />
+        Color Adjustments
+      </summary>
+      <div className="mt-3 bg-gray-700/50 p-4 rounded-lg space-y-4">
+        {sliderGroups.map((group) => (
+          <div key={group.title} className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-400">{group.title}</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-x-4 gap-y-3">
+              {group.adjustments.map((name) => (
+                <div key={name}>
+                  <label htmlFor={`adjustment-${name}`} className="text-xs font-medium text-gray-400 flex justify-between">
+                    <span>{adjustmentLabels[name]}</span>
+                    <span>{adjustments[name] > 0 && group.min < 0 ? '+' : ''}{adjustments[name]}</span>
+                  </label>
+                  <input
+                    id={`adjustment-${name}`}
+                    type="range"
+                    min={group.min}
+                    max="100"
+                    value={adjustments[name]}
+                    onChange={(e) => onAdjustmentChange(name, e.target.valueAsNumber)}
+                    onDoubleClick={() => onAdjustmentChange(name, 0)}
+                    disabled={disabled}
+                    className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+        <div className="flex justify-end pt-2 border-t border-gray-600/50">
+          <button onClick={onResetAdjustments} disabled={disabled} className="px-3 py-1 text-sm font-semibold rounded-full bg-red-600/50 text-red-200 hover:bg-red-600/80 transition-colors">
+            Reset Adjustments
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-400">Curves &amp; Levels</h4>
+          <ToneCurveEditor tone={tone} histogram={histogram} onCurveChange={onCurveChange} onLevelsChange={onLevelsChange} disabled={disabled} />
+        </div>
+        <div className="flex justify-end pt-2 border-t border-gray-600/50">
+          <button onClick={onResetTone} disabled={disabled} className="px-3 py-1 text-sm font-semibold rounded-full bg-red-600/50 text-red-200 hover:bg-red-600/80 transition-colors">
+            Reset Curves
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+};
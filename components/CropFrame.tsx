@@ -0,0 +1,136 @@
+import React, { useRef } from 'react';
+import { CropRect } from '../types';
+import { CropHandle, moveCropRect, resizeCropRect } from '../utils/crop';
+
+interface CropFrameProps {
+  crop: CropRect;
+  onChange: (crop: CropRect) => void;
+  /** Pixel aspect ratio to keep, or null for a free-form crop. */
+  aspectRatio: number | null;
+  /** Pixel size of the rotated image the crop is relative to. */
+  boxWidth: number;
+  boxHeight: number;
+  disabled?: boolean;
+}
+
+interface DragState {
+  handle: CropHandle | 'move';
+  startX: number;
+  startY: number;
+  startCrop: CropRect;
+}
+
+const NUDGE_STEP = 0.005;
+const NUDGE_STEP_LARGE = 0.05;
+
+const cornerHandles: CropHandle[] = ['nw', 'ne', 'sw', 'se'];
+const edgeHandles: CropHandle[] = ['n', 's', 'e', 'w'];
+
+const handlePositions: Record<CropHandle, string> = {
+  nw: 'top-0 left-0 -translate-x-1/2 -translate-y-1/2 cursor-nwse-resize',
+  ne: 'top-0 right-0 translate-x-1/2 -translate-y-1/2 cursor-nesw-resize',
+  sw: 'bottom-0 left-0 -translate-x-1/2 translate-y-1/2 cursor-nesw-resize',
+  se: 'bottom-0 right-0 translate-x-1/2 translate-y-1/2 cursor-nwse-resize',
+  n: 'top-0 left-1/2 -translate-x-1/2 -translate-y-1/2 cursor-ns-resize',
+  s: 'bottom-0 left-1/2 -translate-x-1/2 translate-y-1/2 cursor-ns-resize',
+  e: 'top-1/2 right-0 translate-x-1/2 -translate-y-1/2 cursor-ew-resize',
+  w: 'top-1/2 left-0 -translate-x-1/2 -translate-y-1/2 cursor-ew-resize',
+};
+
+const arrowOffsets: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+/**
+ * A draggable, resizable crop rectangle drawn over the analyzer preview, which
+ * must cover exactly the rotated image's bounding box. Everything outside the
+ * frame is dimmed and rule-of-thirds guides are shown inside it.
+ */
+export const CropFrame: React.FC<CropFrameProps> = ({ crop, onChange, aspectRatio, boxWidth, boxHeight, disabled }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const handlePointerDown = (handle: CropHandle | 'move') => (event: React.PointerEvent<HTMLElement>) => {
+    if (disabled) return;
+    event.preventDefault();
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { handle, startX: event.clientX, startY: event.clientY, startCrop: crop };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLElement>) => {
+    const drag = dragRef.current;
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!drag || !rect) return;
+    const dx = (event.clientX - drag.startX) / rect.width;
+    const dy = (event.clientY - drag.startY) / rect.height;
+    onChange(drag.handle === 'move'
+      ? moveCropRect(drag.startCrop, dx, dy)
+      : resizeCropRect(drag.startCrop, drag.handle, dx, dy, aspectRatio, boxWidth, boxHeight));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  // Arrows move the frame; with Alt they grow or shrink it from the bottom-right corner.
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const offset = arrowOffsets[event.key];
+    if (!offset || disabled) return;
+    event.preventDefault();
+    const step = event.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+    const [dx, dy] = [offset[0] * step, offset[1] * step];
+    if (event.altKey && aspectRatio) {
+      // Keep the ratio by moving the bottom-right corner along the diagonal.
+      const delta = dx || dy;
+      onChange(resizeCropRect(crop, 'se', delta, delta / (aspectRatio * boxHeight / boxWidth), aspectRatio, boxWidth, boxHeight));
+    } else if (event.altKey) {
+      onChange(resizeCropRect(crop, dx !== 0 ? 'e' : 's', dx, dy, null, boxWidth, boxHeight));
+    } else {
+      onChange(moveCropRect(crop, dx, dy));
+    }
+  };
+
+  const handles = aspectRatio ? cornerHandles : [...cornerHandles, ...edgeHandles];
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 pointer-events-none">
+      <div
+        role="group"
+        aria-label="Crop area. Use the arrow keys to move it and Alt with the arrow keys to resize it."
+        tabIndex={disabled ? -1 : 0}
+        onKeyDown={handleKeyDown}
+        onPointerDown={handlePointerDown('move')}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`absolute pointer-events-auto border-2 border-white/90 focus:outline-none focus-visible:border-indigo-400 touch-none ${disabled ? '' : 'cursor-move'}`}
+        style={{
+          left: `${crop.x * 100}%`,
+          top: `${crop.y * 100}%`,
+          width: `${crop.width * 100}%`,
+          height: `${crop.height * 100}%`,
+          boxShadow: '0 0 0 9999px rgba(17, 24, 39, 0.6)',
+        }}
+      >
+        <div className="absolute inset-0 pointer-events-none">
+          <div className="absolute top-0 bottom-0 left-1/3 border-l border-white/40" />
+          <div className="absolute top-0 bottom-0 left-2/3 border-l border-white/40" />
+          <div className="absolute left-0 right-0 top-1/3 border-t border-white/40" />
+          <div className="absolute left-0 right-0 top-2/3 border-t border-white/40" />
+        </div>
+        {!disabled && handles.map((handle) => (
+          <div
+            key={handle}
+            // Move and up events bubble to the frame, which tracks the drag.
+            onPointerDown={handlePointerDown(handle)}
+            className={`absolute w-3 h-3 bg-white border border-gray-800 rounded-sm touch-none ${handlePositions[handle]}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
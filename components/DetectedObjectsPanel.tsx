@@ -0,0 +1,52 @@
+import React from 'react';
+import { DetectedObject } from '../types';
+import { boxColors } from './BoundingBoxOverlay';
+
+interface DetectedObjectsPanelProps {
+  objects: DetectedObject[];
+  hiddenIndices: Set<number>;
+  onToggle: (index: number) => void;
+  onToggleAll: (visible: boolean) => void;
+  hoveredIndex: number | null;
+  onHover: (index: number | null) => void;
+}
+
+export const DetectedObjectsPanel: React.FC<DetectedObjectsPanelProps> = ({ objects, hiddenIndices, onToggle, onToggleAll, hoveredIndex, onHover }) => {
+  const allVisible = hiddenIndices.size === 0;
+
+  if (objects.length === 0) {
+    return <p className="text-gray-400 text-sm">No objects were detected.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={allVisible} onChange={() => onToggleAll(!allVisible)} className="accent-indigo-500" />
+          Show all boxes
+        </label>
+      </div>
+      <ul className="space-y-1">
+        {objects.map((object, index) => (
+          <li
+            key={index}
+            onMouseEnter={() => onHover(index)}
+            onMouseLeave={() => onHover(null)}
+            className={`flex items-center gap-3 px-3 py-1.5 rounded-md text-sm transition-colors ${hoveredIndex === index ? 'bg-gray-600' : 'hover:bg-gray-600/50'}`}
+          >
+            <input
+              type="checkbox"
+              checked={!hiddenIndices.has(index)}
+              onChange={() => onToggle(index)}
+              className="accent-indigo-500"
+              aria-label={`Show box for ${object.label}`}
+            />
+            <span className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: boxColors[index % boxColors.length] }} />
+            <span className="text-gray-200 flex-grow">{object.label}</span>
+            <span className="font-mono text-xs text-gray-400">{object.box?.join(', ')}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { EditOperation, EditRecipe } from '../types';
+import { describeEditOperation } from '../utils/editStack';
+import { ArrowUturnLeftIcon, ArrowUturnRightIcon, QueueListIcon, XMarkIcon } from './Icons';
+
+interface EditHistoryPanelProps {
+  operations: EditOperation[];
+  cursor: number;
+  onJump: (cursor: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onApplyRecipe: (operations: EditOperation[]) => void;
+  disabled?: boolean;
+}
+
+const RECIPES_STORAGE_KEY = 'editRecipes';
+
+export const EditHistoryPanel: React.FC<EditHistoryPanelProps> = ({ operations, cursor, onJump, onUndo, onRedo, onApplyRecipe, disabled }) => {
+  const [recipes, setRecipes] = useState<EditRecipe[]>([]);
+  const [recipeName, setRecipeName] = useState<string>('');
+  const [recipeError, setRecipeError] = useState<string | null>(null);
+
+  useEffect(() => {
+    try {
+      const storedRecipes = localStorage.getItem(RECIPES_STORAGE_KEY);
+      if (storedRecipes) {
+        const parsed = JSON.parse(storedRecipes);
+        if (Array.isArray(parsed)) {
+          setRecipes(parsed);
+        }
+      }
+    } catch (e) {
+      console.error("Failed to parse edit recipes from localStorage", e);
+    }
+  }, []);
+
+  const saveRecipes = (updated: EditRecipe[]) => {
+    setRecipes(updated);
+    localStorage.setItem(RECIPES_STORAGE_KEY, JSON.stringify(updated));
+  };
+
+  const activeOperations = operations.slice(0, cursor);
+
+  const handleSaveRecipe = () => {
+    const name = recipeName.trim();
+    if (!name) {
+      setRecipeError('Please enter a name for the recipe.');
+      return;
+    }
+    if (recipes.some((recipe) => recipe.name.toLowerCase() === name.toLowerCase())) {
+      setRecipeError('A recipe with this name already exists.');
+      return;
+    }
+    saveRecipes([...recipes, { id: crypto.randomUUID(), name, operations: activeOperations }]);
+    setRecipeName('');
+    setRecipeError(null);
+  };
+
+  const stepClass = (active: boolean, current: boolean) =>
+    `w-full text-left px-3 py-1 rounded-md text-sm transition-colors ${current ? 'bg-indigo-600 text-white' : active ? 'text-gray-200 hover:bg-gray-600' : 'text-gray-500 line-through hover:bg-gray-600/50'}`;
+
+  return (
+    <details>
+      <summary className="text-sm font-medium text-gray-300 cursor-pointer hover:text-white transition-colors flex items-center gap-2">
+        <QueueListIcon className="w-5 h-5" />
+        Edit History
+        {cursor > 0 && <span className="text-xs text-gray-400">({cursor} {cursor === 1 ? 'step' : 'steps'})</span>}
+      </summary>
+      <div className="mt-3 bg-gray-700/50 p-4 rounded-lg space-y-4">
+        <div className="flex items-center gap-2">
+          <button onClick={onUndo} disabled={disabled || cursor === 0} className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 disabled:opacity-50 transition-colors" title="Undo (Ctrl+Z)">
+            <ArrowUturnLeftIcon className="w-4 h-4" />
+            Undo
+          </button>
+          <button onClick={onRedo} disabled={disabled || cursor === operations.length} className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 disabled:opacity-50 transition-colors" title="Redo (Ctrl+Shift+Z)">
+            <ArrowUturnRightIcon className="w-4 h-4" />
+            Redo
+          </button>
+        </div>
+
+        <ol className="max-h-60 overflow-y-auto space-y-0.5">
+          <li>
+            <button onClick={() => onJump(0)} disabled={disabled} className={stepClass(true, cursor === 0)}>Original</button>
+          </li>
+          {operations.map((operation, index) => (
+            <li key={index}>
+              <button onClick={() => onJump(index + 1)} disabled={disabled} className={stepClass(index < cursor, cursor === index + 1)}>
+                {describeEditOperation(operation)}
+              </button>
+            </li>
+          ))}
+        </ol>
+
+        <div className="pt-3 border-t border-gray-600/50 space-y-3">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-400">Recipes</h4>
+          {recipes.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {recipes.map((recipe) => (
+                <div key={recipe.id} className="flex items-center rounded-full text-sm font-medium bg-gray-600 text-gray-300 hover:bg-gray-500 transition-colors">
+                  <button
+                    onClick={() => onApplyRecipe(recipe.operations)}
+                    className="py-1 pl-3 pr-1"
+                    disabled={disabled}
+                    title={recipe.operations.map(describeEditOperation).join('\n')}
+                  >
+                    {recipe.name}
+                  </button>
+                  <button onClick={() => saveRecipes(recipes.filter((r) => r.id !== recipe.id))} className="mr-1.5 text-gray-300 hover:text-white hover:bg-gray-400 rounded-full p-0.5 transition-colors" aria-label={`Delete recipe ${recipe.name}`}>
+                    <XMarkIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-400">Save the current steps as a recipe to apply them to other images.</p>
+          )}
+          {activeOperations.length > 0 && (
+            <div className="flex gap-2 items-start">
+              <div className="flex-grow">
+                <input type="text" value={recipeName} onChange={(e) => { setRecipeName(e.target.value); setRecipeError(null); }} placeholder="Recipe name" className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500" />
+                {recipeError && <p className="text-red-400 text-xs mt-1">{recipeError}</p>}
+              </div>
+              <button onClick={handleSaveRecipe} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-indigo-700 transition-colors text-sm">Save Recipe</button>
+            </div>
+          )}
+        </div>
+      </div>
+    </details>
+  );
+};
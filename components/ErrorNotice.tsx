@@ -0,0 +1,88 @@
+import React from 'react';
+import { ServiceError, ServiceErrorKind } from '../services/serviceErrors';
+import { useStudio } from '../context/StudioContext';
+import { ArrowPathIcon, ChartBarIcon, Cog6ToothIcon } from './Icons';
+
+interface ErrorNoticeProps {
+  /** Plain messages are shown as they are; service failures get a title and a suggested fix. */
+  error: string | Error;
+  /** Offered for failures that may succeed on another try. */
+  onRetry?: () => void;
+}
+
+const errorTitles: Record<ServiceErrorKind, string> = {
+  auth: 'API key problem',
+  rateLimit: 'Rate limit reached',
+  safety: 'Blocked by safety filters',
+  invalidInput: 'Request rejected',
+  network: 'Connection problem',
+  timeout: 'Request timed out',
+  unavailable: 'Service unavailable',
+  empty: 'Nothing came back',
+  budget: 'Monthly budget reached',
+  unknown: 'Something went wrong',
+};
+
+const errorSuggestions: Record<ServiceErrorKind, string> = {
+  auth: 'Check, unlock or replace the key in Settings. Keys from Google AI Studio need the Gemini API enabled.',
+  rateLimit: 'Wait a minute before trying again, lower the number of images or parallel requests, or check the quota and billing of your project.',
+  safety: 'Rephrase the prompt or instruction to avoid the flagged content, or try a different image.',
+  invalidInput: 'Check the prompt, the image and the advanced options, e.g. a model that does not support the chosen settings.',
+  network: 'Check your internet connection, VPN or firewall, then try again.',
+  timeout: 'Try again. Smaller images or fewer images per request finish faster.',
+  unavailable: 'The service is overloaded or down. Try again in a few moments.',
+  empty: 'Try again, or rephrase the prompt to be more specific.',
+  budget: 'Raise the budget or switch it to warnings only on the Usage tab, or use the offline mock backend.',
+  unknown: 'Try again. If it keeps failing, the browser console has the details.',
+};
+
+const RETRYABLE_KINDS: ServiceErrorKind[] = ['rateLimit', 'network', 'timeout', 'unavailable', 'empty', 'unknown'];
+
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry }) => {
+  const { navigate } = useStudio();
+
+  if (!(error instanceof ServiceError)) {
+    return <div className="text-red-400 bg-red-900/50 p-3 rounded-lg text-center">{typeof error === 'string' ? error : error.message}</div>;
+  }
+
+  const { kind, blockedReasons, attempts } = error;
+  return (
+    <div role="alert" className="text-red-300 bg-red-900/50 p-4 rounded-lg space-y-2 text-sm">
+      <p className="font-semibold text-red-200">{errorTitles[kind]}</p>
+      <p>
+        {error.message}
+        {attempts > 1 && <span className="text-red-300/80"> Gave up after {attempts} attempts.</span>}
+      </p>
+      {blockedReasons.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {blockedReasons.map((reason) => (
+            <span key={reason} className="px-2 py-0.5 text-xs rounded-full bg-red-800/70 text-red-100">{reason}</span>
+          ))}
+        </div>
+      )}
+      <p className="text-gray-300">{errorSuggestions[kind]}</p>
+      {(kind === 'auth' || kind === 'budget' || (onRetry && RETRYABLE_KINDS.includes(kind))) && (
+        <div className="flex flex-wrap gap-2 pt-1">
+          {kind === 'auth' && (
+            <button onClick={() => navigate('settings')} className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 transition-colors">
+              <Cog6ToothIcon className="w-4 h-4" />
+              Open Settings
+            </button>
+          )}
+          {kind === 'budget' && (
+            <button onClick={() => navigate('usage')} className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 transition-colors">
+              <ChartBarIcon className="w-4 h-4" />
+              Open Usage
+            </button>
+          )}
+          {onRetry && RETRYABLE_KINDS.includes(kind) && (
+            <button onClick={onRetry} className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 transition-colors">
+              <ArrowPathIcon className="w-4 h-4" />
+              Try Again
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,311 @@
+import React, { useState, useEffect } from 'react';
+import { defaultExportSettings, exportFormats, ExportFormat, ExportSettings, exportSizeModes, ExportSizeMode, exportSizePresets } from '../types';
+import { canEmbedMetadata, canEncodeFormat, exportImage, ExportSource, getExportSize } from '../utils/export';
+import { downloadBlob, extensionForMimeType } from '../utils/download';
+import { formatBytes } from '../utils/files';
+import { ImageMetadata, listPrivateMetadata } from '../utils/imageMetadata';
+import { Spinner } from './Spinner';
+import { ArrowDownTrayIcon, XMarkIcon } from './Icons';
+
+interface ExportDialogProps {
+  source: ExportSource;
+  /** File name without an extension. */
+  baseName: string;
+  /** Text that can be embedded in the file, e.g. the prompt or the analysis. */
+  description?: string;
+  /** What `description` is, as shown next to the metadata option. */
+  descriptionLabel: string;
+  /** Metadata of the uploaded photo the source was edited from. */
+  photoMetadata?: ImageMetadata | null;
+  onClose: () => void;
+}
+
+const EXPORT_SETTINGS_STORAGE_KEY = 'exportSettings';
+// Re-encoding on every keystroke would stall large images, so estimates wait for a pause.
+const ESTIMATE_DELAY_MS = 300;
+
+const formatLabels: Record<ExportFormat, string> = {
+  'image/png': 'PNG',
+  'image/jpeg': 'JPEG',
+  'image/webp': 'WebP',
+  'image/avif': 'AVIF',
+};
+
+const sizeModeLabels: Record<ExportSizeMode, string> = {
+  scale: 'Scale',
+  width: 'Width',
+  height: 'Height',
+  exact: 'Exact Size',
+};
+
+const scaleOptions = [0.25, 0.5, 1, 2];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ source, baseName, description, descriptionLabel, photoMetadata, onClose }) => {
+  const [settings, setSettings] = useState<ExportSettings>(defaultExportSettings);
+  const [estimate, setEstimate] = useState<number | null>(null);
+  const [estimating, setEstimating] = useState<boolean>(false);
+  const [exporting, setExporting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    try {
+      const storedSettings = localStorage.getItem(EXPORT_SETTINGS_STORAGE_KEY);
+      if (storedSettings) {
+        const parsed: ExportSettings = { ...defaultExportSettings, ...JSON.parse(storedSettings) };
+        // A format saved on another browser may not be available here.
+        setSettings(canEncodeFormat(parsed.format) ? parsed : { ...parsed, format: defaultExportSettings.format });
+      }
+    } catch (e) {
+      console.error("Failed to parse export settings from localStorage", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEstimating(true);
+    setError(null);
+    const timeout = setTimeout(() => {
+      exportImage(source, settings, description, photoMetadata)
+        .then((blob) => {
+          if (!cancelled) setEstimate(blob.size);
+        })
+        .catch((err) => {
+          if (cancelled) return;
+          setEstimate(null);
+          setError(err instanceof Error ? err.message : 'The image could not be encoded.');
+        })
+        .finally(() => {
+          if (!cancelled) setEstimating(false);
+        });
+    }, ESTIMATE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [source, settings, description, photoMetadata]);
+
+  const updateSettings = (changes: Partial<ExportSettings>) => {
+    const updated = { ...settings, ...changes };
+    setSettings(updated);
+    localStorage.setItem(EXPORT_SETTINGS_STORAGE_KEY, JSON.stringify(updated));
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const blob = await exportImage(source, settings, description, photoMetadata);
+      downloadBlob(blob, `${baseName}.${extensionForMimeType(settings.format)}`);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred during export.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const outputSize = getExportSize(source.width, source.height, settings);
+  const isUpscaled = outputSize.width > source.width || outputSize.height > source.height;
+  const isLossless = settings.format === 'image/png';
+  const metadataSupported = canEmbedMetadata(settings.format);
+  const privateFields = photoMetadata ? listPrivateMetadata(photoMetadata) : [];
+
+  const optionButtonClass = (active: boolean) => `flex-1 px-3 py-2 text-sm font-semibold rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${active ? 'bg-indigo-600 text-white shadow' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`;
+  const numberInputClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+  const dimensionInput = (field: 'width' | 'height') => (
+    <label className="flex-1 text-xs text-gray-400 space-y-1">
+      <span>{field === 'width' ? 'Width (px)' : 'Height (px)'}</span>
+      <input
+        type="number"
+        min="1"
+        value={settings[field]}
+        onChange={(e) => updateSettings({ [field]: Math.max(1, Math.round(e.target.valueAsNumber) || 1) })}
+        className={numberInputClass}
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/80 p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-dialog-title"
+        className="w-full max-w-lg bg-gray-800 rounded-xl border border-gray-700 shadow-2xl p-6 space-y-5 max-h-full overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="export-dialog-title" className="text-lg font-semibold text-indigo-400 flex items-center gap-2">
+            <ArrowDownTrayIcon className="w-5 h-5" />
+            Export Image
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-full text-gray-300 hover:text-white hover:bg-gray-600 transition-colors" aria-label="Close export dialog">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-300">Format</h3>
+          <div className="flex gap-2">
+            {exportFormats.map((format) => {
+              const supported = canEncodeFormat(format);
+              return (
+                <button
+                  key={format}
+                  onClick={() => updateSettings({ format })}
+                  disabled={!supported}
+                  className={optionButtonClass(settings.format === format)}
+                  title={supported ? undefined : 'Not supported by this browser'}
+                >
+                  {formatLabels[format]}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <h3 className="font-medium text-gray-300">Quality</h3>
+            <span className="font-mono text-gray-400">{isLossless ? 'Lossless' : `${settings.quality}%`}</span>
+          </div>
+          <input
+            type="range"
+            min="10"
+            max="100"
+            value={settings.quality}
+            onChange={(e) => updateSettings({ quality: e.target.valueAsNumber })}
+            disabled={isLossless}
+            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-indigo-500 disabled:opacity-40 disabled:cursor-not-allowed"
+          />
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-gray-300">Size</h3>
+          <div className="flex gap-2">
+            {exportSizeModes.map((mode) => (
+              <button key={mode} onClick={() => updateSettings({ sizeMode: mode })} className={optionButtonClass(settings.sizeMode === mode)}>
+                {sizeModeLabels[mode]}
+              </button>
+            ))}
+          </div>
+          {settings.sizeMode === 'scale' && (
+            <div className="flex gap-2">
+              {scaleOptions.map((scale) => (
+                <button key={scale} onClick={() => updateSettings({ scale })} className={optionButtonClass(settings.scale === scale)}>
+                  {scale === 1 ? 'Original' : `${scale * 100}%`}
+                </button>
+              ))}
+            </div>
+          )}
+          {settings.sizeMode === 'width' && <div className="flex">{dimensionInput('width')}</div>}
+          {settings.sizeMode === 'height' && <div className="flex">{dimensionInput('height')}</div>}
+          {settings.sizeMode === 'exact' && (
+            <div className="space-y-2">
+              <select
+                value={exportSizePresets.find((preset) => preset.width === settings.width && preset.height === settings.height)?.name ?? ''}
+                onChange={(e) => {
+                  const preset = exportSizePresets.find((p) => p.name === e.target.value);
+                  if (preset) updateSettings({ width: preset.width, height: preset.height });
+                }}
+                className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="">Custom</option>
+                {exportSizePresets.map((preset) => (
+                  <option key={preset.name} value={preset.name}>{preset.name} ({preset.width}×{preset.height})</option>
+                ))}
+              </select>
+              <div className="flex gap-2">
+                {dimensionInput('width')}
+                {dimensionInput('height')}
+              </div>
+              <p className="text-xs text-gray-400">The image is scaled to fill this size and its edges are cropped if the aspect ratio differs.</p>
+            </div>
+          )}
+          <div className="text-xs text-gray-400 space-y-1">
+            <p>
+              Source {source.width}×{source.height}px → Output <span className="font-mono text-gray-200">{outputSize.width}×{outputSize.height}px</span>
+            </p>
+            {isUpscaled && <p className="text-yellow-400">The output is larger than the source and will look softer.</p>}
+          </div>
+        </div>
+
+        <label className={`flex items-start gap-3 text-sm ${description && metadataSupported ? 'text-gray-300 cursor-pointer' : 'text-gray-500'}`}>
+          <input
+            type="checkbox"
+            checked={settings.embedMetadata}
+            onChange={(e) => updateSettings({ embedMetadata: e.target.checked })}
+            disabled={!description || !metadataSupported}
+            className="mt-0.5 h-4 w-4 rounded bg-gray-700 border-gray-600 accent-indigo-500"
+          />
+          <span>
+            Embed the {descriptionLabel} in the file's metadata
+            {!description && <span className="block text-xs">There is no {descriptionLabel} to embed yet.</span>}
+            {description && !metadataSupported && <span className="block text-xs">Metadata can't be embedded in {formatLabels[settings.format]} files.</span>}
+          </span>
+        </label>
+
+        {photoMetadata && (
+          <div className="space-y-2">
+            <label className={`flex items-start gap-3 text-sm ${metadataSupported ? 'text-gray-300 cursor-pointer' : 'text-gray-500'}`}>
+              <input
+                type="checkbox"
+                checked={settings.keepPhotoMetadata}
+                onChange={(e) => updateSettings({ keepPhotoMetadata: e.target.checked })}
+                disabled={!metadataSupported}
+                className="mt-0.5 h-4 w-4 rounded bg-gray-700 border-gray-600 accent-indigo-500"
+              />
+              <span>
+                Keep the photo's camera, exposure and copyright details
+                <span className="block text-xs text-gray-400">Everything else in the original file is always dropped.</span>
+              </span>
+            </label>
+            {privateFields.length > 0 && (
+              <label className={`flex items-start gap-3 text-sm ml-7 ${settings.keepPhotoMetadata && metadataSupported ? 'text-gray-300 cursor-pointer' : 'text-gray-500'}`}>
+                <input
+                  type="checkbox"
+                  checked={settings.stripPrivateMetadata}
+                  onChange={(e) => updateSettings({ stripPrivateMetadata: e.target.checked })}
+                  disabled={!settings.keepPhotoMetadata || !metadataSupported}
+                  className="mt-0.5 h-4 w-4 rounded bg-gray-700 border-gray-600 accent-indigo-500"
+                />
+                <span>
+                  Remove location and other private fields
+                  <span className={`block text-xs ${settings.stripPrivateMetadata ? 'text-gray-400' : 'text-yellow-400'}`}>
+                    This photo contains: {privateFields.join(', ')}.
+                  </span>
+                </span>
+              </label>
+            )}
+          </div>
+        )}
+
+        {error && <div className="text-red-400 bg-red-900/50 p-3 rounded-lg text-center text-sm">{error}</div>}
+
+        <div className="flex items-center justify-between gap-4 pt-2 border-t border-gray-700">
+          <div className="text-sm text-gray-400 flex items-center gap-2">
+            Estimated size:
+            {estimating ? <Spinner className="w-4 h-4" /> : <span className="font-mono text-gray-200">{estimate !== null ? formatBytes(estimate) : '—'}</span>}
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={exporting || !!error}
+            className="flex items-center justify-center bg-indigo-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-800 disabled:cursor-not-allowed transition-colors"
+          >
+            {exporting ? <Spinner className="w-5 h-5 mr-2" /> : <ArrowDownTrayIcon className="w-5 h-5 mr-2" />}
+            Download {formatLabels[settings.format]}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
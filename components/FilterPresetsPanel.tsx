@@ -0,0 +1,190 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { builtInFilterPresets, ColorAdjustments, ColorLut, FilterPreset, ImageFilters, initialColorAdjustments, initialFilterState, initialToneSettings, LutSelection, ToneSettings } from '../types';
+import { deleteLut, importCubeLut } from '../services/lutService';
+import { TrashIcon, XMarkIcon } from './Icons';
+
+interface FilterPresetsPanelProps {
+  filters: ImageFilters;
+  adjustments: ColorAdjustments;
+  tone: ToneSettings;
+  lut: LutSelection | null;
+  /** Every imported LUT. */
+  luts: ColorLut[];
+  onLutsChange: (luts: ColorLut[]) => void;
+  onApplyPreset: (preset: FilterPreset) => void;
+  onLutChange: (lut: LutSelection | null) => void;
+  disabled?: boolean;
+}
+
+const PRESETS_STORAGE_KEY = 'filterPresets';
+
+const DEFAULT_LUT_INTENSITY = 100;
+
+// The part of the edit a look replaces, for spotting which look is applied.
+const lookKey = (filters: ImageFilters, adjustments: ColorAdjustments, tone: ToneSettings, lut: LutSelection | null) =>
+  JSON.stringify({ filters, adjustments, tone, lut });
+
+/**
+ * One-click looks and `.cube` LUT color grades for the analyzer's filter panel.
+ */
+export const FilterPresetsPanel: React.FC<FilterPresetsPanelProps> = ({ filters, adjustments, tone, lut, luts, onLutsChange, onApplyPreset, onLutChange, disabled }) => {
+  const [customPresets, setCustomPresets] = useState<FilterPreset[]>([]);
+  const [presetName, setPresetName] = useState<string>('');
+  const [presetError, setPresetError] = useState<string | null>(null);
+  const [lutError, setLutError] = useState<string | null>(null);
+  const [importing, setImporting] = useState<boolean>(false);
+  const lutInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    try {
+      const storedPresets = localStorage.getItem(PRESETS_STORAGE_KEY);
+      if (storedPresets) {
+        const parsed = JSON.parse(storedPresets);
+        if (Array.isArray(parsed)) {
+          setCustomPresets(parsed);
+        }
+      }
+    } catch (e) {
+      console.error("Failed to parse filter presets from localStorage", e);
+    }
+  }, []);
+
+  const saveCustomPresets = (presets: FilterPreset[]) => {
+    setCustomPresets(presets);
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  };
+
+  const allPresets = [...builtInFilterPresets, ...customPresets];
+  const currentKey = lookKey(filters, adjustments, tone, lut);
+  const activePreset = allPresets.find((preset) =>
+    lookKey(preset.filters, preset.adjustments, preset.tone ?? initialToneSettings, preset.lut ?? null) === currentKey);
+  const isUnedited = currentKey === lookKey(initialFilterState, initialColorAdjustments, initialToneSettings, null);
+  const missingLut = lut && !luts.some((table) => table.id === lut.id);
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) {
+      setPresetError('Please enter a name for the look.');
+      return;
+    }
+    if (allPresets.some((preset) => preset.name.toLowerCase() === name.toLowerCase())) {
+      setPresetError('A look with this name already exists.');
+      return;
+    }
+    saveCustomPresets([...customPresets, { id: crypto.randomUUID(), name, filters, adjustments, tone, lut }]);
+    setPresetName('');
+    setPresetError(null);
+  };
+
+  const handleImportLut = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setImporting(true);
+    setLutError(null);
+    try {
+      const imported = await importCubeLut(file);
+      onLutsChange([...luts, imported].sort((a, b) => a.name.localeCompare(b.name)));
+      onLutChange({ id: imported.id, name: imported.name, intensity: DEFAULT_LUT_INTENSITY });
+    } catch (err) {
+      setLutError(err instanceof Error ? err.message : 'The LUT could not be imported.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDeleteLut = async (id: string) => {
+    setLutError(null);
+    try {
+      await deleteLut(id);
+      onLutsChange(luts.filter((table) => table.id !== id));
+      if (lut?.id === id) onLutChange(null);
+    } catch (err) {
+      console.error("Failed to delete LUT", err);
+      setLutError('The LUT could not be deleted.');
+    }
+  };
+
+  const handleSelectLut = (id: string) => {
+    const table = luts.find((candidate) => candidate.id === id);
+    onLutChange(table ? { id: table.id, name: table.name, intensity: lut?.intensity ?? DEFAULT_LUT_INTENSITY } : null);
+  };
+
+  return (
+    <div className="space-y-4 pb-4 border-b border-gray-600/50">
+      <div className="space-y-2">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-400">Looks</h4>
+        <div className="flex flex-wrap gap-2">
+          {allPresets.map((preset) => {
+            const isSelected = activePreset?.id === preset.id;
+            return (
+              <div
+                key={preset.id}
+                className={`flex items-center rounded-full text-sm font-medium transition-colors ${isSelected ? 'bg-indigo-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`}
+              >
+                <button
+                  onClick={() => onApplyPreset(preset)}
+                  className={`py-1 ${preset.builtIn ? 'px-3' : 'pl-3 pr-1'}`}
+                  disabled={disabled}
+                >
+                  {preset.name}
+                </button>
+                {!preset.builtIn && (
+                  <button onClick={() => saveCustomPresets(customPresets.filter((p) => p.id !== preset.id))} className="mr-1.5 text-gray-300 hover:text-white hover:bg-gray-400 rounded-full p-0.5 transition-colors" aria-label={`Delete look ${preset.name}`}>
+                    <XMarkIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {!activePreset && !isUnedited && (
+          <div className="flex gap-2 items-start">
+            <div className="flex-grow">
+              <input type="text" value={presetName} onChange={(e) => { setPresetName(e.target.value); setPresetError(null); }} placeholder="Look name" className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500" />
+              {presetError && <p className="text-red-400 text-xs mt-1">{presetError}</p>}
+            </div>
+            <button onClick={handleSavePreset} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-indigo-700 transition-colors text-sm">Save Look</button>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-400">Color Grade (LUT)</h4>
+        <div className="flex gap-2">
+          <select
+            value={lut && !missingLut ? lut.id : ''}
+            onChange={(e) => handleSelectLut(e.target.value)}
+            disabled={disabled || luts.length === 0}
+            className="flex-grow bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="">{luts.length === 0 ? 'No LUTs imported' : 'None'}</option>
+            {luts.map((table) => (
+              <option key={table.id} value={table.id}>{table.name} ({table.size}³)</option>
+            ))}
+          </select>
+          {lut && !missingLut && (
+            <button onClick={() => handleDeleteLut(lut.id)} disabled={disabled} className="p-2 rounded-md bg-gray-600 text-gray-300 hover:bg-red-600/80 hover:text-white transition-colors" aria-label={`Delete LUT ${lut.name}`} title="Delete this LUT">
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          )}
+          <input type="file" ref={lutInputRef} onChange={handleImportLut} accept=".cube" className="hidden" />
+          <button onClick={() => lutInputRef.current?.click()} disabled={disabled || importing} className="px-3 py-2 text-sm font-semibold rounded-md bg-gray-600 text-gray-200 hover:bg-gray-500 disabled:opacity-50 transition-colors whitespace-nowrap">
+            {importing ? 'Importing...' : 'Import .cube'}
+          </button>
+        </div>
+        {lut && !missingLut && (
+          <div>
+            <label htmlFor="lut-intensity" className="text-xs font-medium text-gray-400 flex justify-between">
+              <span>Intensity</span>
+              <span>{lut.intensity}%</span>
+            </label>
+            <input id="lut-intensity" type="range" min="0" max="100" value={lut.intensity} onChange={(e) => onLutChange({ ...lut, intensity: e.target.valueAsNumber })} disabled={disabled} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+          </div>
+        )}
+        {missingLut && <p className="text-yellow-400 text-xs">The LUT "{lut.name}" is no longer available, so it is not applied.</p>}
+        {lutError && <p className="text-red-400 text-xs">{lutError}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,249 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { HistoryEntry, HistoryEntryKind } from '../types';
+import { listHistoryEntries, deleteHistoryEntries, exportHistoryEntries } from '../services/historyService';
+import { parseImageAnalysis } from '../services/analysisValidation';
+import { downloadBlob } from '../utils/download';
+import { Spinner } from './Spinner';
+import { ClockIcon, MagnifyingGlassIcon, TrashIcon, ArrowDownTrayIcon, ArrowPathIcon, PhotoIcon, SparklesIcon, DocumentMagnifyingGlassIcon, PencilSquareIcon } from './Icons';
+
+type KindFilter = 'all' | HistoryEntryKind;
+
+interface HistoryGalleryProps {
+  onOpen: (entry: HistoryEntry, autoRun: boolean) => void;
+}
+
+const kindFilterLabels: Record<KindFilter, string> = {
+  all: 'All',
+  generation: 'Generated',
+  analysis: 'Analyzed',
+  edit: 'Edited',
+};
+
+const KindIcon: React.FC<{ kind: HistoryEntryKind }> = ({ kind }) => {
+  if (kind === 'generation') return <SparklesIcon className="w-3.5 h-3.5" />;
+  if (kind === 'edit') return <PencilSquareIcon className="w-3.5 h-3.5" />;
+  return <DocumentMagnifyingGlassIcon className="w-3.5 h-3.5" />;
+};
+
+// Structured analyses are stored as JSON; show their summary instead of raw JSON.
+const getAnalysisPreview = (entry: HistoryEntry): string | undefined => {
+  if (!entry.analysis || entry.analysisMode !== 'structured') return entry.analysis;
+  try {
+    return parseImageAnalysis(entry.analysis).summary;
+  } catch {
+    return entry.analysis;
+  }
+};
+
+export const HistoryGallery: React.FC<HistoryGalleryProps> = ({ onOpen }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState<string>('');
+  const [kindFilter, setKindFilter] = useState<KindFilter>('all');
+  const [aspectRatioFilter, setAspectRatioFilter] = useState<string>('all');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [thumbnails, setThumbnails] = useState<Map<string, string>>(new Map());
+
+  useEffect(() => {
+    listHistoryEntries()
+      .then(setEntries)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load history.'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    const urls = new Map<string, string>();
+    entries.forEach((entry) => {
+      if (entry.images[0]) urls.set(entry.id, URL.createObjectURL(entry.images[0]));
+    });
+    setThumbnails(urls);
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, [entries]);
+
+  const aspectRatios = useMemo(() => [...new Set(entries.map((entry) => entry.aspectRatio))], [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return entries.filter((entry) => {
+      if (kindFilter !== 'all' && entry.kind !== kindFilter) return false;
+      if (aspectRatioFilter !== 'all' && entry.aspectRatio !== aspectRatioFilter) return false;
+      if (!query) return true;
+      return [entry.prompt, entry.analysis, entry.fileName, entry.options?.negativePrompt]
+        .some((text) => text?.toLowerCase().includes(query));
+    });
+  }, [entries, search, kindFilter, aspectRatioFilter]);
+
+  const entryIds = useMemo(() => new Set(entries.map((entry) => entry.id)), [entries]);
+
+  // Clears the filters so the entry is rendered, then scrolls to it.
+  const showEntry = (id: string) => {
+    setSearch('');
+    setKindFilter('all');
+    setAspectRatioFilter('all');
+    requestAnimationFrame(() => document.getElementById(`history-${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allFilteredSelected = filteredEntries.length > 0 && filteredEntries.every((entry) => selectedIds.has(entry.id));
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allFilteredSelected ? new Set() : new Set(filteredEntries.map((entry) => entry.id)));
+  };
+
+  const handleDelete = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    if (!window.confirm(ids.length === 1 ? 'Delete this entry?' : `Delete ${ids.length} entries?`)) return;
+    try {
+      await deleteHistoryEntries(ids);
+      setEntries((prev) => prev.filter((entry) => !ids.includes(entry.id)));
+      setSelectedIds((prev) => new Set([...prev].filter((id) => !ids.includes(id))));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete history entries.');
+    }
+  };
+
+  const handleExport = async () => {
+    const selected = entries.filter((entry) => selectedIds.has(entry.id));
+    if (selected.length === 0) return;
+    try {
+      const zip = await exportHistoryEntries(selected);
+      downloadBlob(zip, `gemini-history-${Date.now()}.zip`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export history.');
+    }
+  };
+
+  const filterButtonClass = (isActive: boolean) => `px-3 py-1.5 text-sm font-semibold rounded-md transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500 ${isActive ? 'bg-indigo-600 text-white shadow' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`;
+
+  if (loading) {
+    return <div className="flex items-center justify-center p-8"><Spinner className="w-8 h-8 text-gray-400" /></div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-grow">
+          <MagnifyingGlassIcon className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search prompts and analyses"
+            className="w-full bg-gray-700 border border-gray-600 rounded-md pl-10 pr-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </div>
+        <select
+          value={aspectRatioFilter}
+          onChange={(e) => setAspectRatioFilter(e.target.value)}
+          className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value="all">All aspect ratios</option>
+          {aspectRatios.map((ratio) => <option key={ratio} value={ratio}>{ratio}</option>)}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-2">
+          {(Object.keys(kindFilterLabels) as KindFilter[]).map((kind) => (
+            <button key={kind} onClick={() => setKindFilter(kind)} className={filterButtonClass(kindFilter === kind)}>
+              {kindFilterLabels[kind]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-sm text-gray-300 mr-2">
+            <input type="checkbox" checked={allFilteredSelected} onChange={toggleSelectAll} className="accent-indigo-500" disabled={filteredEntries.length === 0} />
+            Select all
+          </label>
+          <button onClick={handleExport} disabled={selectedIds.size === 0} className="flex items-center gap-1 px-3 py-1.5 text-sm font-semibold rounded-md bg-gray-600 text-gray-200 hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+            <ArrowDownTrayIcon className="w-4 h-4" />
+            Export ({selectedIds.size})
+          </button>
+          <button onClick={() => handleDelete([...selectedIds])} disabled={selectedIds.size === 0} className="flex items-center gap-1 px-3 py-1.5 text-sm font-semibold rounded-md bg-red-600/50 text-red-200 hover:bg-red-600/80 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+            <TrashIcon className="w-4 h-4" />
+            Delete
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-red-400 bg-red-900/50 p-3 rounded-lg text-center">{error}</div>}
+
+      {filteredEntries.length === 0 ? (
+        <div className="w-full bg-gray-700/50 rounded-lg flex items-center justify-center border-2 border-dashed border-gray-600 p-12">
+          <div className="text-center text-gray-500">
+            <ClockIcon className="w-16 h-16 mx-auto mb-2"/>
+            <p>{entries.length === 0 ? 'Your generations, edits and analyses will be saved here.' : 'No entries match your filters.'}</p>
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {filteredEntries.map((entry) => (
+            <div key={entry.id} id={`history-${entry.id}`} className={`bg-gray-700/50 rounded-lg border-2 overflow-hidden flex flex-col transition-colors ${selectedIds.has(entry.id) ? 'border-indigo-500' : 'border-gray-600'}`}>
+              <div className="relative aspect-video bg-gray-800 flex items-center justify-center">
+                {thumbnails.has(entry.id) ? (
+                  <img src={thumbnails.get(entry.id)} alt={entry.prompt} className="w-full h-full object-contain" />
+                ) : (
+                  <PhotoIcon className="w-12 h-12 text-gray-600" />
+                )}
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(entry.id)}
+                  onChange={() => toggleSelected(entry.id)}
+                  className="absolute top-2 left-2 w-4 h-4 accent-indigo-500"
+                  aria-label="Select entry"
+                />
+                <span className="absolute top-2 right-2 flex items-center gap-1 text-xs font-semibold bg-gray-900/70 text-gray-200 px-2 py-1 rounded-full">
+                  <KindIcon kind={entry.kind} />
+                  {entry.images.length > 1 ? `${entry.images.length} images` : entry.aspectRatio}
+                </span>
+              </div>
+              <div className="p-3 space-y-2 flex-grow flex flex-col">
+                <p className="text-xs text-gray-400">{new Date(entry.createdAt).toLocaleString()}</p>
+                <p className="text-sm text-gray-200 line-clamp-2">{entry.kind === 'analysis' ? (entry.fileName ?? 'Uploaded image') : entry.prompt}</p>
+                {entry.analysis && <p className="text-xs text-gray-400 line-clamp-3">{getAnalysisPreview(entry)}</p>}
+                {entry.kind === 'analysis' && entryIds.has(entry.parentId ?? '') && (
+                  <button onClick={() => showEntry(entry.parentId!)} className="self-start text-xs text-indigo-400 hover:text-indigo-300 hover:underline">
+                    Show source image
+                  </button>
+                )}
+                {entry.kind === 'edit' && (
+                  entryIds.has(entry.parentId ?? '') ? (
+                    <button onClick={() => showEntry(entry.parentId!)} className="self-start text-xs text-indigo-400 hover:text-indigo-300 hover:underline">
+                      Show original
+                    </button>
+                  ) : (
+                    <p className="text-xs text-gray-500">{entry.fileName ? `Edit of ${entry.fileName}` : 'Original no longer in history'}</p>
+                  )
+                )}
+                <div className="flex gap-2 pt-2 mt-auto">
+                  <button onClick={() => onOpen(entry, false)} className="flex-1 px-3 py-1.5 text-sm font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-700 transition-colors">
+                    Open
+                  </button>
+                  <button onClick={() => onOpen(entry, true)} className="flex items-center gap-1 px-3 py-1.5 text-sm font-semibold rounded-md bg-gray-600 text-gray-200 hover:bg-gray-500 transition-colors">
+                    <ArrowPathIcon className="w-4 h-4" />
+                    Re-run
+                  </button>
+                  <button onClick={() => handleDelete([entry.id])} className="p-1.5 rounded-md bg-gray-600 text-gray-300 hover:bg-red-600/80 hover:text-white transition-colors" aria-label="Delete entry">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
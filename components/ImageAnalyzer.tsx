@@ -1,10 +1,40 @@
-import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { analyzeImage } from '../services/geminiService';
+import React, { useState, useRef, useEffect, useLayoutEffect, useMemo, useReducer } from 'react';
+import { analyzeImageStream, analyzeImageStructured, describeAsPrompt, detectObjects } from '../services/geminiService';
+import { parseImageAnalysis, serializeImageAnalysis } from '../services/analysisValidation';
+import { addResponseHistoryEntry, CachedResponseRef, trackCachedResponse } from '../services/historyService';
+import { base64ToBlob, dataUrlToBlob } from '../utils/download';
+import { isAbortError } from '../utils/abort';
+import { applyExifOrientation, dataUrlToImageData, gcd, getEffectFrame, getOutputMimeType, loadImage, processImage, ProcessingSettings, rasterizeImage, readScaledPixels, renderProcessedImage } from '../utils/imageProcessing';
+import { Histogram, PixelSettings } from '../utils/pixelAdjustments';
+import { adjustPixels } from '../services/pixelWorker';
+import { listLuts } from '../services/lutService';
+import { fetchImageFromUrl, getClipboardImageFile, getDroppedImageUrl, validateImageFile } from '../utils/imageImport';
+import { ImageMetadata, readImageMetadata } from '../utils/imageMetadata';
+import { ExportSource } from '../utils/export';
+import { useStudio } from '../context/StudioContext';
 import { Spinner } from './Spinner';
-import { PhotoIcon, DocumentMagnifyingGlassIcon, XMarkIcon, CropIcon, ArrowsRightLeftIcon, AutoAwesomeIcon, InformationCircleIcon, AdjustmentsHorizontalIcon, ArrowPathIcon, SwitchHorizontalIcon, ArrowDownTrayIcon } from './Icons';
-import { analyzerAspectRatios, AnalyzerAspectRatio } from '../types';
+import { AnalysisPromptPanel } from './AnalysisPromptPanel';
+import { StructuredAnalysisView } from './StructuredAnalysisView';
+import { BoundingBoxOverlay } from './BoundingBoxOverlay';
+import { DetectedObjectsPanel } from './DetectedObjectsPanel';
+import { ImageChat } from './ImageChat';
+import { BatchAnalyzer } from './BatchAnalyzer';
+import { CropFrame } from './CropFrame';
+import { EditHistoryPanel } from './EditHistoryPanel';
+import { ColorAdjustmentsPanel } from './ColorAdjustmentsPanel';
+import { FilterPresetsPanel } from './FilterPresetsPanel';
+import { ExportDialog } from './ExportDialog';
+import { ErrorNotice } from './ErrorNotice';
+import { CachedBadge } from './CachedBadge';
+import { ImageDetailsPanel } from './ImageDetailsPanel';
+import { applyEditOperations, editStackReducer, emptyEditStack } from '../utils/editStack';
+import { fitCropRect, getRotatedSize } from '../utils/crop';
+import { PhotoIcon, SparklesIcon, DocumentMagnifyingGlassIcon, XMarkIcon, CropIcon, ArrowsRightLeftIcon, AutoAwesomeIcon, AdjustmentsHorizontalIcon, ArrowPathIcon, SwitchHorizontalIcon, ArrowDownTrayIcon, CodeBracketIcon, ViewfinderCircleIcon, StopIcon, PencilSquareIcon, LinkIcon } from './Icons';
+import { analyzerAspectRatios, AnalyzerAspectRatio, CropRect, EditOperation, ImageFilters, ResizeMode, HistoryEntry, defaultAnalysisPrompt, AnalysisMode, ImageAnalysis, DetectedObject, ChatMessage, ImageData, ColorLut, initialToneSettings } from '../types';
+
+// Longest side of the downscaled copy the live preview is adjusted from.
+const PREVIEW_MAX_DIMENSION = 1280;
 
-type ResizeMode = 'crop' | 'stretch';
 type ImageProperties = {
     width: number;
     height: number;
@@ -13,49 +43,68 @@ type ImageProperties = {
     simplifiedRatio: string;
 } | null;
 
-interface ImageFilters {
-  brightness: number;
-  contrast: number;
-  saturate: number;
-  grayscale: number;
-  sepia: number;
-  invert: number;
-  hueRotate: number;
+// Identifies an upload so each image keeps its own chat transcript.
+const getImageKey = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+interface ImageAnalyzerProps {
+  /** A history entry to restore; with `autoRun` its image is analyzed again. */
+  initialEntry?: HistoryEntry;
+  autoRun?: boolean;
 }
 
-const initialFilterState: ImageFilters = {
-  brightness: 100,
-  contrast: 100,
-  saturate: 100,
-  grayscale: 0,
-  sepia: 0,
-  invert: 0,
-  hueRotate: 0,
-};
-
-// Helper function to find the greatest common divisor
-const gcd = (a: number, b: number): number => {
-  return b === 0 ? a : gcd(b, a % b);
-};
-
-export const ImageAnalyzer: React.FC = () => {
+export const ImageAnalyzer: React.FC<ImageAnalyzerProps> = ({ initialEntry, autoRun }) => {
+  const { state: { tab, handoffs }, sendPrompt, sendToEditor, consumeHandoff } = useStudio();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [analysis, setAnalysis] = useState<string>('');
+  const [instruction, setInstruction] = useState<string>(initialEntry?.prompt ?? defaultAnalysisPrompt);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>(initialEntry?.analysisMode ?? 'text');
+  const [structuredAnalysis, setStructuredAnalysis] = useState<ImageAnalysis | null>(null);
+  const [detectedObjects, setDetectedObjects] = useState<DetectedObject[] | null>(null);
+  const [hiddenObjects, setHiddenObjects] = useState<Set<number>>(new Set());
+  const [hoveredObject, setHoveredObject] = useState<number | null>(null);
+  const [detecting, setDetecting] = useState<boolean>(false);
+  // When the shown analysis and detection were stored, if they came from the response cache.
+  const [analysisCachedAt, setAnalysisCachedAt] = useState<number | null>(null);
+  const [detectionCachedAt, setDetectionCachedAt] = useState<number | null>(null);
+  const [analyzedInstruction, setAnalyzedInstruction] = useState<string>('');
+  const [transcripts, setTranscripts] = useState<Record<string, ChatMessage[]>>({});
+  const chatImageRef = useRef<ImageData | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | Error | null>(null);
+  // What the Try Again button of a failed service call repeats.
+  const [failedAction, setFailedAction] = useState<'analyze' | 'detect' | 'describe' | null>(null);
+  const [exportSource, setExportSource] = useState<ExportSource | null>(null);
+  const [writingPrompt, setWritingPrompt] = useState<boolean>(false);
+  const [sendingToEditor, setSendingToEditor] = useState<boolean>(false);
+  // History entries the current image came from and its latest analysis was saved as.
+  const sourceEntryIdRef = useRef<string | undefined>(undefined);
+  const [analysisEntryId, setAnalysisEntryId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [selectedAspectRatio, setSelectedAspectRatio] = useState<AnalyzerAspectRatio>('Auto');
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [imageUrl, setImageUrl] = useState<string>('');
+  const [importingUrl, setImportingUrl] = useState<boolean>(false);
+  const urlControllerRef = useRef<AbortController | null>(null);
   const [autoAspectRatio, setAutoAspectRatio] = useState<string | null>(null);
-  const [resizeMode, setResizeMode] = useState<ResizeMode>('crop');
   const [imageProperties, setImageProperties] = useState<ImageProperties>(null);
-  const [filters, setFilters] = useState<ImageFilters>(initialFilterState);
-  const [rotation, setRotation] = useState<number>(0);
-  const [isMirrored, setIsMirrored] = useState<boolean>(false);
+  const [metadata, setMetadata] = useState<ImageMetadata | null>(null);
+  // The file whose metadata may still be arriving, so a late read can't overwrite a newer image's.
+  const loadedFileRef = useRef<File | null>(null);
+  // The preview is adjusted by the same pixel pipeline as the output, not by CSS filters.
+  const [previewPixels, setPreviewPixels] = useState<globalThis.ImageData | null>(null);
+  const [adjustedPreview, setAdjustedPreview] = useState<globalThis.ImageData | null>(null);
+  const [histogram, setHistogram] = useState<Histogram | null>(null);
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [luts, setLuts] = useState<ColorLut[]>([]);
+  const [editStack, dispatchEdit] = useReducer(editStackReducer, emptyEditStack);
+  const edits = useMemo(() => applyEditOperations(editStack.operations.slice(0, editStack.cursor)), [editStack]);
+  const { filters, adjustments, tone, lut, rotation, isMirrored, resizeMode, aspectRatio: selectedAspectRatio, cropLocked: isCropLocked } = edits;
   
   const [customRatios, setCustomRatios] = useState<string[]>([]);
   const [newRatio, setNewRatio] = useState<string>('');
   const [ratioInputError, setRatioInputError] = useState<string | null>(null);
+  const pendingAutoAnalyze = useRef<boolean>(false);
 
   useEffect(() => {
     try {
@@ -99,61 +148,250 @@ export const ImageAnalyzer: React.FC = () => {
     const updatedRatios = customRatios.filter(r => r !== ratioToRemove);
     saveCustomRatios(updatedRatios);
     if (selectedAspectRatio === ratioToRemove) {
-      setSelectedAspectRatio('Auto');
+      pushEdit({ type: 'aspectRatio', ratio: 'Auto' });
+    }
+  };
+
+  const loadFile = (file: File, sourceEntryId?: string, fileMetadata?: ImageMetadata | null) => {
+    if (previewUrl) {
+      URL.revokeObjectURL(previewUrl);
+    }
+    const newPreviewUrl = URL.createObjectURL(file);
+    setSelectedFile(file);
+    setPreviewUrl(newPreviewUrl);
+    setAnalysis('');
+    setStructuredAnalysis(null);
+    setAnalysisCachedAt(null);
+    setDetectedObjects(null);
+    setDetectionCachedAt(null);
+    setHiddenObjects(new Set());
+    setHoveredObject(null);
+    chatImageRef.current = null;
+    setError(null);
+    setImageProperties(null);
+    loadedFileRef.current = file;
+    setMetadata(fileMetadata ?? null);
+    if (fileMetadata === undefined) {
+      readImageMetadata(file)
+        .then((read) => {
+          if (loadedFileRef.current === file) setMetadata(read);
+        })
+        .catch((e) => console.error("Failed to read image metadata", e));
+    }
+    setPreviewPixels(null);
+    setAdjustedPreview(null);
+    setHistogram(null);
+    sourceEntryIdRef.current = sourceEntryId;
+    setAnalysisEntryId(null);
+    dispatchEdit({ type: 'reset' });
+
+    const image = new Image();
+    image.onload = () => {
+      setPreviewPixels(readScaledPixels(image, PREVIEW_MAX_DIMENSION));
+      const commonDivisor = gcd(image.naturalWidth, image.naturalHeight);
+      setAutoAspectRatio(`${image.naturalWidth}:${image.naturalHeight}`);
+      setImageProperties({
+          width: image.naturalWidth,
+          height: image.naturalHeight,
+          type: file.type,
+          size: file.size,
+          simplifiedRatio: `${image.naturalWidth / commonDivisor}:${image.naturalHeight / commonDivisor}`
+      });
+    };
+    image.onerror = () => {
+      setAutoAspectRatio(null);
+      dispatchEdit({ type: 'reset', operations: [{ type: 'aspectRatio', ratio: '16:9' }] });
+      setImageProperties(null);
+      setError("The image could not be decoded. The file may be damaged or in a format this browser can't display.");
+    };
+    image.src = newPreviewUrl;
+  };
+
+  // Picked, dropped, pasted and downloaded images all go through here.
+  // Phone photos are stored sideways with an orientation tag; turn them upright
+  // here so the preview, the edits and the image sent for analysis agree.
+  const importFile = async (file: File) => {
+    try {
+      const validFile = validateImageFile(file);
+      const fileMetadata = await readImageMetadata(validFile).catch((e) => {
+        console.error("Failed to read image metadata", e);
+        return null;
+      });
+      loadFile(await applyExifOrientation(validFile, fileMetadata?.orientation ?? 1), undefined, fileMetadata);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The image could not be opened.');
     }
   };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      if (previewUrl) {
-        URL.revokeObjectURL(previewUrl);
+      importFile(file);
+    }
+    // Let the same file be picked again after an error.
+    event.target.value = '';
+  };
+
+  const handleImportUrl = async (url: string) => {
+    if (!url.trim()) return;
+    urlControllerRef.current?.abort();
+    const controller = new AbortController();
+    urlControllerRef.current = controller;
+    setImportingUrl(true);
+    setError(null);
+    try {
+      await importFile(await fetchImageFromUrl(url, controller.signal));
+      setImageUrl('');
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(err instanceof Error ? err.message : 'The image could not be downloaded.');
+    } finally {
+      if (urlControllerRef.current === controller) {
+        urlControllerRef.current = null;
+        setImportingUrl(false);
       }
-      const newPreviewUrl = URL.createObjectURL(file);
-      setSelectedFile(file);
-      setPreviewUrl(newPreviewUrl);
-      setAnalysis('');
-      setError(null);
-      setImageProperties(null);
-      setFilters(initialFilterState);
-      setRotation(0);
-      setIsMirrored(false);
-
-      const image = new Image();
-      image.onload = () => {
-        const commonDivisor = gcd(image.naturalWidth, image.naturalHeight);
-        setAutoAspectRatio(`${image.naturalWidth}:${image.naturalHeight}`);
-        setSelectedAspectRatio('Auto');
-        setImageProperties({
-            width: image.naturalWidth,
-            height: image.naturalHeight,
-            type: file.type,
-            size: file.size,
-            simplifiedRatio: `${image.naturalWidth / commonDivisor}:${image.naturalHeight / commonDivisor}`
-        });
-      };
-      image.onerror = () => {
-        setAutoAspectRatio(null);
-        setSelectedAspectRatio('16:9');
-        setImageProperties(null);
-      };
-      image.src = newPreviewUrl;
     }
   };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (loading) return;
+    const file = event.dataTransfer.files[0];
+    if (file) {
+      importFile(file);
+      return;
+    }
+    // Images dragged out of another browser tab arrive as a link.
+    const url = getDroppedImageUrl(event.dataTransfer);
+    if (url) {
+      handleImportUrl(url);
+    } else {
+      setError('Nothing to open was dropped. Drop an image file or an image from another page.');
+    }
+  };
+
+  // Ctrl+V of a screenshot, while the analyzer is the visible tab.
+  useEffect(() => {
+    if (tab !== 'analyze' || loading) return;
+    const handlePaste = (event: ClipboardEvent) => {
+      const file = getClipboardImageFile(event.clipboardData);
+      if (!file) return;
+      event.preventDefault();
+      importFile(file);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [tab, loading, previewUrl]);
+
+  useEffect(() => {
+    if (!initialEntry?.images[0]) return;
+    const blob = initialEntry.images[0];
+    loadFile(new File([blob], initialEntry.fileName ?? 'history-image', { type: blob.type }), initialEntry.parentId);
+    if (autoRun) {
+      pendingAutoAnalyze.current = true;
+    } else if (initialEntry.analysis) {
+      setAnalysisEntryId(initialEntry.id);
+      setAnalyzedInstruction(initialEntry.prompt);
+      if (initialEntry.analysisMode === 'structured') {
+        try {
+          setStructuredAnalysis(parseImageAnalysis(initialEntry.analysis));
+        } catch (e) {
+          setError(e instanceof Error ? e.message : 'Failed to restore the saved analysis.');
+        }
+      } else {
+        setAnalysis(initialEntry.analysis);
+      }
+    }
+  }, [initialEntry]);
+
+  // Images sent from another tab, e.g. "Analyze this" on a generated picture.
+  useEffect(() => {
+    handoffs.forEach((handoff) => {
+      if (handoff.kind !== 'analyze') return;
+      consumeHandoff(handoff.id);
+      abortControllerRef.current?.abort();
+      const { blob, fileName, historyEntryId } = handoff.asset;
+      loadFile(new File([blob], fileName, { type: blob.type }), historyEntryId);
+    });
+  }, [handoffs]);
+
+  // Abandon an in-flight analysis or download when the analyzer unmounts.
+  useEffect(() => () => {
+    abortControllerRef.current?.abort();
+    urlControllerRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    // Re-running a history entry has to wait until the image is decoded
+    // and its auto aspect ratio is known.
+    if (imageProperties && pendingAutoAnalyze.current) {
+      pendingAutoAnalyze.current = false;
+      handleAnalyze();
+    }
+  }, [imageProperties]);
   
   const allAspectRatios = ['Auto', ...analyzerAspectRatios, ...customRatios];
 
-  const generateFilterString = (f: ImageFilters): string => {
-    return [
-        `brightness(${f.brightness}%)`,
-        `contrast(${f.contrast}%)`,
-        `saturate(${f.saturate}%)`,
-        `grayscale(${f.grayscale}%)`,
-        `sepia(${f.sepia}%)`,
-        `invert(${f.invert}%)`,
-        `hue-rotate(${f.hueRotate}deg)`,
-    ].join(' ');
-  };
+  const effectiveAspectRatio = selectedAspectRatio === 'Auto' ? autoAspectRatio : selectedAspectRatio;
+  const targetRatio = useMemo(() => {
+    if (!effectiveAspectRatio) return null;
+    const [ratioW, ratioH] = effectiveAspectRatio.split(':').map(Number);
+    return ratioW / ratioH;
+  }, [effectiveAspectRatio]);
+
+  // The crop frame lives in the bounding box of the rotated image.
+  const rotatedBox = useMemo(
+    () => imageProperties ? getRotatedSize(imageProperties.width, imageProperties.height, rotation) : null,
+    [imageProperties, rotation],
+  );
+
+  // The stored crop is what the user chose; refit it, around its center, once it
+  // no longer matches the locked ratio (e.g. after a rotation or ratio change).
+  const crop = useMemo((): CropRect | null => {
+    if (!rotatedBox) return null;
+    const chosen = edits.crop;
+    if (!isCropLocked) {
+      return chosen ?? fitCropRect(null, rotatedBox.width, rotatedBox.height);
+    }
+    if (chosen && targetRatio) {
+      const chosenRatio = (chosen.width * rotatedBox.width) / (chosen.height * rotatedBox.height);
+      if (Math.abs(chosenRatio - targetRatio) / targetRatio < 0.01) {
+        return chosen;
+      }
+    }
+    return fitCropRect(
+      targetRatio,
+      rotatedBox.width,
+      rotatedBox.height,
+      chosen ? { x: chosen.x + chosen.width / 2, y: chosen.y + chosen.height / 2 } : undefined,
+    );
+  }, [edits.crop, rotatedBox, targetRatio, isCropLocked]);
+
+  const showCropFrame = Boolean(previewUrl && resizeMode === 'crop' && imageProperties && rotatedBox && crop);
+
+  const pushEdit = (operation: EditOperation) => dispatchEdit({ type: 'push', operation, at: Date.now() });
+
+  const handleResetCrop = () => pushEdit({ type: 'crop', rect: null });
+
+  const handleSelectAspectRatio = (ratio: AnalyzerAspectRatio) => pushEdit({ type: 'aspectRatio', ratio });
+
+  // The shortcuts only apply while the analyzer is the visible tab.
+  useEffect(() => {
+    if (!selectedFile || tab !== 'analyze') return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      // Leave text fields their own undo.
+      const target = event.target as HTMLElement | null;
+      if (target?.isContentEditable || target instanceof HTMLTextAreaElement || (target instanceof HTMLInputElement && target.type !== 'range')) return;
+      event.preventDefault();
+      dispatchEdit({ type: key === 'y' || event.shiftKey ? 'redo' : 'undo' });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedFile, tab]);
 
   const imageTransform = useMemo(() => {
     return [
@@ -162,140 +400,246 @@ export const ImageAnalyzer: React.FC = () => {
     ].filter(Boolean).join(' ');
   }, [rotation, isMirrored]);
 
+  useEffect(() => {
+    listLuts().then(setLuts).catch((err) => console.error("Failed to load LUTs", err));
+  }, []);
+
+  // Edits refer to LUTs by id; one deleted since is simply not applied.
+  const lutTable = useMemo(() => (lut ? luts.find((table) => table.id === lut.id) : undefined), [lut, luts]);
+  const pixelSettings = useMemo<PixelSettings>(() => ({
+    filters,
+    adjustments,
+    tone,
+    lut: lut && lutTable ? { table: lutTable, intensity: lut.intensity } : null,
+  }), [filters, adjustments, tone, lut, lutTable]);
+
+  // The preview shows the whole image, so the vignette and sharpen are laid
+  // out for the part of it that is exported. Only they depend on the crop.
+  const previewFrame = useMemo(() => {
+    if (!previewPixels || !imageProperties || !effectiveAspectRatio) return undefined;
+    if (adjustments.vignette === 0 && adjustments.sharpen === 0) return undefined;
+    return getEffectFrame(
+      { aspectRatio: effectiveAspectRatio, resizeMode, crop, rotation, isMirrored },
+      imageProperties.width,
+      imageProperties.height,
+      previewPixels.width,
+      previewPixels.height,
+    );
+  }, [previewPixels, imageProperties, effectiveAspectRatio, adjustments.vignette, adjustments.sharpen, resizeMode, crop, rotation, isMirrored]);
+
+  // Re-render the preview whenever the adjustments change. Aborting the
+  // previous request drops it if the worker has not started on it yet.
+  useEffect(() => {
+    if (!previewPixels) return;
+    const controller = new AbortController();
+    adjustPixels(previewPixels, { ...pixelSettings, frame: previewFrame }, controller.signal)
+      .then((result) => {
+        setAdjustedPreview(result.pixels);
+        setHistogram(result.histogram);
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) console.error("Failed to adjust the preview", err);
+      });
+    return () => controller.abort();
+  }, [previewPixels, pixelSettings, previewFrame]);
+
+  useLayoutEffect(() => {
+    if (adjustedPreview) {
+      previewCanvasRef.current?.getContext('2d')?.putImageData(adjustedPreview, 0, 0);
+    }
+  }, [adjustedPreview]);
 
   const handleFilterChange = (filterName: keyof ImageFilters, value: number) => {
-    setFilters(prev => ({ ...prev, [filterName]: value }));
+    pushEdit({ type: 'filter', filter: filterName, value });
   };
 
-  const getProcessedImageAsDataUrl = (): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        if (!selectedFile || !previewUrl) {
-          return reject(new Error('Please select an image file first.'));
-        }
-    
-        let effectiveAspectRatio = selectedAspectRatio === 'Auto' ? autoAspectRatio : selectedAspectRatio;
-    
-        if (!effectiveAspectRatio) {
-          return reject(new Error('Could not determine aspect ratio. Please select one manually.'));
-        }
+  const getProcessingSettings = (): ProcessingSettings => {
+    if (!selectedFile || !previewUrl) {
+      throw new Error('Please select an image file first.');
+    }
 
-        const image = new Image();
-        image.src = previewUrl;
-        
-        image.onload = () => {
-            try {
-                // Create a temporary canvas to draw the rotated and filtered image
-                const tempCanvas = document.createElement('canvas');
-                const tempCtx = tempCanvas.getContext('2d');
-                if (!tempCtx) return reject(new Error('Could not get temp canvas context'));
-                
-                const angleRad = (rotation * Math.PI) / 180;
-                const cos = Math.abs(Math.cos(angleRad));
-                const sin = Math.abs(Math.sin(angleRad));
-                
-                const rotatedWidth = image.naturalWidth * cos + image.naturalHeight * sin;
-                const rotatedHeight = image.naturalWidth * sin + image.naturalHeight * cos;
-                
-                tempCanvas.width = rotatedWidth;
-                tempCanvas.height = rotatedHeight;
-                
-                tempCtx.filter = generateFilterString(filters);
-                
-                tempCtx.translate(rotatedWidth / 2, rotatedHeight / 2);
-                tempCtx.rotate(angleRad);
-                if (isMirrored) {
-                  tempCtx.scale(-1, 1);
-                }
-                tempCtx.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
-                
-                const finalCanvas = document.createElement('canvas');
-                const finalCtx = finalCanvas.getContext('2d');
-                if (!finalCtx) return reject(new Error('Could not get final canvas context'));
-                
-                const [ratioW, ratioH] = effectiveAspectRatio.split(':').map(Number);
-                const targetAspectRatio = ratioW / ratioH;
-                
-                const outputWidth = 1024;
-                const outputHeight = outputWidth / targetAspectRatio;
-                finalCanvas.width = outputWidth;
-                finalCanvas.height = outputHeight;
-
-                if (resizeMode === 'stretch') {
-                    finalCtx.drawImage(tempCanvas, 0, 0, outputWidth, outputHeight);
-                } else { // crop
-                    const sourceImage = tempCanvas;
-                    const imageAspectRatio = sourceImage.width / sourceImage.height;
-                    
-                    let sx = 0, sy = 0, sWidth = sourceImage.width, sHeight = sourceImage.height;
-                    
-                    if (imageAspectRatio > targetAspectRatio) {
-                        sWidth = sourceImage.height * targetAspectRatio;
-                        sx = (sourceImage.width - sWidth) / 2;
-                    } else if (imageAspectRatio < targetAspectRatio) {
-                        sHeight = sourceImage.width / targetAspectRatio;
-                        sy = (sourceImage.height - sHeight) / 2;
-                    }
-                    finalCtx.drawImage(sourceImage, sx, sy, sWidth, sHeight, 0, 0, outputWidth, outputHeight);
-                }
-                
-                const mimeType = (selectedFile.type === 'image/jpeg' || selectedFile.type === 'image/png') ? selectedFile.type : 'image/png';
-                resolve(finalCanvas.toDataURL(mimeType));
-            } catch (e) {
-                reject(e);
-            }
-        };
-        
-        image.onerror = () => reject(new Error('Failed to load image file for processing.'));
-    });
-  }
+    if (!effectiveAspectRatio) {
+      throw new Error('Could not determine aspect ratio. Please select one manually.');
+    }
+
+    return { aspectRatio: effectiveAspectRatio, resizeMode, crop, filters, adjustments, tone, lut: pixelSettings.lut, rotation, isMirrored };
+  };
+
+  const getProcessedImageAsDataUrl = async (signal?: AbortSignal): Promise<string> => {
+    const settings = getProcessingSettings();
+    const image = await loadImage(previewUrl);
+    return processImage(image, settings, getOutputMimeType(selectedFile.type), signal);
+  };
+
+  const getProcessedImageData = async (signal?: AbortSignal): Promise<ImageData> => {
+    return dataUrlToImageData(await getProcessedImageAsDataUrl(signal));
+  };
+
+  // The chat is about the image that was analyzed; without an analysis the
+  // current edit is captured on the first question and reused afterwards.
+  const getChatImageData = async (): Promise<ImageData> => {
+    if (!chatImageRef.current) {
+      chatImageRef.current = await getProcessedImageData();
+    }
+    return chatImageRef.current;
+  };
 
-  const handleAnalyze = async () => {
+  const handleUseAsPrompt = async () => {
+    if (!analysisText) return;
+    setWritingPrompt(true);
+    setError(null);
+    try {
+      sendPrompt(await describeAsPrompt(await getChatImageData(), analysisText));
+    } catch (err) {
+      setError(err instanceof Error ? err : 'An unknown error occurred.');
+      setFailedAction('describe');
+    } finally {
+      setWritingPrompt(false);
+    }
+  };
+
+  const handleAnalyze = async (bypassCache: boolean = false) => {
     if (!selectedFile) return;
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setLoading(true);
     setError(null);
     setAnalysis('');
+    setStructuredAnalysis(null);
+    setAnalysisCachedAt(null);
+    const response: CachedResponseRef = {};
+    const cache = { bypass: bypassCache, ...trackCachedResponse(response, setAnalysisCachedAt) };
 
     try {
-        const dataUrl = await getProcessedImageAsDataUrl();
-        const base64Data = dataUrl.split(',')[1];
-        const result = await analyzeImage({ mimeType: selectedFile.type, data: base64Data });
-        setAnalysis(result);
+        const imageData = await getProcessedImageData(controller.signal);
+        let result: string;
+        if (analysisMode === 'structured') {
+            const structured = await analyzeImageStructured(imageData, instruction, controller.signal, cache);
+            setStructuredAnalysis(structured);
+            result = serializeImageAnalysis(structured);
+        } else {
+            result = await analyzeImageStream(imageData, instruction, setAnalysis, controller.signal, cache);
+        }
+        chatImageRef.current = imageData;
+        setAnalyzedInstruction(instruction.trim() || defaultAnalysisPrompt);
+        // A cached analysis keeps the entry of the run that produced it, as generations do.
+        addResponseHistoryEntry({
+            kind: 'analysis',
+            prompt: instruction.trim() || defaultAnalysisPrompt,
+            aspectRatio: selectedAspectRatio === 'Auto' ? (autoAspectRatio ?? 'Auto') : selectedAspectRatio,
+            images: [base64ToBlob(imageData.data, imageData.mimeType)],
+            analysis: result,
+            analysisMode,
+            edits: editStack.operations.slice(0, editStack.cursor),
+            fileName: selectedFile.name,
+            parentId: sourceEntryIdRef.current,
+        }, response)
+            .then((entry) => setAnalysisEntryId(entry.id))
+            .catch((e) => console.error("Failed to save analysis to history", e));
     } catch (err) {
-        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        if (!isAbortError(err)) {
+            setError(err instanceof Error ? err : 'An unknown error occurred.');
+            setFailedAction('analyze');
+        }
+    } finally {
+        if (abortControllerRef.current === controller) {
+            abortControllerRef.current = null;
+            setLoading(false);
+        }
+    }
+  };
+
+  const handleCancelAnalysis = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setLoading(false);
+  };
+
+  const handleDetectObjects = async (bypassCache: boolean = false) => {
+    if (!selectedFile) return;
+
+    setDetecting(true);
+    setError(null);
+    setDetectedObjects(null);
+    setDetectionCachedAt(null);
+    setHiddenObjects(new Set());
+    setHoveredObject(null);
+
+    try {
+        // Detect on the upload without the edits: the overlay sits on the
+        // untransformed preview and follows its CSS transform, so coordinates
+        // must match it. The file may still carry an EXIF orientation that the
+        // preview honors, so the model gets the pixels drawn upright as shown.
+        const { width, height, ...imageData } = await rasterizeImage(previewUrl, getOutputMimeType(selectedFile.type));
+        setDetectedObjects(await detectObjects(imageData, { bypass: bypassCache, onHit: setDetectionCachedAt }));
+    } catch (err) {
+        setError(err instanceof Error ? err : 'An unknown error occurred.');
+        setFailedAction('detect');
     } finally {
-        setLoading(false);
+        setDetecting(false);
     }
   };
 
+  const toggleObjectVisibility = (index: number) => {
+    setHiddenObjects(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const imageKey = selectedFile ? getImageKey(selectedFile) : null;
+  const chatMessages = imageKey ? transcripts[imageKey] ?? [] : [];
+  const analysisText = structuredAnalysis ? serializeImageAnalysis(structuredAnalysis) : analysis;
+  const chatContextTurns: ChatMessage[] = analysisText && analyzedInstruction
+    ? [{ role: 'user', text: analyzedInstruction }, { role: 'model', text: analysisText }]
+    : [];
+
+  const handleChatMessagesChange = (messages: ChatMessage[]) => {
+    if (!imageKey) return;
+    setTranscripts(prev => ({ ...prev, [imageKey]: messages }));
+  };
+
+  // The export dialog works from the edit rendered at full resolution.
   const handleDownload = async () => {
     if (!selectedFile) return;
-    
-    // Briefly indicate activity, can be expanded if processing is slow
-    const originalError = error;
     setError(null);
 
     try {
-        const dataUrl = await getProcessedImageAsDataUrl();
-        const link = document.createElement('a');
-        link.href = dataUrl;
-        
-        const nameParts = selectedFile.name.split('.');
-        const extension = nameParts.pop();
-        const name = nameParts.join('.');
-        link.download = `${name}-edited.${(selectedFile.type === 'image/jpeg' ? 'jpg' : 'png')}`;
-
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+        const canvas = await renderProcessedImage(await loadImage(previewUrl), getProcessingSettings());
+        setExportSource({ image: canvas, width: canvas.width, height: canvas.height });
     } catch (err) {
         setError(err instanceof Error ? err.message : 'An unknown error occurred during download preparation.');
-    } finally {
-        // Restore original error if there was one
-        if(originalError) setError(originalError);
     }
   };
   
+  // Continues in the generator's edit mode with the image as currently edited here.
+  const handleSendToEditor = async () => {
+    if (!selectedFile) return;
+    setSendingToEditor(true);
+    setError(null);
+
+    try {
+        const blob = dataUrlToBlob(await getProcessedImageAsDataUrl());
+        sendToEditor({
+            blob,
+            fileName: selectedFile.name,
+            historyEntryId: analysisEntryId ?? sourceEntryIdRef.current,
+        });
+    } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+        setSendingToEditor(false);
+    }
+  };
+
+  const analysisModeButtonClass = (mode: AnalysisMode) => `flex-1 flex items-center justify-center gap-2 px-4 py-2 text-sm font-semibold rounded-md transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500 ${analysisMode === mode ? 'bg-indigo-600 text-white shadow' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`;
+
   const resizeModeButtonClass = (mode: ResizeMode) => `flex-1 flex items-center justify-center gap-2 px-4 py-2 text-sm font-semibold rounded-md transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500 ${resizeMode === mode ? 'bg-indigo-600 text-white shadow' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`;
   
   const getDisplayAspectRatio = () => {
@@ -310,43 +654,127 @@ export const ImageAnalyzer: React.FC = () => {
     return `${width}x${height} (${simplifiedRatio})`;
   }, [imageProperties]);
 
-  const formatBytes = (bytes: number, decimals = 2) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const dm = decimals < 0 ? 0 : decimals;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
-  };
-
   return (
     <div className="space-y-6">
       <div 
-        style={{ aspectRatio: getDisplayAspectRatio() }}
-        className="w-full bg-gray-700/50 rounded-lg flex items-center justify-center border-2 border-dashed border-gray-600 overflow-hidden relative transition-all duration-300">
+        style={{ aspectRatio: showCropFrame ? `${rotatedBox.width} / ${rotatedBox.height}` : getDisplayAspectRatio() }}
+        onDragOver={(e) => { e.preventDefault(); if (!loading) setIsDragging(true); }}
+        onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false); }}
+        onDrop={handleDrop}
+        className={`w-full rounded-lg flex items-center justify-center border-2 border-dashed overflow-hidden relative transition-all duration-300 ${isDragging ? 'border-indigo-500 bg-indigo-900/20' : 'bg-gray-700/50 border-gray-600'}`}>
         <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="image/*" className="hidden" disabled={loading} />
-        {previewUrl ? (
-          <img 
-            src={previewUrl} 
-            alt="Preview" 
-            className={`max-w-full max-h-full transition-transform duration-300 ${resizeMode === 'crop' ? 'object-cover w-full h-full' : 'object-contain'}`}
-            style={{ filter: generateFilterString(filters), transform: imageTransform }}
+        {previewUrl && (
+          // In crop mode the whole rotated image is shown, so this box is sized
+          // to the unrotated image and centered in its rotated bounding box.
+          <div
+            className="absolute"
+            style={showCropFrame ? {
+              left: `${(rotatedBox.width - imageProperties.width) / 2 / rotatedBox.width * 100}%`,
+              top: `${(rotatedBox.height - imageProperties.height) / 2 / rotatedBox.height * 100}%`,
+              width: `${imageProperties.width / rotatedBox.width * 100}%`,
+              height: `${imageProperties.height / rotatedBox.height * 100}%`,
+            } : { inset: 0 }}
+          >
+            {adjustedPreview ? (
+              <canvas
+                ref={previewCanvasRef}
+                width={adjustedPreview.width}
+                height={adjustedPreview.height}
+                role="img"
+                aria-label="Preview"
+                className={`w-full h-full transition-transform duration-300 ${resizeMode === 'crop' && !showCropFrame ? 'object-cover' : 'object-contain'}`}
+                style={{ transform: imageTransform }}
+              />
+            ) : (
+              <img 
+                src={previewUrl} 
+                alt="Preview" 
+                className={`w-full h-full transition-transform duration-300 ${resizeMode === 'crop' && !showCropFrame ? 'object-cover' : 'object-contain'}`}
+                style={{ transform: imageTransform }}
+              />
+            )}
+            {detectedObjects && imageProperties && (
+              <BoundingBoxOverlay
+                objects={detectedObjects}
+                imageWidth={imageProperties.width}
+                imageHeight={imageProperties.height}
+                fit={resizeMode === 'crop' && !showCropFrame ? 'cover' : 'contain'}
+                transform={imageTransform}
+                isMirrored={isMirrored}
+                hiddenIndices={hiddenObjects}
+                hoveredIndex={hoveredObject}
+                onHover={setHoveredObject}
+              />
+            )}
+          </div>
+        )}
+        {showCropFrame && (
+          <CropFrame
+            crop={crop}
+            onChange={(rect) => pushEdit({ type: 'crop', rect })}
+            aspectRatio={isCropLocked ? targetRatio : null}
+            boxWidth={rotatedBox.width}
+            boxHeight={rotatedBox.height}
+            disabled={loading}
           />
-        ) : (
+        )}
+        {!previewUrl && (
           <div className="text-center text-gray-500 p-4">
              <PhotoIcon className="w-16 h-16 mx-auto mb-2"/>
-            <p>Upload an image to analyze.</p>
+            <p>Drop, paste or select an image to analyze.</p>
+          </div>
+        )}
+        {isDragging && (
+          <div className="absolute inset-0 flex items-center justify-center bg-gray-900/60 text-indigo-300 font-semibold pointer-events-none">
+            Drop to open
           </div>
         )}
       </div>
 
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <LinkIcon className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+          <input
+            type="url"
+            value={imageUrl}
+            onChange={(e) => setImageUrl(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleImportUrl(imageUrl)}
+            placeholder="Or paste an image URL"
+            className="w-full bg-gray-700 border border-gray-600 rounded-md pl-9 pr-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            disabled={loading || importingUrl}
+          />
+        </div>
+        <button onClick={() => handleImportUrl(imageUrl)} disabled={loading || importingUrl || !imageUrl.trim()} className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-md bg-gray-600 text-gray-200 hover:bg-gray-500 disabled:opacity-50 transition-colors">
+          {importingUrl && <Spinner className="w-4 h-4" />}
+          Load
+        </button>
+      </div>
+
+      {showCropFrame && (
+        <div className="flex flex-wrap items-center gap-2 -mt-3">
+          <button
+            onClick={() => pushEdit({ type: 'cropLock', locked: !isCropLocked })}
+            className={`flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full transition-colors ${isCropLocked ? 'bg-gray-600 text-gray-200 hover:bg-gray-500' : 'bg-indigo-600 text-white'}`}
+            disabled={loading}
+          >
+            <CropIcon className="w-4 h-4" />
+            Free-form
+          </button>
+          <button onClick={handleResetCrop} disabled={loading} className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 disabled:opacity-50 transition-colors">
+            <ArrowPathIcon className="w-4 h-4" />
+            Reset Crop
+          </button>
+          <span className="text-xs text-gray-400">Drag the frame or its corners. Arrow keys nudge it; hold Alt to resize, Shift for bigger steps.</span>
+        </div>
+      )}
+
        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="grid grid-cols-1 gap-4">
             <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">Resize Mode</label>
                 <div className="flex gap-2">
-                    <button onClick={() => setResizeMode('crop')} className={resizeModeButtonClass('crop')} disabled={loading}><CropIcon className="w-5 h-5"/>Crop</button>
-                    <button onClick={() => setResizeMode('stretch')} className={resizeModeButtonClass('stretch')} disabled={loading}><ArrowsRightLeftIcon className="w-5 h-5"/>Stretch</button>
+                    <button onClick={() => pushEdit({ type: 'resizeMode', mode: 'crop' })} className={resizeModeButtonClass('crop')} disabled={loading}><CropIcon className="w-5 h-5"/>Crop</button>
+                    <button onClick={() => pushEdit({ type: 'resizeMode', mode: 'stretch' })} className={resizeModeButtonClass('stretch')} disabled={loading}><ArrowsRightLeftIcon className="w-5 h-5"/>Stretch</button>
                 </div>
             </div>
              <div>
@@ -361,12 +789,12 @@ export const ImageAnalyzer: React.FC = () => {
                         max="180"
                         step="1"
                         value={rotation}
-                        onChange={(e) => setRotation(e.target.valueAsNumber)}
+                        onChange={(e) => pushEdit({ type: 'rotate', degrees: e.target.valueAsNumber })}
                         className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
                         disabled={loading}
                     />
                     <button
-                        onClick={() => setRotation(0)}
+                        onClick={() => pushEdit({ type: 'rotate', degrees: 0 })}
                         className="p-2 rounded-md bg-gray-600 text-gray-300 hover:bg-gray-500 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500"
                         disabled={loading}
                         aria-label="Reset rotation"
@@ -374,7 +802,7 @@ export const ImageAnalyzer: React.FC = () => {
                         <ArrowPathIcon className="w-5 h-5" />
                     </button>
                     <button
-                        onClick={() => setIsMirrored(prev => !prev)}
+                        onClick={() => pushEdit({ type: 'mirror', mirrored: !isMirrored })}
                         className={`p-2 rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500 ${ isMirrored ? 'bg-indigo-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500' }`}
                         disabled={loading}
                         aria-label="Mirror image horizontally"
@@ -396,10 +824,10 @@ export const ImageAnalyzer: React.FC = () => {
             <div className="flex flex-wrap gap-2">
             {allAspectRatios.map((ratio) => {
                 const isAuto = ratio === 'Auto';
-                const isSelected = selectedAspectRatio === ratio;
+                const isSelected = selectedAspectRatio === ratio && (isCropLocked || resizeMode === 'stretch');
                 const isDisabled = loading || (isAuto && !autoAspectRatio);
                 return(
-                    <button key={ratio} onClick={() => setSelectedAspectRatio(ratio)}
+                    <button key={ratio} onClick={() => handleSelectAspectRatio(ratio)}
                         className={`flex items-center justify-center px-4 py-2 text-sm font-semibold rounded-md transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed ${isSelected ? 'bg-indigo-600 text-white shadow' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`}
                         disabled={isDisabled}
                     >
@@ -413,6 +841,7 @@ export const ImageAnalyzer: React.FC = () => {
       </div>
 
       <div className="pt-4 border-t border-gray-700/50 space-y-4">
+        <AnalysisPromptPanel instruction={instruction} onChange={setInstruction} disabled={loading} />
         {selectedFile && (
             <>
                 <details open>
@@ -421,6 +850,24 @@ export const ImageAnalyzer: React.FC = () => {
                         Image Filters
                     </summary>
                     <div className="mt-3 bg-gray-700/50 p-4 rounded-lg space-y-4">
+                        <FilterPresetsPanel
+                            filters={filters}
+                            adjustments={adjustments}
+                            tone={tone}
+                            lut={lut}
+                            luts={luts}
+                            onLutsChange={setLuts}
+                            onApplyPreset={(preset) => pushEdit({
+                                type: 'look',
+                                name: preset.name,
+                                filters: preset.filters,
+                                adjustments: preset.adjustments,
+                                tone: preset.tone ?? initialToneSettings,
+                                lut: preset.lut ?? null,
+                            })}
+                            onLutChange={(selection) => pushEdit({ type: 'lut', lut: selection })}
+                            disabled={loading}
+                        />
                         <div className="grid grid-cols-1 sm:grid-cols-3 gap-x-4 gap-y-3">
                             {(['brightness', 'contrast', 'saturate'] as const).map(filterName => (
                                 <div key={filterName}>
@@ -449,30 +896,41 @@ export const ImageAnalyzer: React.FC = () => {
                             <input id="hueRotate" type="range" min="0" max="360" value={filters.hueRotate} onChange={(e) => handleFilterChange('hueRotate', e.target.valueAsNumber)} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
                         </div>
                         <div className="flex justify-end pt-2 border-t border-gray-600/50">
-                            <button onClick={() => setFilters(initialFilterState)} className="px-3 py-1 text-sm font-semibold rounded-full bg-red-600/50 text-red-200 hover:bg-red-600/80 transition-colors">
+                            <button onClick={() => pushEdit({ type: 'resetFilters' })} className="px-3 py-1 text-sm font-semibold rounded-full bg-red-600/50 text-red-200 hover:bg-red-600/80 transition-colors">
                                 Reset Filters
                             </button>
                         </div>
                     </div>
                 </details>
-                <details>
-                    <summary className="text-sm font-medium text-gray-300 cursor-pointer hover:text-white transition-colors flex items-center gap-2">
-                        <InformationCircleIcon className="w-5 h-5" />
-                        Image Details
-                    </summary>
-                    {imageProperties && (
-                        <div className="mt-3 bg-gray-700/50 p-4 rounded-lg text-sm grid grid-cols-2 gap-x-4 gap-y-2">
-                            <div className="font-semibold text-gray-400">Dimensions:</div>
-                            <div className="text-gray-200 font-mono">{`${imageProperties.width} x ${imageProperties.height} px`}</div>
-                            <div className="font-semibold text-gray-400">Resolution:</div>
-                            <div className="text-gray-200 font-mono">{`${(imageProperties.width * imageProperties.height / 1000000).toFixed(1)} MP`}</div>
-                            <div className="font-semibold text-gray-400">Size:</div>
-                            <div className="text-gray-200 font-mono">{formatBytes(imageProperties.size)}</div>
-                            <div className="font-semibold text-gray-400">Type:</div>
-                            <div className="text-gray-200 font-mono">{imageProperties.type}</div>
-                        </div>
-                    )}
-                </details>
+                <ColorAdjustmentsPanel
+                    adjustments={adjustments}
+                    tone={tone}
+                    histogram={histogram}
+                    onAdjustmentChange={(adjustment, value) => pushEdit({ type: 'adjustment', adjustment, value })}
+                    onCurveChange={(channel, points) => pushEdit({ type: 'curve', channel, points })}
+                    onLevelsChange={(levels) => pushEdit({ type: 'levels', levels })}
+                    onResetAdjustments={() => pushEdit({ type: 'resetAdjustments' })}
+                    onResetTone={() => pushEdit({ type: 'resetTone' })}
+                    disabled={loading}
+                />
+                <EditHistoryPanel
+                    operations={editStack.operations}
+                    cursor={editStack.cursor}
+                    onJump={(cursor) => dispatchEdit({ type: 'jump', cursor })}
+                    onUndo={() => dispatchEdit({ type: 'undo' })}
+                    onRedo={() => dispatchEdit({ type: 'redo' })}
+                    onApplyRecipe={(operations) => dispatchEdit({ type: 'append', operations })}
+                    disabled={loading}
+                />
+                {imageProperties && (
+                    <ImageDetailsPanel
+                        width={imageProperties.width}
+                        height={imageProperties.height}
+                        size={imageProperties.size}
+                        type={imageProperties.type}
+                        metadata={metadata}
+                    />
+                )}
             </>
         )}
         <details>
@@ -501,28 +959,128 @@ export const ImageAnalyzer: React.FC = () => {
         </details>
       </div>
 
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">Output</label>
+        <div className="flex gap-2">
+            <button onClick={() => setAnalysisMode('text')} className={analysisModeButtonClass('text')} disabled={loading}><DocumentMagnifyingGlassIcon className="w-5 h-5"/>Text</button>
+            <button onClick={() => setAnalysisMode('structured')} className={analysisModeButtonClass('structured')} disabled={loading}><CodeBracketIcon className="w-5 h-5"/>Structured (JSON)</button>
+        </div>
+      </div>
+
        <div className="flex flex-col sm:flex-row gap-4">
         <button onClick={() => fileInputRef.current?.click()} disabled={loading} className="w-full flex-1 bg-gray-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-gray-700 disabled:opacity-50 transition-colors duration-300 flex justify-center items-center">
             <PhotoIcon className="w-5 h-5 mr-2" />
             {selectedFile ? "Change Image" : "Select Image"}
         </button>
-        <button onClick={handleAnalyze} disabled={loading || !selectedFile} className="w-full flex-1 bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-800 disabled:cursor-not-allowed transition-colors duration-300 flex justify-center items-center">
-          {loading ? (<><Spinner className="w-5 h-5 mr-2" />Analyzing...</>) : (<><DocumentMagnifyingGlassIcon className="w-5 h-5 mr-2" />Analyze Image</>)}
+        <button onClick={() => handleDetectObjects()} disabled={loading || detecting || !selectedFile} className="w-full flex-1 sm:w-auto bg-gray-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-gray-700 disabled:opacity-50 transition-colors duration-300 flex justify-center items-center">
+          {detecting ? (<><Spinner className="w-5 h-5 mr-2" />Detecting...</>) : (<><ViewfinderCircleIcon className="w-5 h-5 mr-2" />Detect Objects</>)}
         </button>
+        {loading ? (
+          <button onClick={handleCancelAnalysis} className="w-full flex-1 bg-red-600/70 text-white font-bold py-3 px-4 rounded-lg hover:bg-red-600 transition-colors duration-300 flex justify-center items-center">
+            <StopIcon className="w-5 h-5 mr-2" />Cancel
+          </button>
+        ) : (
+          <button onClick={() => handleAnalyze()} disabled={detecting || !selectedFile} className="w-full flex-1 bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-800 disabled:cursor-not-allowed transition-colors duration-300 flex justify-center items-center">
+            <DocumentMagnifyingGlassIcon className="w-5 h-5 mr-2" />Analyze Image
+          </button>
+        )}
         <button onClick={handleDownload} disabled={loading || !selectedFile} className="w-full flex-1 sm:w-auto bg-gray-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-gray-700 disabled:opacity-50 transition-colors duration-300 flex justify-center items-center">
             <ArrowDownTrayIcon className="w-5 h-5 mr-2" />
             Download Image
         </button>
+        <button onClick={handleSendToEditor} disabled={loading || sendingToEditor || !selectedFile} className="w-full flex-1 sm:w-auto bg-gray-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-gray-700 disabled:opacity-50 transition-colors duration-300 flex justify-center items-center" title="Open this image in the generator's editor">
+            {sendingToEditor ? <Spinner className="w-5 h-5 mr-2" /> : <PencilSquareIcon className="w-5 h-5 mr-2" />}
+            Edit Image
+        </button>
       </div>
       
-      {error && <div className="text-red-400 bg-red-900/50 p-3 rounded-lg text-center">{error}</div>}
+      {error && (
+        <ErrorNotice
+          error={error}
+          onRetry={failedAction && !loading && !detecting ? { analyze: () => handleAnalyze(), detect: () => handleDetectObjects(), describe: handleUseAsPrompt }[failedAction] : undefined}
+        />
+      )}
 
-      {(loading || analysis) && (
+      {(detecting || detectedObjects) && (
+        <div className="p-4 bg-gray-700/50 rounded-lg border border-gray-600">
+          <h3 className="text-lg font-semibold text-indigo-400 mb-2 flex items-center gap-2">
+            Detected Objects
+            {!detecting && detectionCachedAt !== null && <CachedBadge storedAt={detectionCachedAt} onRefresh={() => handleDetectObjects(true)} disabled={loading} />}
+          </h3>
+          {detecting || !detectedObjects ? (
+            <div className="flex items-center justify-center p-8"><Spinner className="w-8 h-8 text-gray-400" /></div>
+          ) : (
+            <DetectedObjectsPanel
+              objects={detectedObjects}
+              hiddenIndices={hiddenObjects}
+              onToggle={toggleObjectVisibility}
+              onToggleAll={(visible) => setHiddenObjects(visible ? new Set() : new Set(detectedObjects.map((_, i) => i)))}
+              hoveredIndex={hoveredObject}
+              onHover={setHoveredObject}
+            />
+          )}
+        </div>
+      )}
+
+      {(loading || analysis || structuredAnalysis) && (
         <div className="p-4 bg-gray-700/50 rounded-lg border border-gray-600 min-h-[100px]">
-          <h3 className="text-lg font-semibold text-indigo-400 mb-2">Analysis Result</h3>
-          {loading ? (<div className="flex items-center justify-center p-8"><Spinner className="w-8 h-8 text-gray-400" /></div>) : (<p className="text-gray-300 whitespace-pre-wrap">{analysis}</p>)}
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <h3 className="text-lg font-semibold text-indigo-400 flex items-center gap-2">
+              Analysis Result
+              {loading && analysis && <Spinner className="w-4 h-4 text-gray-400" />}
+              {!loading && analysisCachedAt !== null && <CachedBadge storedAt={analysisCachedAt} onRefresh={() => handleAnalyze(true)} disabled={detecting} />}
+            </h3>
+            {!loading && analysisText && (
+              <button
+                onClick={handleUseAsPrompt}
+                disabled={writingPrompt}
+                className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                title="Write a generation prompt from this analysis and open it in the generator"
+              >
+                {writingPrompt ? <Spinner className="w-4 h-4" /> : <SparklesIcon className="w-4 h-4" />}
+                {writingPrompt ? 'Writing Prompt...' : 'Use as Prompt'}
+              </button>
+            )}
+          </div>
+          {loading && !analysis ? (
+            <div className="flex items-center justify-center p-8"><Spinner className="w-8 h-8 text-gray-400" /></div>
+          ) : structuredAnalysis ? (
+            <StructuredAnalysisView analysis={structuredAnalysis} fileName={selectedFile?.name} />
+          ) : (
+            <p className="text-gray-300 whitespace-pre-wrap">{analysis}</p>
+          )}
         </div>
       )}
+
+      {selectedFile && !loading && (
+        <ImageChat
+          key={imageKey}
+          getImageData={getChatImageData}
+          contextTurns={chatContextTurns}
+          messages={chatMessages}
+          onMessagesChange={handleChatMessagesChange}
+          fileName={selectedFile.name}
+          disabled={detecting}
+        />
+      )}
+
+      <BatchAnalyzer
+        settings={{ aspectRatio: selectedAspectRatio, resizeMode, filters, adjustments, tone, lut: pixelSettings.lut, rotation, isMirrored }}
+        instruction={instruction}
+        analysisMode={analysisMode}
+        disabled={loading}
+      />
+
+      {exportSource && selectedFile && (
+        <ExportDialog
+          source={exportSource}
+          baseName={`${selectedFile.name.replace(/\.[^.]+$/, '')}-edited`}
+          description={analysisText || undefined}
+          descriptionLabel="analysis"
+          photoMetadata={metadata}
+          onClose={() => setExportSource(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,137 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChatMessage, ImageData } from '../types';
+import { chatAboutImage } from '../services/geminiService';
+import { downloadBlob } from '../utils/download';
+import { Spinner } from './Spinner';
+import { ArrowDownTrayIcon, ChatBubbleIcon, PaperAirplaneIcon, TrashIcon } from './Icons';
+
+interface ImageChatProps {
+  /** Resolves the processed image the conversation is about. */
+  getImageData: () => Promise<ImageData>;
+  /** Turns that precede the chat, typically the analysis instruction and its result. */
+  contextTurns: ChatMessage[];
+  messages: ChatMessage[];
+  onMessagesChange: (messages: ChatMessage[]) => void;
+  fileName: string;
+  disabled?: boolean;
+}
+
+const transcriptToMarkdown = (fileName: string, turns: ChatMessage[]) => {
+  const lines = [`# Conversation about ${fileName}`, '', `_Exported ${new Date().toLocaleString()}_`, ''];
+  turns.forEach((turn) => {
+    lines.push(`**${turn.role === 'user' ? 'You' : 'Gemini'}:**`, '', turn.text, '');
+  });
+  return lines.join('\n');
+};
+
+export const ImageChat: React.FC<ImageChatProps> = ({ getImageData, contextTurns, messages, onMessagesChange, fileName, disabled }) => {
+  const [draft, setDraft] = useState<string>('');
+  const [sending, setSending] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages, sending]);
+
+  const handleSend = async () => {
+    const text = draft.trim();
+    if (!text) return;
+
+    const userMessage: ChatMessage = { role: 'user', text };
+    const pending = [...messages, userMessage];
+    onMessagesChange(pending);
+    setDraft('');
+    setSending(true);
+    setError(null);
+
+    try {
+      const imageData = await getImageData();
+      const reply = await chatAboutImage(imageData, [...contextTurns, ...pending]);
+      onMessagesChange([...pending, { role: 'model', text: reply }]);
+    } catch (err) {
+      // Put the question back so it can be retried.
+      onMessagesChange(messages);
+      setDraft(text);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      handleSend();
+    }
+  };
+
+  const handleExport = () => {
+    const markdown = transcriptToMarkdown(fileName, [...contextTurns, ...messages]);
+    const baseName = fileName.replace(/\.[^.]+$/, '');
+    downloadBlob(new Blob([markdown], { type: 'text/markdown' }), `${baseName}-chat.md`);
+  };
+
+  return (
+    <div className="p-4 bg-gray-700/50 rounded-lg border border-gray-600 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-indigo-400 flex items-center gap-2">
+          <ChatBubbleIcon className="w-5 h-5" />
+          Ask Follow-up Questions
+        </h3>
+        {messages.length > 0 && (
+          <div className="flex gap-2">
+            <button onClick={handleExport} className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 transition-colors">
+              <ArrowDownTrayIcon className="w-4 h-4" />
+              Export .md
+            </button>
+            <button onClick={() => onMessagesChange([])} disabled={sending} className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-red-600/50 text-red-200 hover:bg-red-600/80 transition-colors">
+              <TrashIcon className="w-4 h-4" />
+              Clear
+            </button>
+          </div>
+        )}
+      </div>
+
+      {messages.length > 0 && (
+        <div className="space-y-3 max-h-96 overflow-y-auto pr-1">
+          {messages.map((message, index) => (
+            <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <p className={`max-w-[85%] px-3 py-2 rounded-lg text-sm whitespace-pre-wrap ${message.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-200'}`}>
+                {message.text}
+              </p>
+            </div>
+          ))}
+          {sending && (
+            <div className="flex justify-start">
+              <div className="px-3 py-2 rounded-lg bg-gray-800"><Spinner className="w-4 h-4 text-gray-400" /></div>
+            </div>
+          )}
+          <div ref={transcriptEndRef} />
+        </div>
+      )}
+
+      {error && <div className="text-red-400 bg-red-900/50 p-3 rounded-lg text-center text-sm">{error}</div>}
+
+      <div className="flex gap-2 items-end">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="e.g., What brand is the mug?"
+          rows={2}
+          className="flex-grow p-3 bg-gray-700 border border-gray-600 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors resize-none"
+          disabled={disabled || sending}
+        />
+        <button
+          onClick={handleSend}
+          disabled={disabled || sending || !draft.trim()}
+          className="p-3 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-indigo-800 disabled:cursor-not-allowed transition-colors"
+          aria-label="Send"
+        >
+          <PaperAirplaneIcon className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import { describeOrientation, formatExposureTime, formatGpsPosition, ImageMetadata, listPrivateMetadata } from '../utils/imageMetadata';
+import { formatBytes } from '../utils/files';
+import { InformationCircleIcon } from './Icons';
+
+interface ImageDetailsPanelProps {
+  width: number;
+  height: number;
+  size: number;
+  type: string;
+  /** Null while it is being read, or for formats without metadata. */
+  metadata: ImageMetadata | null;
+}
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <>
+    <div className="font-semibold text-gray-400">{label}:</div>
+    <div className="text-gray-200 font-mono break-words">{children}</div>
+  </>
+);
+
+const formatExposure = (metadata: ImageMetadata): string | null => {
+  const parts = [
+    metadata.exposureTime !== undefined ? formatExposureTime(metadata.exposureTime) : null,
+    metadata.fNumber !== undefined ? `f/${Number(metadata.fNumber.toFixed(1))}` : null,
+    metadata.iso !== undefined ? `ISO ${metadata.iso}` : null,
+    metadata.exposureBias ? `${metadata.exposureBias > 0 ? '+' : ''}${Number(metadata.exposureBias.toFixed(1))} EV` : null,
+    metadata.flashFired ? 'flash' : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : null;
+};
+
+const formatFocalLength = ({ focalLength, focalLength35mm }: ImageMetadata): string | null => {
+  if (focalLength === undefined) return null;
+  const actual = `${Number(focalLength.toFixed(1))} mm`;
+  return focalLength35mm && Math.round(focalLength35mm) !== Math.round(focalLength) ? `${actual} (${focalLength35mm} mm equiv.)` : actual;
+};
+
+// Many cameras repeat the make in the model name, e.g. "Canon" and "Canon EOS R5".
+const formatCamera = ({ make, model }: ImageMetadata): string | null => {
+  if (!model) return make ?? null;
+  return make && !model.toLowerCase().startsWith(make.toLowerCase()) ? `${make} ${model}` : model;
+};
+
+export const ImageDetailsPanel: React.FC<ImageDetailsPanelProps> = ({ width, height, size, type, metadata }) => {
+  const camera = metadata && formatCamera(metadata);
+  const exposure = metadata && formatExposure(metadata);
+  const focalLength = metadata && formatFocalLength(metadata);
+  const privateFields = metadata ? listPrivateMetadata(metadata) : [];
+  const extraFields = metadata ? { ...metadata.iptc, ...metadata.xmp } : {};
+
+  return (
+    <details>
+      <summary className="text-sm font-medium text-gray-300 cursor-pointer hover:text-white transition-colors flex items-center gap-2">
+        <InformationCircleIcon className="w-5 h-5" />
+        Image Details
+        {privateFields.length > 0 && <span className="text-xs text-yellow-400">(contains location or device data)</span>}
+      </summary>
+      <div className="mt-3 bg-gray-700/50 p-4 rounded-lg text-sm grid grid-cols-2 gap-x-4 gap-y-2">
+        <Row label="Dimensions">{`${width} x ${height} px`}</Row>
+        <Row label="Resolution">{`${(width * height / 1000000).toFixed(1)} MP`}</Row>
+        <Row label="Size">{formatBytes(size)}</Row>
+        <Row label="Type">{type}</Row>
+        {metadata && (
+          <>
+            {camera && <Row label="Camera">{camera}</Row>}
+            {metadata.lens && <Row label="Lens">{metadata.lens}</Row>}
+            {exposure && <Row label="Exposure">{exposure}</Row>}
+            {focalLength && <Row label="Focal Length">{focalLength}</Row>}
+            {metadata.capturedAt && <Row label="Captured">{metadata.capturedAt.replace(/^(\d{4}):(\d{2}):(\d{2})/, '$1-$2-$3')}</Row>}
+            {metadata.orientation !== 1 && <Row label="Orientation">{`${describeOrientation(metadata.orientation)} (corrected)`}</Row>}
+            {metadata.gps && (
+              <Row label="GPS">
+                <a
+                  href={`https://www.openstreetmap.org/?mlat=${metadata.gps.latitude}&mlon=${metadata.gps.longitude}#map=15/${metadata.gps.latitude}/${metadata.gps.longitude}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-yellow-400 hover:underline"
+                >
+                  {formatGpsPosition(metadata.gps)}
+                </a>
+                {metadata.gps.altitude !== undefined && ` · ${Math.round(metadata.gps.altitude)} m`}
+              </Row>
+            )}
+            {metadata.colorProfile && <Row label="Color Profile">{metadata.colorProfile}</Row>}
+            {metadata.software && <Row label="Software">{metadata.software}</Row>}
+            {metadata.artist && <Row label="Artist">{metadata.artist}</Row>}
+            {metadata.copyright && <Row label="Copyright">{metadata.copyright}</Row>}
+            {metadata.serialNumber && <Row label="Serial Number">{metadata.serialNumber}</Row>}
+            {Object.entries(extraFields).map(([name, value]) => <Row key={name} label={name}>{value}</Row>)}
+          </>
+        )}
+      </div>
+      {privateFields.length > 0 && (
+        <p className="mt-2 text-xs text-gray-400">
+          Exports leave out {privateFields.join(', ')} unless you choose to keep them. The image sent for analysis never includes metadata.
+        </p>
+      )}
+    </details>
+  );
+};
@@ -1,128 +1,870 @@
-import React, { useState } from 'react';
-import { generateImage } from '../services/geminiService';
-import { generatorAspectRatios, GeneratorAspectRatio } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { generateImage, editImage, enhancePrompt, fileToBase64, isRateLimitError } from '../services/geminiService';
+import { addHistoryEntry, addResponseHistoryEntry, CachedResponseRef, trackCachedResponse } from '../services/historyService';
+import { runQueue } from '../services/jobQueue';
+import { isRetryableError } from '../services/serviceErrors';
+import { getSettings, subscribeToSettings } from '../services/settingsService';
+import { generatorAspectRatios, GeneratorAspectRatio, GeneratedImage, imageCountOptions, ImageCount, GenerationOptions, defaultGenerationOptions, HistoryEntry, ImageData } from '../types';
 import { Spinner } from './Spinner';
-import { SparklesIcon, ArrowDownTrayIcon } from './Icons';
+import { AdvancedOptionsPanel } from './AdvancedOptionsPanel';
+import { MaskPainter } from './MaskPainter';
+import { PromptLibraryPanel } from './PromptLibraryPanel';
+import { TemplateVariablesPanel } from './TemplateVariablesPanel';
+import { PromptDiffView } from './PromptDiffView';
+import { ErrorNotice } from './ErrorNotice';
+import { CachedBadge } from './CachedBadge';
+import { ExportDialog } from './ExportDialog';
+import { SparklesIcon, ArrowDownTrayIcon, StarIcon, ViewColumnsIcon, XMarkIcon, StopIcon, PencilSquareIcon, PhotoIcon, DocumentMagnifyingGlassIcon } from './Icons';
+import { base64ToBlob, base64ToBytes, dataUrlToBlob, downloadBlob, extensionForMimeType } from '../utils/download';
+import { dataUrlToImageData, loadImage, rasterizeImage, simplifyRatio } from '../utils/imageProcessing';
+import { ExportSource } from '../utils/export';
+import { useStudio } from '../context/StudioContext';
+import { createZip } from '../utils/zip';
+import { isAbortError } from '../utils/abort';
+import { expandTemplate, getMatrixSize, getTemplateVariables, TemplateExpansion } from '../utils/promptTemplate';
 
-export const ImageGenerator: React.FC = () => {
-  const [prompt, setPrompt] = useState<string>('');
-  const [selectedAspectRatio, setSelectedAspectRatio] = useState<GeneratorAspectRatio>('1:1');
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
+const toDataUrl = (image: GeneratedImage) => `data:${image.mimeType};base64,${image.imageBytes}`;
+
+type GeneratorMode = 'generate' | 'edit';
+
+// Matrix prompts are generated a few at a time, retrying transient failures.
+const MATRIX_CONCURRENCY = 2;
+const MATRIX_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 2000;
+
+// One image of a template matrix, in the same order as the images.
+interface MatrixCell {
+  prompt: string;
+  /** The placeholder values that produced the prompt, e.g. `subject: cat · style: ink`. */
+  label: string;
+  /** History entry the image was saved as. */
+  entryId?: string;
+}
+
+const formatTemplateValues = (values: Record<string, string>) =>
+  Object.entries(values).map(([name, value]) => `${name}: ${value}`).join(' · ');
+
+// The picture an edit starts from, already rasterized to PNG.
+interface EditSource {
+  image: ImageData;
+  width: number;
+  height: number;
+  /** History entry the image came from, so the edit can be linked to it. */
+  parentId?: string;
+  fileName?: string;
+}
+
+const loadEditSource = async (blob: Blob, details: Pick<EditSource, 'parentId' | 'fileName'>): Promise<EditSource> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    const { width, height, ...image } = await rasterizeImage(url);
+    return { image, width, height, ...details };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Portrait variants read better side by side, landscape ones stacked two per row.
+const getGridColumnsClass = (count: number, aspectRatio: string) => {
+  if (count === 1) return 'grid-cols-1';
+  if (count > 4) return 'grid-cols-2 sm:grid-cols-3';
+  const [ratioW, ratioH] = aspectRatio.split(':').map(Number);
+  if (ratioW < ratioH && count > 2) {
+    return count === 3 ? 'grid-cols-3' : 'grid-cols-2 sm:grid-cols-4';
+  }
+  return 'grid-cols-2';
+};
+
+interface ImageGeneratorProps {
+  /** A history entry to restore; with `autoRun` its prompt is generated (or its edit applied) again. */
+  initialEntry?: HistoryEntry;
+  autoRun?: boolean;
+}
+
+export const ImageGenerator: React.FC<ImageGeneratorProps> = ({ initialEntry, autoRun }) => {
+  const { state: { handoffs }, sendToAnalyzer, consumeHandoff } = useStudio();
+  const restoredGeneration = initialEntry?.kind === 'generation' ? initialEntry : undefined;
+  const [mode, setMode] = useState<GeneratorMode>(initialEntry?.kind === 'edit' ? 'edit' : 'generate');
+  const [prompt, setPrompt] = useState<string>(initialEntry?.prompt ?? '');
+  const [selectedAspectRatio, setSelectedAspectRatio] = useState<GeneratorAspectRatio>((restoredGeneration?.aspectRatio as GeneratorAspectRatio) ?? '1:1');
+  const [imageCount, setImageCount] = useState<ImageCount>((restoredGeneration?.images.length as ImageCount) || 1);
+  const [options, setOptions] = useState<GenerationOptions>(initialEntry?.options ?? { ...defaultGenerationOptions, model: getSettings().defaultGenerationModel });
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [images, setImages] = useState<GeneratedImage[]>([]);
+  const [resultAspectRatio, setResultAspectRatio] = useState<string>('1:1');
+  const [resultEntryId, setResultEntryId] = useState<string | null>(null);
+  const [resultPrompt, setResultPrompt] = useState<string>('');
+  // When the shown images were stored, if any came from the response cache.
+  const [resultCachedAt, setResultCachedAt] = useState<number | null>(null);
+  const [exportTarget, setExportTarget] = useState<{ source: ExportSource; baseName: string; description: string } | null>(null);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const [matrixCells, setMatrixCells] = useState<MatrixCell[] | null>(null);
+  const [enhancement, setEnhancement] = useState<{ original: string; enhanced: string } | null>(null);
+  const [enhancing, setEnhancing] = useState<boolean>(false);
+  const enhanceControllerRef = useRef<AbortController | null>(null);
+  const [matrixProgress, setMatrixProgress] = useState<{ settled: number; total: number } | null>(null);
+  const [editSource, setEditSource] = useState<EditSource | null>(null);
+  const [mask, setMask] = useState<string | null>(null);
+  const editFileInputRef = useRef<HTMLInputElement>(null);
+  const [favouriteIndex, setFavouriteIndex] = useState<number | null>(null);
+  const [compareIndices, setCompareIndices] = useState<number[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | Error | null>(null);
+  // What the Try Again button of a failed service call repeats.
+  const [failedAction, setFailedAction] = useState<'generate' | 'edit' | 'enhance' | null>(null);
+
+  // Abandon an in-flight request when the generator unmounts. Under StrictMode
+  // this also cancels the first of the two auto-run requests made on mount.
+  useEffect(() => () => {
+    abortControllerRef.current?.abort();
+    enhanceControllerRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    if (initialEntry) return;
+    try {
+      const storedOptions = localStorage.getItem('generationOptions');
+      if (storedOptions) {
+        // The model comes from Settings; the other options carry over from last time.
+        setOptions({ ...defaultGenerationOptions, ...JSON.parse(storedOptions), model: getSettings().defaultGenerationModel });
+      }
+    } catch (e) {
+      console.error("Failed to parse generation options from localStorage", e);
+    }
+  }, []);
+
+  // The generator stays mounted, so a new default model has to reach it here.
+  useEffect(() => subscribeToSettings((settings, changes) => {
+    if (changes.defaultGenerationModel) {
+      setOptions((current) => ({ ...current, model: settings.defaultGenerationModel }));
+    }
+  }), []);
+
+  useEffect(() => {
+    if (!initialEntry) return;
+    if (initialEntry.kind === 'edit') {
+      // Restoring is async, so guard against StrictMode's second run applying the edit twice.
+      let cancelled = false;
+      restoreEdit(initialEntry)
+        .then(({ source, mask: restoredMask }) => {
+          if (cancelled) return;
+          setEditSource(source);
+          setMask(restoredMask);
+          if (autoRun) handleEdit(source, restoredMask);
+        })
+        .catch((err) => setError(err instanceof Error ? err.message : 'Failed to restore the edited image.'));
+      if (!autoRun) restoreImages(initialEntry);
+      return () => { cancelled = true; };
+    }
+    if (autoRun) {
+      handleGenerate();
+      return;
+    }
+    restoreImages(initialEntry);
+  }, [initialEntry]);
+
+  // Prompts and images sent from another tab.
+  useEffect(() => {
+    handoffs.forEach((handoff) => {
+      if (handoff.kind === 'prompt') {
+        consumeHandoff(handoff.id);
+        setPrompt(handoff.prompt);
+        setEnhancement(null);
+        setMode('generate');
+      } else if (handoff.kind === 'edit') {
+        consumeHandoff(handoff.id);
+        const { blob, fileName, historyEntryId } = handoff.asset;
+        startEditing(() => loadEditSource(blob, { parentId: historyEntryId, fileName }));
+      }
+    });
+  }, [handoffs]);
+
+  const restoreImages = (entry: HistoryEntry) => {
+    Promise.all(entry.images.map(async (blob) => ({ imageBytes: await fileToBase64(blob), mimeType: blob.type })))
+      .then((restored) => {
+        setImages(restored);
+        setResultCachedAt(null);
+        setResultAspectRatio(entry.aspectRatio);
+        setResultEntryId(entry.id);
+        setResultPrompt(entry.prompt);
+        setFavouriteIndex(restored.length === 1 ? 0 : null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to restore the saved images.'));
+  };
+
+  const restoreEdit = async (entry: HistoryEntry) => {
+    if (!entry.sourceImage) {
+      throw new Error('The original image of this edit was not saved.');
+    }
+    const source = await loadEditSource(entry.sourceImage, { parentId: entry.parentId, fileName: entry.fileName });
+    const restoredMask = entry.mask ? `data:${entry.mask.type};base64,${await fileToBase64(entry.mask)}` : null;
+    return { source, mask: restoredMask };
+  };
+
+  const handleOptionsChange = (newOptions: GenerationOptions) => {
+    setOptions(newOptions);
+    localStorage.setItem('generationOptions', JSON.stringify(newOptions));
+  };
+
+  const templateVariables = useMemo(() => getTemplateVariables(prompt), [prompt]);
+  const matrixSize = getMatrixSize(prompt, templateValues);
+
+  const handleTemplateValueChange = (name: string, value: string) => {
+    setTemplateValues((prev) => ({ ...prev, [name]: value }));
+  };
+
+  // Fills the prompt's placeholders; throws when one has no value.
+  const expandPrompt = (): TemplateExpansion[] => expandTemplate(prompt, templateValues);
+
+  const handleEnhancePrompt = async () => {
+    const original = prompt.trim();
+    if (!original) {
+      setError('Please enter a prompt.');
+      return;
+    }
+
+    enhanceControllerRef.current?.abort();
+    const controller = new AbortController();
+    enhanceControllerRef.current = controller;
+    setEnhancing(true);
+    setEnhancement(null);
+    setError(null);
+
+    try {
+      const enhanced = await enhancePrompt(original, controller.signal);
+      setEnhancement({ original, enhanced });
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err : 'An unknown error occurred.');
+        setFailedAction('enhance');
+      }
+    } finally {
+      if (enhanceControllerRef.current === controller) {
+        enhanceControllerRef.current = null;
+        setEnhancing(false);
+      }
+    }
+  };
+
+  const handleAcceptEnhancement = () => {
+    if (!enhancement) return;
+    setPrompt(enhancement.enhanced);
+    setEnhancement(null);
+  };
 
-  const handleGenerate = async () => {
+  const handleGenerate = async (bypassCache: boolean = false) => {
     if (!prompt.trim()) {
       setError('Please enter a prompt.');
       return;
     }
+    let expansions: TemplateExpansion[];
+    try {
+      expansions = expandPrompt();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The prompt template could not be filled in.');
+      return;
+    }
+    if (expansions.length > 1) {
+      await handleGenerateMatrix(expansions, bypassCache);
+      return;
+    }
+    const finalPrompt = expansions[0].prompt;
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setLoading(true);
     setError(null);
-    setImageUrl(null);
+    setImages([]);
+    setFavouriteIndex(null);
+    setCompareIndices([]);
+    setResultEntryId(null);
+    setResultCachedAt(null);
+    setMatrixCells(null);
 
     try {
-      const imageBytes = await generateImage(prompt, selectedAspectRatio);
-      setImageUrl(`data:image/jpeg;base64,${imageBytes}`);
+      const response: CachedResponseRef = {};
+      const generated = await generateImage(finalPrompt, selectedAspectRatio, imageCount, options, controller.signal, {
+        bypass: bypassCache,
+        ...trackCachedResponse(response, setResultCachedAt),
+      });
+      setImages(generated);
+      setResultAspectRatio(selectedAspectRatio);
+      setResultPrompt(finalPrompt);
+      setFavouriteIndex(generated.length === 1 ? 0 : null);
+      // A cached result keeps the entry of the run that produced it, so edits and analyses link to it.
+      addResponseHistoryEntry({
+        kind: 'generation',
+        prompt: finalPrompt,
+        aspectRatio: selectedAspectRatio,
+        options,
+        images: generated.map((image) => base64ToBlob(image.imageBytes, image.mimeType)),
+      }, response)
+        .then((entry) => setResultEntryId(entry.id))
+        .catch((e) => console.error("Failed to save generation to history", e));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err : 'An unknown error occurred.');
+        setFailedAction('generate');
+      }
     } finally {
-      setLoading(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setLoading(false);
+      }
     }
   };
 
-  const handleDownload = () => {
-    if (!imageUrl) return;
-    const link = document.createElement('a');
-    link.href = imageUrl;
-    link.download = `gemini-generated-${Date.now()}.jpeg`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Generates one image per filled-in template, each saved as its own history entry.
+  const handleGenerateMatrix = async (expansions: TemplateExpansion[], bypassCache: boolean) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setLoading(true);
+    setError(null);
+    setImages([]);
+    setFavouriteIndex(null);
+    setCompareIndices([]);
+    setResultEntryId(null);
+    setResultCachedAt(null);
+    setMatrixCells(null);
+    setMatrixProgress({ settled: 0, total: expansions.length });
+
+    try {
+      const responses = new Map<TemplateExpansion, CachedResponseRef>();
+      const jobs = await runQueue(expansions, async (expansion, signal) => {
+        const response: CachedResponseRef = {};
+        responses.set(expansion, response);
+        // The queue retries and pauses all workers on rate limits, so the service must not.
+        const [generated] = await generateImage(expansion.prompt, selectedAspectRatio, 1, options, signal, {
+          retries: 0,
+          bypass: bypassCache,
+          ...trackCachedResponse(response, setResultCachedAt),
+        });
+        return generated;
+      }, {
+        concurrency: MATRIX_CONCURRENCY,
+        maxRetries: MATRIX_MAX_RETRIES,
+        baseDelayMs: RETRY_BASE_DELAY_MS,
+        signal: controller.signal,
+        isRetryable: isRetryableError,
+        isRateLimited: isRateLimitError,
+      }, (updated) => {
+        const settled = updated.filter((job) => job.status === 'done' || job.status === 'failed').length;
+        setMatrixProgress({ settled, total: updated.length });
+      });
+
+      // Images finished before a cancel are still shown.
+      const finished = jobs.filter((job) => job.status === 'done' && job.result);
+      const cells: MatrixCell[] = finished.map((job) => ({ prompt: job.item.prompt, label: formatTemplateValues(job.item.values) }));
+      setImages(finished.map((job) => job.result!));
+      setMatrixCells(cells);
+      setResultAspectRatio(selectedAspectRatio);
+      setResultPrompt(prompt);
+      setFavouriteIndex(finished.length === 1 ? 0 : null);
+      const failed = jobs.filter((job) => job.status === 'failed');
+      if (failed.length > 0) {
+        setError(`${failed.length} of ${jobs.length} combinations failed: ${failed[0].error}`);
+      }
+
+      // Cells served from the cache keep the entries of the runs that produced them.
+      const saved = await Promise.allSettled(finished.map((job) => addResponseHistoryEntry({
+        kind: 'generation',
+        prompt: job.item.prompt,
+        aspectRatio: selectedAspectRatio,
+        options,
+        images: [base64ToBlob(job.result!.imageBytes, job.result!.mimeType)],
+      }, responses.get(job.item) ?? {})));
+      saved.forEach((result) => {
+        if (result.status === 'rejected') console.error("Failed to save generation to history", result.reason);
+      });
+      setMatrixCells((current) => current === cells
+        ? cells.map((cell, index) => {
+            const result = saved[index];
+            return result.status === 'fulfilled' ? { ...cell, entryId: result.value.id } : cell;
+          })
+        : current);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+      }
+    } finally {
+      setMatrixProgress(null);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setLoading(false);
+      }
+    }
   };
 
+  const handleEdit = async (source: EditSource | null = editSource, currentMask: string | null = mask) => {
+    if (!source) {
+      setError('Please choose an image to edit.');
+      return;
+    }
+    if (!prompt.trim()) {
+      setError('Please describe the edit.');
+      return;
+    }
+    let instruction: string;
+    try {
+      const expansions = expandPrompt();
+      if (expansions.length > 1) {
+        setError('Edits take a single value per placeholder.');
+        return;
+      }
+      instruction = expansions[0].prompt;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The prompt template could not be filled in.');
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setLoading(true);
+    setError(null);
+    setImages([]);
+    setFavouriteIndex(null);
+    setCompareIndices([]);
+    setResultEntryId(null);
+    setResultCachedAt(null);
+    setMatrixCells(null);
+
+    try {
+      const edited = await editImage({
+        image: source.image,
+        mask: currentMask ? dataUrlToImageData(currentMask) : undefined,
+        instruction,
+        width: source.width,
+        height: source.height,
+      }, controller.signal);
+      const aspectRatio = simplifyRatio(source.width, source.height);
+      setImages([edited]);
+      setResultAspectRatio(aspectRatio);
+      setResultPrompt(instruction);
+      setFavouriteIndex(0);
+      addHistoryEntry({
+        kind: 'edit',
+        prompt: instruction,
+        aspectRatio,
+        images: [base64ToBlob(edited.imageBytes, edited.mimeType)],
+        parentId: source.parentId,
+        fileName: source.fileName,
+        sourceImage: base64ToBlob(source.image.data, source.image.mimeType),
+        mask: currentMask ? dataUrlToBlob(currentMask) : undefined,
+      })
+        .then((entry) => setResultEntryId(entry.id))
+        .catch((e) => console.error("Failed to save edit to history", e));
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err : 'An unknown error occurred.');
+        setFailedAction('edit');
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  const startEditing = async (load: () => Promise<EditSource>) => {
+    try {
+      setEditSource(await load());
+      setMask(null);
+      setMode('edit');
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load image for editing", err);
+      setError('This image could not be opened for editing.');
+    }
+  };
+
+  // Continue from a result: the edit is linked to the history entry it came from.
+  const handleEditResult = (index: number) => {
+    const image = images[index];
+    if (!image) return;
+    const parentId = matrixCells ? matrixCells[index]?.entryId : resultEntryId;
+    startEditing(() => loadEditSource(base64ToBlob(image.imageBytes, image.mimeType), { parentId: parentId ?? undefined }));
+  };
+
+  const handleAnalyzeResult = (index: number) => {
+    const image = images[index];
+    if (!image) return;
+    const cell = matrixCells?.[index];
+    sendToAnalyzer({
+      blob: base64ToBlob(image.imageBytes, image.mimeType),
+      fileName: getFileName(image, index, Date.now()),
+      prompt: cell?.prompt ?? resultPrompt,
+      historyEntryId: (matrixCells ? cell?.entryId : resultEntryId) ?? undefined,
+    });
+  };
+
+  const handleEditFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      startEditing(() => loadEditSource(file, { fileName: file.name }));
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setLoading(false);
+  };
+
+  const getBaseName = (index: number, timestamp: number) => `gemini-generated-${timestamp}-${index + 1}`;
+
+  const getFileName = (image: GeneratedImage, index: number, timestamp: number) =>
+    `${getBaseName(index, timestamp)}.${extensionForMimeType(image.mimeType)}`;
+
+  const handleDownload = async (index: number) => {
+    const image = images[index];
+    if (!image) return;
+    try {
+      const loaded = await loadImage(toDataUrl(image));
+      setExportTarget({
+        source: { image: loaded, width: loaded.naturalWidth, height: loaded.naturalHeight },
+        baseName: getBaseName(index, Date.now()),
+        description: matrixCells?.[index]?.prompt ?? resultPrompt,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred during download preparation.');
+    }
+  };
+
+  const handleDownloadAll = () => {
+    if (images.length === 0) return;
+    const timestamp = Date.now();
+    const zip = createZip(images.map((image, index) => ({
+      name: getFileName(image, index, timestamp),
+      data: base64ToBytes(image.imageBytes),
+    })));
+    downloadBlob(zip, `gemini-generated-${timestamp}.zip`);
+  };
+
+  const toggleCompare = (index: number) => {
+    setCompareIndices(prev => {
+      if (prev.includes(index)) return prev.filter(i => i !== index);
+      // Keep the most recent two selections.
+      return [...prev, index].slice(-2);
+    });
+  };
+
+  const tileAspectRatio = resultAspectRatio.replace(':', ' / ');
+  const downloadTarget = favouriteIndex ?? 0;
+  const isEditing = mode === 'edit';
+
+  const modeButtonClass = (buttonMode: GeneratorMode) => `flex-1 flex items-center justify-center gap-2 px-4 py-2 text-sm font-semibold rounded-md transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500 ${mode === buttonMode ? 'bg-indigo-600 text-white shadow' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`;
+
   return (
     <div className="space-y-6">
+      <div className="flex gap-2">
+        <button onClick={() => setMode('generate')} className={modeButtonClass('generate')} disabled={loading}><SparklesIcon className="w-5 h-5"/>Text to Image</button>
+        <button onClick={() => setMode('edit')} className={modeButtonClass('edit')} disabled={loading}><PencilSquareIcon className="w-5 h-5"/>Edit Image</button>
+      </div>
+
+      {isEditing && (
+        <div className="p-4 bg-gray-700/50 rounded-lg border border-gray-600 space-y-3">
+          <input type="file" ref={editFileInputRef} onChange={handleEditFileChange} accept="image/*" className="hidden" />
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-gray-300">
+              {editSource ? (editSource.fileName ?? 'Generated image') : 'Image to Edit'}
+            </h3>
+            <button onClick={() => editFileInputRef.current?.click()} disabled={loading} className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 disabled:opacity-50 transition-colors">
+              <PhotoIcon className="w-4 h-4" />
+              {editSource ? 'Change Image' : 'Upload Image'}
+            </button>
+          </div>
+          {editSource ? (
+            <MaskPainter
+              imageUrl={`data:${editSource.image.mimeType};base64,${editSource.image.data}`}
+              width={editSource.width}
+              height={editSource.height}
+              mask={mask}
+              onChange={setMask}
+              disabled={loading}
+            />
+          ) : (
+            <p className="text-sm text-gray-400">Upload an image, or choose <span className="font-semibold">Edit</span> on a generated result.</p>
+          )}
+        </div>
+      )}
+
+      <PromptLibraryPanel prompt={prompt} onSelect={setPrompt} disabled={loading} />
+
       <div className="space-y-2">
-        <label htmlFor="prompt" className="block text-sm font-medium text-gray-300">
-          Image Prompt
-        </label>
+        <div className="flex items-center justify-between">
+          <label htmlFor="prompt" className="block text-sm font-medium text-gray-300">
+            {isEditing ? 'Edit Instruction' : 'Image Prompt'}
+          </label>
+          {!isEditing && (
+            <button
+              onClick={handleEnhancePrompt}
+              disabled={loading || enhancing || !prompt.trim()}
+              className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 disabled:opacity-50 transition-colors"
+              title="Expand the prompt into a detailed description"
+            >
+              {enhancing ? <Spinner className="w-4 h-4" /> : <SparklesIcon className="w-4 h-4" />}
+              {enhancing ? 'Enhancing...' : 'Enhance Prompt'}
+            </button>
+          )}
+        </div>
         <textarea
           id="prompt"
           value={prompt}
           onChange={(e) => setPrompt(e.target.value)}
-          placeholder="e.g., A majestic lion wearing a crown, cinematic lighting"
+          placeholder={isEditing ? 'e.g., Replace the sky with a dramatic sunset' : 'e.g., A majestic lion wearing a crown, cinematic lighting'}
           className="w-full h-24 p-3 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
           disabled={loading}
         />
       </div>
 
-      <div>
-        <label className="block text-sm font-medium text-gray-300 mb-2">
-          Aspect Ratio
-        </label>
-        <div className="grid grid-cols-5 gap-2">
-          {generatorAspectRatios.map((ratio) => (
-            <button
-              key={ratio}
-              onClick={() => setSelectedAspectRatio(ratio)}
-              className={`py-2 text-sm font-semibold rounded-md transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500 ${
-                selectedAspectRatio === ratio
-                  ? 'bg-indigo-600 text-white shadow'
-                  : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
-              }`}
-              disabled={loading}
-            >
-              {ratio}
-            </button>
-          ))}
+      {enhancement && !isEditing && (
+        <PromptDiffView
+          original={enhancement.original}
+          enhanced={enhancement.enhanced}
+          onAccept={handleAcceptEnhancement}
+          onDiscard={() => setEnhancement(null)}
+        />
+      )}
+
+      {templateVariables.length > 0 && (
+        <TemplateVariablesPanel
+          variables={templateVariables}
+          values={templateValues}
+          onChange={handleTemplateValueChange}
+          matrixSize={matrixSize}
+          allowMatrix={!isEditing}
+          disabled={loading}
+        />
+      )}
+
+      {!isEditing && (
+        <>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Aspect Ratio
+            </label>
+            <div className="grid grid-cols-5 gap-2">
+              {generatorAspectRatios.map((ratio) => (
+                <button
+                  key={ratio}
+                  onClick={() => setSelectedAspectRatio(ratio)}
+                  className={`py-2 text-sm font-semibold rounded-md transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500 ${
+                    selectedAspectRatio === ratio
+                      ? 'bg-indigo-600 text-white shadow'
+                      : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                  }`}
+                  disabled={loading}
+                >
+                  {ratio}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Variants
+            </label>
+            <div className="grid grid-cols-4 gap-2">
+              {imageCountOptions.map((count) => (
+                <button
+                  key={count}
+                  onClick={() => setImageCount(count)}
+                  className={`py-2 text-sm font-semibold rounded-md transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500 ${
+                    imageCount === count
+                      ? 'bg-indigo-600 text-white shadow'
+                      : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                  }`}
+                  disabled={loading}
+                >
+                  {count}
+                </button>
+              ))}
+            </div>
+          </div>
         </div>
-      </div>
+
+        <AdvancedOptionsPanel options={options} onChange={handleOptionsChange} disabled={loading} />
+        </>
+      )}
 
       <div className="flex flex-col sm:flex-row gap-4">
         <button
-          onClick={handleGenerate}
-          disabled={loading || !prompt}
+          onClick={() => isEditing ? handleEdit() : handleGenerate()}
+          disabled={loading || !prompt || (isEditing && !editSource)}
           className="w-full flex-1 flex items-center justify-center bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-800 disabled:cursor-not-allowed transition-colors duration-300"
         >
           {loading ? (
               <>
                   <Spinner className="w-5 h-5 mr-2" />
-                  Generating...
+                  {isEditing ? 'Editing...' : matrixProgress ? `Generating ${matrixProgress.settled} of ${matrixProgress.total}...` : 'Generating...'}
+              </>
+          ) : isEditing ? (
+              <>
+                  <PencilSquareIcon className="w-5 h-5 mr-2"/>
+                  {mask ? 'Edit Masked Area' : 'Apply Edit'}
               </>
           ) : (
               <>
                   <SparklesIcon className="w-5 h-5 mr-2"/>
-                  Generate Image
+                  {matrixSize > 1 ? `Generate ${matrixSize} Combinations` : imageCount === 1 ? 'Generate Image' : `Generate ${imageCount} Images`}
               </>
           )}
         </button>
-        {imageUrl && !loading && (
+        {loading && (
+          <button
+            onClick={handleCancel}
+            className="w-full sm:w-auto flex items-center justify-center bg-red-600/70 text-white font-bold py-3 px-4 rounded-lg hover:bg-red-600 transition-colors duration-300"
+            >
+            <StopIcon className="w-5 h-5 mr-2" />
+            Cancel
+          </button>
+        )}
+        {images.length > 0 && !loading && (
+          <button
+            onClick={() => handleDownload(downloadTarget)}
+            className="w-full sm:w-auto flex items-center justify-center bg-gray-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-gray-700 transition-colors duration-300"
+            >
+            <ArrowDownTrayIcon className="w-5 h-5 mr-2" />
+            {images.length > 1 && favouriteIndex !== null ? 'Download Favourite' : 'Download'}
+          </button>
+        )}
+        {images.length > 1 && !loading && (
           <button
-            onClick={handleDownload}
+            onClick={handleDownloadAll}
             className="w-full sm:w-auto flex items-center justify-center bg-gray-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-gray-700 transition-colors duration-300"
             >
             <ArrowDownTrayIcon className="w-5 h-5 mr-2" />
-            Download
+            Download All (.zip)
           </button>
         )}
       </div>
 
 
-      {error && <div className="text-red-400 bg-red-900/50 p-3 rounded-lg text-center">{error}</div>}
+      {error && (
+        <ErrorNotice
+          error={error}
+          onRetry={failedAction && !loading ? { generate: () => handleGenerate(), edit: () => handleEdit(), enhance: handleEnhancePrompt }[failedAction] : undefined}
+        />
+      )}
 
-      <div className="w-full aspect-square bg-gray-700/50 rounded-lg flex items-center justify-center border-2 border-dashed border-gray-600 overflow-hidden">
-        {loading && <Spinner className="w-12 h-12 text-gray-400" />}
-        {!loading && imageUrl && (
-          <img src={imageUrl} alt="Generated" className="w-full h-full object-contain" />
-        )}
-        {!loading && !imageUrl && (
-          <div className="text-center text-gray-500">
-            <SparklesIcon className="w-16 h-16 mx-auto mb-2"/>
-            <p>Your generated image will appear here.</p>
+      {compareIndices.length === 2 && (
+        <div className="p-4 bg-gray-700/50 rounded-lg border border-gray-600 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-indigo-400">Compare</h3>
+            <button
+              onClick={() => setCompareIndices([])}
+              className="p-1 rounded-full text-gray-300 hover:text-white hover:bg-gray-600 transition-colors"
+              aria-label="Close comparison"
+            >
+              <XMarkIcon className="w-5 h-5" />
+            </button>
           </div>
-        )}
-      </div>
+          <div className="grid grid-cols-2 gap-2">
+            {compareIndices.map((index) => (
+              <figure key={index} className="space-y-1">
+                <img src={toDataUrl(images[index])} alt={`Variant ${index + 1}`} className="w-full object-contain rounded-md bg-gray-800" style={{ aspectRatio: tileAspectRatio }} />
+                <figcaption className="text-xs text-center text-gray-400">Variant {index + 1}</figcaption>
+              </figure>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {images.length > 0 && !loading && resultCachedAt !== null && (
+        <div className="flex items-center justify-end gap-2 text-xs text-gray-400">
+          Same prompt, seed and options as before
+          <CachedBadge storedAt={resultCachedAt} onRefresh={() => handleGenerate(true)} />
+        </div>
+      )}
+
+      {images.length > 0 && !loading ? (
+        <div className={`grid gap-2 ${getGridColumnsClass(images.length, resultAspectRatio)}`}>
+          {images.map((image, index) => {
+            const isFavourite = favouriteIndex === index;
+            const isCompared = compareIndices.includes(index);
+            return (
+              <div
+                key={index}
+                style={{ aspectRatio: tileAspectRatio }}
+                className={`relative group bg-gray-700/50 rounded-lg overflow-hidden border-2 transition-colors ${isFavourite ? 'border-indigo-500' : 'border-gray-600'}`}
+              >
+                <img src={toDataUrl(image)} alt={`Generated variant ${index + 1}`} className="w-full h-full object-contain" />
+                {matrixCells?.[index] && (
+                  <div className="absolute bottom-0 inset-x-0 px-2 py-1 bg-gray-900/70 text-xs text-gray-200 truncate" title={matrixCells[index].prompt}>
+                    {matrixCells[index].label}
+                  </div>
+                )}
+                <div className="absolute top-2 right-2 flex gap-1">
+                  <button
+                    onClick={() => handleAnalyzeResult(index)}
+                    className="p-1.5 rounded-full bg-gray-900/70 text-gray-300 hover:text-white transition-colors"
+                    aria-label={`Analyze variant ${index + 1}`}
+                    title="Analyze this image"
+                  >
+                    <DocumentMagnifyingGlassIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleEditResult(index)}
+                    className="p-1.5 rounded-full bg-gray-900/70 text-gray-300 hover:text-white transition-colors"
+                    aria-label={`Edit variant ${index + 1}`}
+                    title="Edit this image"
+                  >
+                    <PencilSquareIcon className="w-4 h-4" />
+                  </button>
+                  {images.length > 1 && (
+                    <>
+                      <button
+                        onClick={() => setFavouriteIndex(isFavourite ? null : index)}
+                        className={`p-1.5 rounded-full transition-colors ${isFavourite ? 'bg-indigo-600 text-white' : 'bg-gray-900/70 text-gray-300 hover:text-white'}`}
+                        aria-label={isFavourite ? 'Unmark favourite' : 'Mark as favourite'}
+                      >
+                        <StarIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => toggleCompare(index)}
+                        className={`p-1.5 rounded-full transition-colors ${isCompared ? 'bg-indigo-600 text-white' : 'bg-gray-900/70 text-gray-300 hover:text-white'}`}
+                        aria-label={isCompared ? 'Remove from comparison' : 'Add to comparison'}
+                      >
+                        <ViewColumnsIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDownload(index)}
+                        className="p-1.5 rounded-full bg-gray-900/70 text-gray-300 hover:text-white transition-colors"
+                        aria-label={`Download variant ${index + 1}`}
+                      >
+                        <ArrowDownTrayIcon className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="w-full aspect-square bg-gray-700/50 rounded-lg flex items-center justify-center border-2 border-dashed border-gray-600 overflow-hidden">
+          {loading && <Spinner className="w-12 h-12 text-gray-400" />}
+          {!loading && (
+            <div className="text-center text-gray-500">
+              <SparklesIcon className="w-16 h-16 mx-auto mb-2"/>
+              <p>{isEditing ? 'Your edited image will appear here.' : 'Your generated images will appear here.'}</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {exportTarget && (
+        <ExportDialog
+          source={exportTarget.source}
+          baseName={exportTarget.baseName}
+          description={exportTarget.description || undefined}
+          descriptionLabel="prompt"
+          onClose={() => setExportTarget(null)}
+        />
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,185 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowPathIcon, PaintBrushIcon } from './Icons';
+
+interface MaskPainterProps {
+  imageUrl: string;
+  /** Natural size of the image; the mask is produced at the same size. */
+  width: number;
+  height: number;
+  /** PNG data URL, white where the image may change and black elsewhere. */
+  mask: string | null;
+  onChange: (mask: string | null) => void;
+  disabled?: boolean;
+}
+
+// Strokes are shown in indigo over the image and exported as white on black.
+const PAINT_COLOR = [129, 140, 248] as const;
+
+const toMaskDataUrl = (paint: HTMLCanvasElement): string => {
+  const white = document.createElement('canvas');
+  white.width = paint.width;
+  white.height = paint.height;
+  const whiteCtx = white.getContext('2d')!;
+  whiteCtx.drawImage(paint, 0, 0);
+  whiteCtx.globalCompositeOperation = 'source-in';
+  whiteCtx.fillStyle = '#ffffff';
+  whiteCtx.fillRect(0, 0, white.width, white.height);
+
+  const mask = document.createElement('canvas');
+  mask.width = paint.width;
+  mask.height = paint.height;
+  const maskCtx = mask.getContext('2d')!;
+  maskCtx.fillStyle = '#000000';
+  maskCtx.fillRect(0, 0, mask.width, mask.height);
+  maskCtx.drawImage(white, 0, 0);
+  return mask.toDataURL('image/png');
+};
+
+const drawMask = (paint: HTMLCanvasElement, mask: HTMLImageElement) => {
+  const ctx = paint.getContext('2d')!;
+  ctx.clearRect(0, 0, paint.width, paint.height);
+  ctx.drawImage(mask, 0, 0, paint.width, paint.height);
+  const pixels = ctx.getImageData(0, 0, paint.width, paint.height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    // Use the mask's brightness as the stroke's opacity.
+    pixels.data[i + 3] = pixels.data[i];
+    pixels.data[i] = PAINT_COLOR[0];
+    pixels.data[i + 1] = PAINT_COLOR[1];
+    pixels.data[i + 2] = PAINT_COLOR[2];
+  }
+  ctx.putImageData(pixels, 0, 0);
+};
+
+/**
+ * Shows an image with a brush for painting the region an edit may change.
+ */
+export const MaskPainter: React.FC<MaskPainterProps> = ({ imageUrl, width, height, mask, onChange, disabled }) => {
+  const [brushSize, setBrushSize] = useState<number>(32);
+  const [erasing, setErasing] = useState<boolean>(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  // The mask this component last reported, so prop updates it caused are not redrawn.
+  const emittedMaskRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || mask === emittedMaskRef.current) return;
+    emittedMaskRef.current = mask;
+    if (!mask) {
+      canvas.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+      return;
+    }
+    const image = new Image();
+    image.onload = () => drawMask(canvas, image);
+    image.src = mask;
+  }, [mask, width, height]);
+
+  const toCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * width,
+      y: ((event.clientY - rect.top) / rect.height) * height,
+    };
+  };
+
+  const strokeTo = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const point = toCanvasPoint(event);
+    const from = lastPointRef.current ?? point;
+    // Brush size is in screen pixels; scale it to the image.
+    ctx.lineWidth = brushSize * (width / canvas.getBoundingClientRect().width);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = `rgb(${PAINT_COLOR.join(',')})`;
+    ctx.globalCompositeOperation = erasing ? 'destination-out' : 'source-over';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    lastPointRef.current = null;
+    strokeTo(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lastPointRef.current) strokeTo(event);
+  };
+
+  const handlePointerUp = () => {
+    const canvas = canvasRef.current;
+    if (!lastPointRef.current || !canvas) return;
+    lastPointRef.current = null;
+    const ctx = canvas.getContext('2d')!;
+    const alpha = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+    let painted = false;
+    for (let i = 3; i < alpha.length; i += 4) {
+      if (alpha[i] > 0) {
+        painted = true;
+        break;
+      }
+    }
+    const next = painted ? toMaskDataUrl(canvas) : null;
+    emittedMaskRef.current = next;
+    onChange(next);
+  };
+
+  const handleClear = () => {
+    canvasRef.current?.getContext('2d')?.clearRect(0, 0, width, height);
+    emittedMaskRef.current = null;
+    onChange(null);
+  };
+
+  const toolButtonClass = (active: boolean) => `px-3 py-1 text-sm font-semibold rounded-full transition-colors ${active ? 'bg-indigo-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-center">
+        <div className="relative inline-block max-w-full">
+          <img src={imageUrl} alt="Image to edit" className="block max-w-full max-h-[32rem] rounded-md" draggable={false} />
+          <canvas
+            ref={canvasRef}
+            width={width}
+            height={height}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className={`absolute inset-0 w-full h-full opacity-60 touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <PaintBrushIcon className="w-5 h-5 text-gray-400" />
+        <button onClick={() => setErasing(false)} className={toolButtonClass(!erasing)} disabled={disabled}>Paint</button>
+        <button onClick={() => setErasing(true)} className={toolButtonClass(erasing)} disabled={disabled}>Erase</button>
+        <label className="flex items-center gap-2 text-sm text-gray-300 flex-grow">
+          Brush
+          <input
+            type="range"
+            min="4"
+            max="128"
+            value={brushSize}
+            onChange={(e) => setBrushSize(e.target.valueAsNumber)}
+            className="flex-grow h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            disabled={disabled}
+          />
+          <span className="font-mono w-10 text-right">{brushSize}px</span>
+        </label>
+        <button onClick={handleClear} disabled={disabled || !mask} className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 disabled:opacity-50 transition-colors">
+          <ArrowPathIcon className="w-4 h-4" />
+          Clear Mask
+        </button>
+      </div>
+      <p className="text-xs text-gray-400">
+        {mask ? 'Only the painted area will be changed.' : 'Paint over the area to change, or leave the mask empty to edit the whole image.'}
+      </p>
+    </div>
+  );
+};
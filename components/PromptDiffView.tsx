@@ -0,0 +1,45 @@
+import React, { useMemo } from 'react';
+import { diffWords } from '../utils/textDiff';
+import { SparklesIcon } from './Icons';
+
+interface PromptDiffViewProps {
+  original: string;
+  enhanced: string;
+  onAccept: () => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Shows an enhanced prompt as a word diff against the original, to be accepted or discarded.
+ */
+export const PromptDiffView: React.FC<PromptDiffViewProps> = ({ original, enhanced, onAccept, onDiscard }) => {
+  const segments = useMemo(() => diffWords(original, enhanced), [original, enhanced]);
+
+  return (
+    <div className="p-4 bg-gray-700/50 rounded-lg border border-indigo-500/50 space-y-3">
+      <h3 className="text-sm font-semibold text-indigo-400 flex items-center gap-2">
+        <SparklesIcon className="w-4 h-4" />
+        Enhanced Prompt
+      </h3>
+      <p className="text-sm text-gray-300 whitespace-pre-wrap leading-relaxed">
+        {segments.map((segment, index) => {
+          if (segment.type === 'added') {
+            return <ins key={index} className="no-underline bg-green-900/60 text-green-200 rounded-sm">{segment.text}</ins>;
+          }
+          if (segment.type === 'removed') {
+            return <del key={index} className="bg-red-900/50 text-red-300 rounded-sm">{segment.text}</del>;
+          }
+          return <span key={index}>{segment.text}</span>;
+        })}
+      </p>
+      <div className="flex justify-end gap-2">
+        <button onClick={onDiscard} className="px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 transition-colors">
+          Keep Original
+        </button>
+        <button onClick={onAccept} className="px-3 py-1 text-sm font-semibold rounded-full bg-indigo-600 text-white hover:bg-indigo-700 transition-colors">
+          Use Enhanced Prompt
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,213 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { SavedPrompt } from '../types';
+import { getTemplateVariables, parseTags } from '../utils/promptTemplate';
+import { downloadBlob } from '../utils/download';
+import { BookmarkIcon, MagnifyingGlassIcon, TrashIcon, ArrowDownTrayIcon, FolderIcon } from './Icons';
+
+interface PromptLibraryPanelProps {
+  prompt: string;
+  onSelect: (text: string) => void;
+  disabled?: boolean;
+}
+
+const LIBRARY_STORAGE_KEY = 'promptLibrary';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Entries come from localStorage or an imported file, so tags may be missing or malformed.
+const isSavedPrompt = (value: unknown): value is Pick<SavedPrompt, 'name' | 'text'> & Partial<SavedPrompt> =>
+  isRecord(value) && typeof value.name === 'string' && typeof value.text === 'string'
+  && (value.tags === undefined || (Array.isArray(value.tags) && value.tags.every((tag) => typeof tag === 'string')));
+
+/**
+ * Saved generator prompts and templates, searchable by name, text and tag.
+ * The library can be exported to and imported from JSON to share it with a team.
+ */
+export const PromptLibraryPanel: React.FC<PromptLibraryPanelProps> = ({ prompt, onSelect, disabled }) => {
+  const [savedPrompts, setSavedPrompts] = useState<SavedPrompt[]>([]);
+  const [search, setSearch] = useState<string>('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [name, setName] = useState<string>('');
+  const [tags, setTags] = useState<string>('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    try {
+      const storedPrompts = localStorage.getItem(LIBRARY_STORAGE_KEY);
+      if (storedPrompts) {
+        const parsed = JSON.parse(storedPrompts);
+        if (Array.isArray(parsed)) {
+          setSavedPrompts(parsed.filter(isSavedPrompt).map((entry) => ({ ...entry, tags: entry.tags ?? [] }) as SavedPrompt));
+        }
+      }
+    } catch (e) {
+      console.error("Failed to parse prompt library from localStorage", e);
+    }
+  }, []);
+
+  const saveLibrary = (prompts: SavedPrompt[]) => {
+    setSavedPrompts(prompts);
+    localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(prompts));
+  };
+
+  const allTags = useMemo(() => [...new Set(savedPrompts.flatMap((saved) => saved.tags))].sort(), [savedPrompts]);
+
+  const filteredPrompts = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return savedPrompts.filter((saved) => {
+      if (tagFilter && !saved.tags.includes(tagFilter)) return false;
+      if (!query) return true;
+      return [saved.name, saved.text, ...saved.tags].some((text) => text.toLowerCase().includes(query));
+    });
+  }, [savedPrompts, search, tagFilter]);
+
+  const isSaved = savedPrompts.some((saved) => saved.text === prompt.trim());
+
+  const handleSave = () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setSaveError('Please enter a name for the prompt.');
+      return;
+    }
+    if (savedPrompts.some((saved) => saved.name.toLowerCase() === trimmedName.toLowerCase())) {
+      setSaveError('A prompt with this name already exists.');
+      return;
+    }
+    saveLibrary([...savedPrompts, { id: crypto.randomUUID(), name: trimmedName, text: prompt.trim(), tags: parseTags(tags), createdAt: Date.now() }]
+      .sort((a, b) => a.name.localeCompare(b.name)));
+    setName('');
+    setTags('');
+    setSaveError(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(savedPrompts, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `prompt-library-${Date.now()}.json`);
+  };
+
+  // Merges an exported library into this one, skipping prompts that are already saved.
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = JSON.parse(await file.text());
+      if (!Array.isArray(parsed)) throw new Error('Not a prompt library.');
+      const names = new Set(savedPrompts.map((saved) => saved.name.toLowerCase()));
+      const texts = new Set(savedPrompts.map((saved) => saved.text));
+      const imported: SavedPrompt[] = [];
+      parsed.filter(isSavedPrompt).forEach((entry) => {
+        if (names.has(entry.name.toLowerCase()) || texts.has(entry.text)) return;
+        names.add(entry.name.toLowerCase());
+        texts.add(entry.text);
+        imported.push({
+          id: crypto.randomUUID(),
+          name: entry.name,
+          text: entry.text,
+          tags: entry.tags ? parseTags(entry.tags.join(',')) : [],
+          createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : Date.now(),
+        });
+      });
+      saveLibrary([...savedPrompts, ...imported].sort((a, b) => a.name.localeCompare(b.name)));
+      setImportMessage(imported.length === 1 ? 'Imported 1 prompt.' : `Imported ${imported.length} prompts.`);
+    } catch (err) {
+      console.error("Failed to import prompt library", err);
+      setImportMessage('This file is not an exported prompt library.');
+    }
+  };
+
+  return (
+    <details>
+      <summary className="text-sm font-medium text-gray-300 cursor-pointer hover:text-white transition-colors flex items-center gap-2">
+        <BookmarkIcon className="w-5 h-5" />
+        Prompt Library
+        {savedPrompts.length > 0 && <span className="text-xs text-gray-500">({savedPrompts.length})</span>}
+      </summary>
+      <div className="mt-3 bg-gray-700/50 p-4 rounded-lg space-y-4">
+        <p className="text-xs text-gray-400">
+          Use <code className="text-indigo-300">{'{{subject}}'}</code>-style placeholders to save a template; each one gets its own field below the prompt.
+        </p>
+        <div className="flex gap-2">
+          <div className="relative flex-grow">
+            <MagnifyingGlassIcon className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search prompts and tags"
+              className="w-full bg-gray-700 border border-gray-600 rounded-md pl-9 pr-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          <input type="file" ref={importInputRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+          <button onClick={() => importInputRef.current?.click()} className="p-2 rounded-md bg-gray-600 text-gray-300 hover:bg-gray-500 hover:text-white transition-colors" aria-label="Import prompts" title="Import prompts from JSON">
+            <FolderIcon className="w-5 h-5" />
+          </button>
+          <button onClick={handleExport} disabled={savedPrompts.length === 0} className="p-2 rounded-md bg-gray-600 text-gray-300 hover:bg-gray-500 hover:text-white disabled:opacity-50 transition-colors" aria-label="Export prompts" title="Export prompts as JSON">
+            <ArrowDownTrayIcon className="w-5 h-5" />
+          </button>
+        </div>
+        {importMessage && <p className="text-xs text-gray-400">{importMessage}</p>}
+
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {allTags.map((tag) => (
+              <button
+                key={tag}
+                onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                className={`px-2.5 py-0.5 text-xs font-medium rounded-full transition-colors ${tagFilter === tag ? 'bg-indigo-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {savedPrompts.length === 0 ? (
+          <p className="text-sm text-gray-400">No saved prompts yet.</p>
+        ) : filteredPrompts.length === 0 ? (
+          <p className="text-sm text-gray-400">No prompts match your search.</p>
+        ) : (
+          <ul className="space-y-2 max-h-64 overflow-y-auto pr-1">
+            {filteredPrompts.map((saved) => {
+              const variables = getTemplateVariables(saved.text);
+              const isCurrent = saved.text === prompt.trim();
+              return (
+                <li key={saved.id} className={`flex items-start gap-2 p-2 rounded-md border transition-colors ${isCurrent ? 'border-indigo-500 bg-indigo-900/20' : 'border-gray-600 bg-gray-800/50'}`}>
+                  <button onClick={() => onSelect(saved.text)} disabled={disabled} className="flex-grow text-left min-w-0" title={saved.text}>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-semibold text-gray-200 truncate">{saved.name}</span>
+                      {variables.length > 0 && (
+                        <span className="px-1.5 py-0.5 text-[10px] font-semibold uppercase rounded bg-indigo-600/40 text-indigo-200">Template</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-400 truncate">{saved.text}</p>
+                    {saved.tags.length > 0 && <p className="text-xs text-indigo-300 truncate">{saved.tags.map((tag) => `#${tag}`).join(' ')}</p>}
+                  </button>
+                  <button onClick={() => saveLibrary(savedPrompts.filter((p) => p.id !== saved.id))} className="p-1 rounded-full text-gray-400 hover:text-white hover:bg-gray-600 transition-colors" aria-label={`Delete prompt ${saved.name}`}>
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {prompt.trim() && !isSaved && (
+          <div className="space-y-2 pt-2 border-t border-gray-600/50">
+            <div className="flex gap-2 items-start">
+              <div className="flex-grow grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <input type="text" value={name} onChange={(e) => { setName(e.target.value); setSaveError(null); }} placeholder="Prompt name" className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500" />
+                <input type="text" value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Tags, comma separated" className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500" />
+              </div>
+              <button onClick={handleSave} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-indigo-700 transition-colors text-sm">Save Prompt</button>
+            </div>
+            {saveError && <p className="text-red-400 text-xs">{saveError}</p>}
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,70 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { getActiveProviderId, setActiveProvider, getMockProviderOptions, setMockProviderOptions, subscribeToProvider } from '../services/geminiService';
+import { getApiKeyStatus, subscribeToApiKey } from '../services/apiKeyStore';
+import { ProviderId } from '../services/imageProvider';
+import { MockProviderOptions } from '../services/mockProvider';
+
+const providerLabels: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  mock: 'Local mock',
+};
+
+export const ProviderSwitcher: React.FC = () => {
+  // Saving or clearing a key in Settings can switch the backend.
+  const providerId = useSyncExternalStore(subscribeToProvider, getActiveProviderId);
+  const [mockOptions, setMockOptions] = useState<MockProviderOptions>(getMockProviderOptions());
+  const keyStatus = useSyncExternalStore(subscribeToApiKey, getApiKeyStatus);
+
+  const handleMockOptionChange = (option: keyof MockProviderOptions, value: number) => {
+    if (Number.isNaN(value)) return;
+    setMockProviderOptions({ [option]: value });
+    setMockOptions(getMockProviderOptions());
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 text-xs text-gray-400">
+      <label className="flex items-center gap-2">
+        <span>Backend</span>
+        <select
+          value={providerId}
+          onChange={(e) => setActiveProvider(e.target.value as ProviderId)}
+          className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          {(Object.keys(providerLabels) as ProviderId[]).map((id) => (
+            <option key={id} value={id} disabled={id === 'gemini' && keyStatus === 'missing'}>
+              {providerLabels[id]}{id === 'gemini' && keyStatus === 'missing' ? ' (no API key)' : ''}{id === 'gemini' && keyStatus === 'locked' ? ' (locked)' : ''}
+            </option>
+          ))}
+        </select>
+      </label>
+      {providerId === 'mock' && (
+        <>
+          <label className="flex items-center gap-2">
+            <span>Latency (ms)</span>
+            <input
+              type="number"
+              min="0"
+              step="100"
+              value={mockOptions.latencyMs}
+              onChange={(e) => handleMockOptionChange('latencyMs', e.target.valueAsNumber)}
+              className="w-20 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <span>Failure rate</span>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.1"
+              value={mockOptions.failureRate}
+              onChange={(e) => handleMockOptionChange('failureRate', e.target.valueAsNumber)}
+              className="w-24 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            />
+            <span className="font-mono">{Math.round(mockOptions.failureRate * 100)}%</span>
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
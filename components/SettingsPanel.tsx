@@ -0,0 +1,254 @@
+import React, { useState, useSyncExternalStore, useRef, useEffect } from 'react';
+import { AnalysisModel, analysisModels, ImagenModel, imagenModels, StudioSettings } from '../types';
+import { clearApiKey, getApiKeyStatus, isApiKeyEncrypted, lockApiKey, saveApiKey, subscribeToApiKey, unlockApiKey, getApiKey } from '../services/apiKeyStore';
+import { getSettings, updateSettings } from '../services/settingsService';
+import { getActiveProviderId, setActiveProvider, validateApiKey } from '../services/geminiService';
+import { clearResponseCache, getResponseCacheStats, ResponseCacheStats } from '../services/responseCache';
+import { isAbortError } from '../utils/abort';
+import { formatBytes } from '../utils/files';
+import { Spinner } from './Spinner';
+
+const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+type Validation = { state: 'checking' } | { state: 'valid' } | { state: 'invalid'; message: string };
+
+const ValidationMessage: React.FC<{ validation: Validation | null }> = ({ validation }) => {
+  if (!validation) return null;
+  if (validation.state === 'checking') {
+    return <p className="flex items-center gap-2 text-xs text-gray-400"><Spinner className="w-3 h-3" />Checking the key...</p>;
+  }
+  if (validation.state === 'valid') {
+    return <p className="text-xs text-green-400">The Gemini API accepted this key.</p>;
+  }
+  return <p className="text-xs text-red-400">{validation.message}</p>;
+};
+
+export const SettingsPanel: React.FC = () => {
+  const keyStatus = useSyncExternalStore(subscribeToApiKey, getApiKeyStatus);
+  const [settings, setSettings] = useState<StudioSettings>(getSettings());
+  const [newKey, setNewKey] = useState<string>('');
+  const [showKey, setShowKey] = useState<boolean>(false);
+  const [encrypt, setEncrypt] = useState<boolean>(false);
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [passphraseConfirmation, setPassphraseConfirmation] = useState<string>('');
+  const [unlockPassphrase, setUnlockPassphrase] = useState<string>('');
+  const [keyError, setKeyError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [validation, setValidation] = useState<Validation | null>(null);
+  const validationControllerRef = useRef<AbortController | null>(null);
+  const [cacheStats, setCacheStats] = useState<ResponseCacheStats | null>(null);
+
+  useEffect(() => () => validationControllerRef.current?.abort(), []);
+
+  const refreshCacheStats = () => {
+    getResponseCacheStats()
+      .then(setCacheStats)
+      .catch((e) => console.error("Failed to read response cache stats", e));
+  };
+
+  useEffect(refreshCacheStats, []);
+
+  const handleClearCache = async () => {
+    try {
+      await clearResponseCache();
+    } catch (e) {
+      console.error("Failed to clear the response cache", e);
+    }
+    refreshCacheStats();
+  };
+
+  const handleSettingChange = <K extends keyof StudioSettings>(key: K, value: StudioSettings[K]) => {
+    setSettings(updateSettings({ [key]: value }));
+  };
+
+  const runValidation = async (key: string) => {
+    validationControllerRef.current?.abort();
+    const controller = new AbortController();
+    validationControllerRef.current = controller;
+    setValidation({ state: 'checking' });
+    try {
+      await validateApiKey(key, controller.signal);
+      setValidation({ state: 'valid' });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setValidation({ state: 'invalid', message: err instanceof Error ? err.message : 'The key could not be checked.' });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!newKey.trim()) {
+      setKeyError('Please enter an API key.');
+      return;
+    }
+    if (encrypt) {
+      if (!passphrase) {
+        setKeyError('Please enter a passphrase, or turn off encryption.');
+        return;
+      }
+      if (passphrase !== passphraseConfirmation) {
+        setKeyError('The passphrases do not match.');
+        return;
+      }
+    }
+    setBusy(true);
+    setKeyError(null);
+    try {
+      await saveApiKey(newKey, encrypt ? passphrase : undefined);
+      // A user who adds a key wants to use it, so leave the offline backend.
+      setActiveProvider('gemini');
+      setNewKey('');
+      setPassphrase('');
+      setPassphraseConfirmation('');
+    } catch (err) {
+      setKeyError(err instanceof Error ? err.message : 'The key could not be saved.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUnlock = async () => {
+    setBusy(true);
+    setKeyError(null);
+    try {
+      await unlockApiKey(unlockPassphrase);
+      setUnlockPassphrase('');
+    } catch (err) {
+      setKeyError(err instanceof Error ? err.message : 'The key could not be unlocked.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('Remove the saved API key from this browser?')) return;
+    if (getActiveProviderId() === 'gemini') setActiveProvider('mock');
+    clearApiKey();
+    setValidation(null);
+    setKeyError(null);
+  };
+
+  const statusLabel = keyStatus === 'missing'
+    ? 'No key saved'
+    : keyStatus === 'locked'
+      ? 'Saved, locked'
+      : isApiKeyEncrypted() ? 'Saved, encrypted and unlocked' : 'Saved';
+
+  return (
+    <div className="space-y-6">
+      <section className="p-4 bg-gray-700/50 rounded-lg border border-gray-600 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-lg font-semibold text-indigo-400">Gemini API Key</h3>
+          <span className={`px-2.5 py-0.5 text-xs font-semibold rounded-full ${keyStatus === 'unlocked' ? 'bg-green-900/60 text-green-300' : keyStatus === 'locked' ? 'bg-yellow-900/60 text-yellow-300' : 'bg-gray-600 text-gray-300'}`}>
+            {statusLabel}
+          </span>
+        </div>
+        <p className="text-xs text-gray-400">
+          The key is kept in this browser's local storage and only sent to Google's API. Encrypt it with a passphrase on shared machines; you will then unlock it once per visit.
+        </p>
+
+        {keyStatus === 'locked' && (
+          <div className="flex gap-2">
+            <input type="password" value={unlockPassphrase} onChange={(e) => setUnlockPassphrase(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleUnlock()} placeholder="Passphrase" className={inputClass} autoComplete="current-password" />
+            <button onClick={handleUnlock} disabled={busy || !unlockPassphrase} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-indigo-700 disabled:opacity-50 transition-colors text-sm">Unlock</button>
+          </div>
+        )}
+
+        {keyStatus !== 'missing' && (
+          <div className="flex flex-wrap gap-2">
+            {keyStatus === 'unlocked' && (
+              <button onClick={() => runValidation(getApiKey() ?? '')} disabled={validation?.state === 'checking'} className="px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 disabled:opacity-50 transition-colors">
+                Validate Saved Key
+              </button>
+            )}
+            {keyStatus === 'unlocked' && isApiKeyEncrypted() && (
+              <button onClick={lockApiKey} className="px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 transition-colors">
+                Lock
+              </button>
+            )}
+            <button onClick={handleClear} className="px-3 py-1 text-sm font-semibold rounded-full bg-red-600/50 text-red-200 hover:bg-red-600/80 transition-colors">
+              Clear Key
+            </button>
+          </div>
+        )}
+
+        <div className="space-y-3 pt-3 border-t border-gray-600/50">
+          <label htmlFor="api-key" className="block text-xs font-medium text-gray-400">{keyStatus === 'missing' ? 'API key' : 'Replace with a new key'}</label>
+          <div className="flex gap-2">
+            <input
+              id="api-key"
+              type={showKey ? 'text' : 'password'}
+              value={newKey}
+              onChange={(e) => { setNewKey(e.target.value); setValidation(null); setKeyError(null); }}
+              placeholder="AIza..."
+              className={`${inputClass} font-mono`}
+              autoComplete="off"
+              spellCheck={false}
+            />
+            <button onClick={() => setShowKey(!showKey)} className="px-3 py-2 text-sm font-semibold rounded-md bg-gray-600 text-gray-200 hover:bg-gray-500 transition-colors">
+              {showKey ? 'Hide' : 'Show'}
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={encrypt} onChange={(e) => setEncrypt(e.target.checked)} className="accent-indigo-500" />
+            Encrypt with a passphrase
+          </label>
+          {encrypt && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Passphrase" className={inputClass} autoComplete="new-password" />
+              <input type="password" value={passphraseConfirmation} onChange={(e) => setPassphraseConfirmation(e.target.value)} placeholder="Repeat passphrase" className={inputClass} autoComplete="new-password" />
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2 justify-end">
+            <button onClick={() => runValidation(newKey)} disabled={!newKey.trim() || validation?.state === 'checking'} className="bg-gray-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-gray-500 disabled:opacity-50 transition-colors text-sm">
+              Validate
+            </button>
+            <button onClick={handleSave} disabled={busy || !newKey.trim()} className="flex items-center gap-2 bg-indigo-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-indigo-700 disabled:opacity-50 transition-colors text-sm">
+              {busy && <Spinner className="w-4 h-4" />}
+              Save Key
+            </button>
+          </div>
+        </div>
+        <ValidationMessage validation={validation} />
+        {keyError && <p className="text-red-400 text-xs">{keyError}</p>}
+      </section>
+
+      <section className="p-4 bg-gray-700/50 rounded-lg border border-gray-600 space-y-4">
+        <h3 className="text-lg font-semibold text-indigo-400">Default Models</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="default-generation-model" className="block text-xs font-medium text-gray-400 mb-1">Image generation</label>
+            <select id="default-generation-model" value={settings.defaultGenerationModel} onChange={(e) => handleSettingChange('defaultGenerationModel', e.target.value as ImagenModel)} className={inputClass}>
+              {imagenModels.map((model) => <option key={model} value={model}>{model}</option>)}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">The generator's advanced options can still switch models.</p>
+          </div>
+          <div>
+            <label htmlFor="analysis-model" className="block text-xs font-medium text-gray-400 mb-1">Analysis, chat and prompt writing</label>
+            <select id="analysis-model" value={settings.analysisModel} onChange={(e) => handleSettingChange('analysisModel', e.target.value as AnalysisModel)} className={inputClass}>
+              {analysisModels.map((model) => <option key={model} value={model}>{model}</option>)}
+            </select>
+          </div>
+        </div>
+      </section>
+
+      <section className="p-4 bg-gray-700/50 rounded-lg border border-gray-600 space-y-4">
+        <h3 className="text-lg font-semibold text-indigo-400">Response Cache</h3>
+        <p className="text-xs text-gray-400">
+          Analyses, object detections and generations with a fixed seed are stored in this browser. Repeating one with the same image, instruction, model and options reuses the stored result, marked as cached, instead of calling the API.
+        </p>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={settings.bypassResponseCache} onChange={(e) => handleSettingChange('bypassResponseCache', e.target.checked)} className="accent-indigo-500" />
+          Bypass the cache and always call the API
+        </label>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <span className="text-xs text-gray-400">
+            {cacheStats ? `${cacheStats.entries} stored ${cacheStats.entries === 1 ? 'result' : 'results'}, ${formatBytes(cacheStats.bytes)}` : 'Reading the cache...'}
+          </span>
+          <button onClick={handleClearCache} disabled={!cacheStats?.entries} className="px-3 py-1 text-sm font-semibold rounded-full bg-red-600/50 text-red-200 hover:bg-red-600/80 disabled:opacity-50 transition-colors">
+            Clear Cache
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { ImageAnalysis } from '../types';
+import { serializeImageAnalysis } from '../services/analysisValidation';
+import { downloadBlob } from '../utils/download';
+import { ArrowDownTrayIcon, CodeBracketIcon } from './Icons';
+
+interface StructuredAnalysisViewProps {
+  analysis: ImageAnalysis;
+  fileName?: string;
+}
+
+const formatBox = (box?: [number, number, number, number]) =>
+  box ? box.join(', ') : '—';
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-2">{children}</h4>
+);
+
+export const StructuredAnalysisView: React.FC<StructuredAnalysisViewProps> = ({ analysis, fileName }) => {
+  const [showRaw, setShowRaw] = useState<boolean>(false);
+  const json = serializeImageAnalysis(analysis);
+
+  const handleExport = () => {
+    const baseName = fileName ? fileName.replace(/\.[^.]+$/, '') : `analysis-${Date.now()}`;
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${baseName}-analysis.json`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-gray-300">{analysis.summary}</p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <SectionTitle>Subjects</SectionTitle>
+          <p className="text-sm text-gray-200">{analysis.subjects.length > 0 ? analysis.subjects.join(', ') : '—'}</p>
+        </div>
+        <div>
+          <SectionTitle>Mood</SectionTitle>
+          <p className="text-sm text-gray-200 capitalize">{analysis.mood || '—'}</p>
+        </div>
+      </div>
+
+      {analysis.tags.length > 0 && (
+        <div>
+          <SectionTitle>Tags</SectionTitle>
+          <div className="flex flex-wrap gap-2">
+            {analysis.tags.map((tag, i) => (
+              <span key={`${tag}-${i}`} className="bg-gray-600 text-gray-200 rounded-full px-3 py-1 text-xs font-medium">{tag}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {analysis.dominantColors.length > 0 && (
+        <div>
+          <SectionTitle>Dominant Colors</SectionTitle>
+          <div className="flex flex-wrap gap-3">
+            {analysis.dominantColors.map((color, i) => (
+              <div key={`${color.hex}-${i}`} className="flex items-center gap-2 bg-gray-800/60 rounded-lg pr-3">
+                <span className="w-8 h-8 rounded-l-lg border border-gray-600" style={{ backgroundColor: color.hex }} />
+                <div className="text-xs">
+                  <div className="text-gray-200">{color.name}</div>
+                  <div className="font-mono text-gray-400">{color.hex} · {Math.round(color.coverage)}%</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {analysis.objects.length > 0 && (
+        <div>
+          <SectionTitle>Objects</SectionTitle>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-600">
+                <th className="py-1 font-medium">Label</th>
+                <th className="py-1 font-medium">Box (ymin, xmin, ymax, xmax)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {analysis.objects.map((object, i) => (
+                <tr key={`${object.label}-${i}`} className="border-b border-gray-700/50">
+                  <td className="py-1 text-gray-200">{object.label}</td>
+                  <td className="py-1 font-mono text-gray-400">{formatBox(object.box)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {analysis.detectedText.length > 0 && (
+        <div>
+          <SectionTitle>Detected Text</SectionTitle>
+          <ul className="list-disc list-inside text-sm text-gray-200 space-y-1">
+            {analysis.detectedText.map((text, i) => <li key={i} className="font-mono">{text}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 pt-2 border-t border-gray-600/50">
+        <button onClick={() => setShowRaw(prev => !prev)} className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 transition-colors">
+          <CodeBracketIcon className="w-4 h-4" />
+          {showRaw ? 'Hide JSON' : 'Show JSON'}
+        </button>
+        <button onClick={handleExport} className="flex items-center gap-1 px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 transition-colors">
+          <ArrowDownTrayIcon className="w-4 h-4" />
+          Export JSON
+        </button>
+      </div>
+      {showRaw && (
+        <pre className="text-xs text-gray-300 bg-gray-900/70 p-3 rounded-lg overflow-x-auto">{json}</pre>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { MAX_MATRIX_SIZE, VALUE_SEPARATOR } from '../utils/promptTemplate';
+
+interface TemplateVariablesPanelProps {
+  variables: string[];
+  values: Record<string, string>;
+  onChange: (name: string, value: string) => void;
+  /** Number of prompts the current values expand into. */
+  matrixSize: number;
+  /** Whether several values per placeholder are allowed. */
+  allowMatrix: boolean;
+  disabled?: boolean;
+}
+
+export const TemplateVariablesPanel: React.FC<TemplateVariablesPanelProps> = ({ variables, values, onChange, matrixSize, allowMatrix, disabled }) => {
+  return (
+    <div className="p-4 bg-gray-700/50 rounded-lg border border-gray-600 space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {variables.map((name) => (
+          <div key={name}>
+            <label htmlFor={`template-${name}`} className="block text-xs font-medium text-gray-400 mb-1 font-mono">{`{{${name}}}`}</label>
+            <input
+              id={`template-${name}`}
+              type="text"
+              value={values[name] ?? ''}
+              onChange={(e) => onChange(name, e.target.value)}
+              placeholder={allowMatrix ? `e.g., first ${VALUE_SEPARATOR} second` : name}
+              className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              disabled={disabled}
+            />
+          </div>
+        ))}
+      </div>
+      {allowMatrix ? (
+        <p className={`text-xs ${matrixSize > MAX_MATRIX_SIZE ? 'text-red-400' : 'text-gray-400'}`}>
+          Separate values with <code className="text-indigo-300">{VALUE_SEPARATOR}</code> to generate one image for every combination.
+          {matrixSize > 1 && ` ${matrixSize} combinations${matrixSize > MAX_MATRIX_SIZE ? ` (the limit is ${MAX_MATRIX_SIZE})` : ''}.`}
+        </p>
+      ) : matrixSize > 1 && (
+        <p className="text-xs text-red-400">Edits take a single value per placeholder.</p>
+      )}
+    </div>
+  );
+};
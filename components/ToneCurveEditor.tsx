@@ -0,0 +1,164 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { curveChannels, CurveChannel, CurvePoint, Levels, ToneSettings } from '../types';
+import { buildCurveLut, Histogram } from '../utils/pixelAdjustments';
+import { curveChannelLabels } from '../utils/editStack';
+
+interface ToneCurveEditorProps {
+  tone: ToneSettings;
+  /** Histogram of the adjusted preview, drawn behind the curve. */
+  histogram: Histogram | null;
+  onCurveChange: (channel: CurveChannel, points: CurvePoint[]) => void;
+  onLevelsChange: (levels: Levels) => void;
+  disabled?: boolean;
+}
+
+// Clicking within this distance (in curve units) of a point grabs it instead of adding one.
+const GRAB_DISTANCE = 10;
+
+const channelColors: Record<CurveChannel, string> = {
+  rgb: '#e5e7eb',
+  red: '#f87171',
+  green: '#4ade80',
+  blue: '#60a5fa',
+};
+
+const histogramBins = (histogram: Histogram, channel: CurveChannel) =>
+  channel === 'rgb' ? histogram.luminance : histogram[channel];
+
+// Square roots keep a few dominant values (e.g. pure black) from flattening the rest.
+const histogramPath = (bins: Uint32Array) => {
+  let max = 0;
+  bins.forEach((count) => { max = Math.max(max, Math.sqrt(count)); });
+  if (max === 0) return '';
+  const heights = Array.from(bins, (count) => 255 - (Math.sqrt(count) / max) * 255);
+  return `M0,255 ${heights.map((y, x) => `L${x},${y.toFixed(1)}`).join(' ')} L255,255 Z`;
+};
+
+/**
+ * Curves and levels with a live histogram. Click the graph to add a point,
+ * drag points to shape the curve and double-click a point to remove it.
+ */
+export const ToneCurveEditor: React.FC<ToneCurveEditorProps> = ({ tone, histogram, onCurveChange, onLevelsChange, disabled }) => {
+  const [channel, setChannel] = useState<CurveChannel>('rgb');
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragIndexRef = useRef<number | null>(null);
+
+  const points = tone.curves[channel];
+  const curvePath = useMemo(() => {
+    const lut = buildCurveLut(points);
+    return Array.from(lut, (y, x) => `${x},${255 - y}`).join(' ');
+  }, [points]);
+  const histogramShape = useMemo(() => histogram ? histogramPath(histogramBins(histogram, channel)) : '', [histogram, channel]);
+
+  const toCurvePoint = (event: React.PointerEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const clamp = (value: number) => Math.round(Math.min(255, Math.max(0, value)));
+    return {
+      x: clamp(((event.clientX - rect.left) / rect.width) * 255),
+      y: clamp(255 - ((event.clientY - rect.top) / rect.height) * 255),
+    };
+  };
+
+  // Points stay sorted by x, so a dragged point cannot pass its neighbours.
+  const movePoint = (index: number, target: CurvePoint) => {
+    const minX = index === 0 ? 0 : points[index - 1].x + 1;
+    const maxX = index === points.length - 1 ? 255 : points[index + 1].x - 1;
+    const updated = [...points];
+    updated[index] = { x: Math.min(maxX, Math.max(minX, target.x)), y: target.y };
+    onCurveChange(channel, updated);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const target = toCurvePoint(event);
+    const nearest = points.findIndex((point) => Math.hypot(point.x - target.x, point.y - target.y) <= GRAB_DISTANCE);
+    if (nearest !== -1) {
+      dragIndexRef.current = nearest;
+      return;
+    }
+    if (points.some((point) => point.x === target.x)) return;
+    const updated = [...points, target].sort((a, b) => a.x - b.x);
+    dragIndexRef.current = updated.indexOf(target);
+    onCurveChange(channel, updated);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndexRef.current === null) return;
+    movePoint(dragIndexRef.current, toCurvePoint(event));
+  };
+
+  const handlePointerUp = () => {
+    dragIndexRef.current = null;
+  };
+
+  const handleDoubleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (disabled || points.length <= 2) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * 255;
+    const y = 255 - ((event.clientY - rect.top) / rect.height) * 255;
+    const index = points.findIndex((point) => Math.hypot(point.x - x, point.y - y) <= GRAB_DISTANCE);
+    // The end points anchor the curve and are only moved, never removed.
+    if (index > 0 && index < points.length - 1) {
+      onCurveChange(channel, points.filter((_, i) => i !== index));
+    }
+  };
+
+  const { levels } = tone;
+  const channelButtonClass = (value: CurveChannel) => `flex-1 px-3 py-1 text-xs font-semibold rounded-md transition-colors ${channel === value ? 'bg-indigo-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        {curveChannels.map((value) => (
+          <button key={value} onClick={() => setChannel(value)} className={channelButtonClass(value)}>{curveChannelLabels[value]}</button>
+        ))}
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox="0 0 255 255"
+        preserveAspectRatio="none"
+        className={`w-full max-w-xs mx-auto block aspect-square bg-gray-800 rounded-md touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+        role="img"
+        aria-label={`${curveChannelLabels[channel]} tone curve`}
+      >
+        {histogramShape && <path d={histogramShape} fill={channelColors[channel]} opacity={0.25} />}
+        {[64, 128, 192].map((v) => (
+          <g key={v} stroke="#4b5563" strokeWidth={0.5}>
+            <line x1={v} y1={0} x2={v} y2={255} />
+            <line x1={0} y1={v} x2={255} y2={v} />
+          </g>
+        ))}
+        <line x1={0} y1={255} x2={255} y2={0} stroke="#6b7280" strokeWidth={0.5} strokeDasharray="4 4" />
+        <polyline points={curvePath} fill="none" stroke={channelColors[channel]} strokeWidth={1.5} />
+        {points.map((point, index) => (
+          <circle key={index} cx={point.x} cy={255 - point.y} r={4} fill="#1f2937" stroke={channelColors[channel]} strokeWidth={1.5} />
+        ))}
+      </svg>
+
+      <div className="grid grid-cols-3 gap-x-4 gap-y-1">
+        <label className="text-xs font-medium text-gray-400 flex justify-between">
+          <span>Black</span>
+          <span>{levels.black}</span>
+        </label>
+        <label className="text-xs font-medium text-gray-400 flex justify-between">
+          <span>Gamma</span>
+          <span>{levels.gamma.toFixed(2)}</span>
+        </label>
+        <label className="text-xs font-medium text-gray-400 flex justify-between">
+          <span>White</span>
+          <span>{levels.white}</span>
+        </label>
+        <input type="range" min="0" max="254" value={levels.black} onChange={(e) => onLevelsChange({ ...levels, black: Math.min(e.target.valueAsNumber, levels.white - 1) })} disabled={disabled} aria-label="Black point" className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+        <input type="range" min="0.1" max="3" step="0.01" value={levels.gamma} onChange={(e) => onLevelsChange({ ...levels, gamma: e.target.valueAsNumber })} disabled={disabled} aria-label="Gamma" className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+        <input type="range" min="1" max="255" value={levels.white} onChange={(e) => onLevelsChange({ ...levels, white: Math.max(e.target.valueAsNumber, levels.black + 1) })} disabled={disabled} aria-label="White point" className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+      </div>
+    </div>
+  );
+};
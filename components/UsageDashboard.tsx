@@ -0,0 +1,245 @@
+import React, { useMemo, useState, useSyncExternalStore } from 'react';
+import {
+  BudgetMode, clearUsageRecords, formatCost, getBudgetStatus, getDayKey, getMonthStart, getUsageState, ModelPrice,
+  resetModelPrices, setModelPrice, subscribeToUsage, summarizeUsage, updateUsageBudget, UsageTotals,
+} from '../services/usageService';
+
+const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+// Days shown in the daily totals.
+const DAILY_HISTORY_DAYS = 30;
+
+const priceFields: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'inputPerMillion', label: 'Input / 1M tokens' },
+  { key: 'outputPerMillion', label: 'Output / 1M tokens' },
+  { key: 'perImage', label: 'Per image' },
+];
+
+const formatLatency = (totals: UsageTotals) => totals.calls > 0 ? `${(totals.latencyMs / totals.calls / 1000).toFixed(1)} s` : '–';
+
+const Stat: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+  <div className="bg-gray-800/60 rounded-lg p-3">
+    <div className="text-xs text-gray-400">{label}</div>
+    <div className="text-lg font-semibold text-gray-100">{value}</div>
+    {detail && <div className="text-xs text-gray-500">{detail}</div>}
+  </div>
+);
+
+export const UsageDashboard: React.FC = () => {
+  const usage = useSyncExternalStore(subscribeToUsage, getUsageState);
+  const { records, prices, budget } = usage;
+  const [limitDraft, setLimitDraft] = useState<string>(budget.monthlyLimit?.toString() ?? '');
+  // Remounts the price inputs after a reset so they show the defaults again.
+  const [pricesVersion, setPricesVersion] = useState<number>(0);
+
+  const budgetStatus = getBudgetStatus(usage);
+  const monthRecords = useMemo(() => {
+    const monthStart = getMonthStart();
+    return records.filter((record) => record.timestamp >= monthStart);
+  }, [records]);
+  const monthTotals = useMemo(
+    () => summarizeUsage(monthRecords, prices, () => 'month').get('month'),
+    [monthRecords, prices],
+  );
+  const byModel = useMemo(
+    () => [...summarizeUsage(monthRecords, prices, (record) => record.model)].sort(([, a], [, b]) => b.cost - a.cost || b.calls - a.calls),
+    [monthRecords, prices],
+  );
+  const byDay = useMemo(() => {
+    const since = Date.now() - DAILY_HISTORY_DAYS * 24 * 60 * 60 * 1000;
+    return [...summarizeUsage(records.filter((record) => record.timestamp >= since), prices, (record) => getDayKey(record.timestamp))].reverse();
+  }, [records, prices]);
+  const maxDailyCost = Math.max(0, ...byDay.map(([, totals]) => totals.cost));
+  const pricedModels = useMemo(
+    () => [...new Set([...Object.keys(prices), ...records.map((record) => record.model)])].filter((model) => model !== 'mock'),
+    [prices, records],
+  );
+
+  const handleLimitChange = (value: string) => {
+    setLimitDraft(value);
+    const limit = Number(value);
+    if (value.trim() === '') {
+      updateUsageBudget({ monthlyLimit: null });
+    } else if (Number.isFinite(limit) && limit >= 0) {
+      updateUsageBudget({ monthlyLimit: limit });
+    }
+  };
+
+  const handlePriceChange = (model: string, key: keyof ModelPrice, value: string) => {
+    const amount = Number(value);
+    if (value.trim() === '' || !Number.isFinite(amount) || amount < 0) return;
+    const current = prices[model] ?? { inputPerMillion: 0, outputPerMillion: 0, perImage: 0 };
+    setModelPrice(model, { ...current, [key]: amount });
+  };
+
+  const handleResetPrices = () => {
+    resetModelPrices();
+    setPricesVersion((version) => version + 1);
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('Delete the usage log of this browser? Budgets and prices are kept.')) return;
+    clearUsageRecords();
+  };
+
+  const budgetShare = budgetStatus.limit ? Math.min(1, budgetStatus.spent / budgetStatus.limit) : 0;
+  const budgetBarClass = budgetStatus.state === 'over' ? 'bg-red-500' : budgetStatus.state === 'near' ? 'bg-yellow-500' : 'bg-green-500';
+
+  return (
+    <div className="space-y-6">
+      <section className="p-4 bg-gray-700/50 rounded-lg border border-gray-600 space-y-4">
+        <h3 className="text-lg font-semibold text-indigo-400">This Month</h3>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <Stat label="Estimated cost" value={formatCost(budgetStatus.spent)} detail={budgetStatus.limit !== null ? `of ${formatCost(budgetStatus.limit)} budget` : undefined} />
+          <Stat label="Calls" value={(monthTotals?.calls ?? 0).toLocaleString()} detail={monthTotals?.failures ? `${monthTotals.failures} failed` : undefined} />
+          <Stat label="Images" value={(monthTotals?.images ?? 0).toLocaleString()} />
+          <Stat
+            label="Tokens"
+            value={((monthTotals?.inputTokens ?? 0) + (monthTotals?.outputTokens ?? 0)).toLocaleString()}
+            detail={monthTotals ? `${monthTotals.inputTokens.toLocaleString()} in · ${monthTotals.outputTokens.toLocaleString()} out` : undefined}
+          />
+        </div>
+
+        <div className="space-y-3 pt-3 border-t border-gray-600/50">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="monthly-budget" className="block text-xs font-medium text-gray-400 mb-1">Monthly budget (USD)</label>
+              <input id="monthly-budget" type="number" min="0" step="1" value={limitDraft} onChange={(e) => handleLimitChange(e.target.value)} placeholder="No limit" className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="budget-mode" className="block text-xs font-medium text-gray-400 mb-1">When the budget runs out</label>
+              <select id="budget-mode" value={budget.mode} onChange={(e) => updateUsageBudget({ mode: e.target.value as BudgetMode })} className={inputClass}>
+                <option value="warn">Warn, but keep working</option>
+                <option value="block">Block calls that would exceed it</option>
+              </select>
+            </div>
+          </div>
+          {budgetStatus.limit !== null && (
+            <div className="space-y-1">
+              <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                <div className={`h-full ${budgetBarClass} transition-all`} style={{ width: `${budgetShare * 100}%` }} />
+              </div>
+              <p className="text-xs text-gray-400">
+                {formatCost(budgetStatus.spent)} spent, {formatCost(Math.max(0, budgetStatus.limit - budgetStatus.spent))} left. A warning shows from 80%.
+              </p>
+            </div>
+          )}
+        </div>
+      </section>
+
+      <section className="p-4 bg-gray-700/50 rounded-lg border border-gray-600 space-y-3">
+        <h3 className="text-lg font-semibold text-indigo-400">By Model</h3>
+        {byModel.length === 0 ? (
+          <p className="text-sm text-gray-400">No calls this month.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-gray-400">
+                <tr>
+                  <th className="py-1 pr-3 font-medium">Model</th>
+                  <th className="py-1 pr-3 font-medium text-right">Calls</th>
+                  <th className="py-1 pr-3 font-medium text-right">Failed</th>
+                  <th className="py-1 pr-3 font-medium text-right">Avg. latency</th>
+                  <th className="py-1 pr-3 font-medium text-right">Tokens in / out</th>
+                  <th className="py-1 pr-3 font-medium text-right">Images</th>
+                  <th className="py-1 font-medium text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-200">
+                {byModel.map(([model, totals]) => (
+                  <tr key={model} className="border-t border-gray-600/50">
+                    <td className="py-1.5 pr-3 font-mono text-xs">{model}</td>
+                    <td className="py-1.5 pr-3 text-right">{totals.calls}</td>
+                    <td className={`py-1.5 pr-3 text-right ${totals.failures > 0 ? 'text-red-400' : ''}`}>{totals.failures}</td>
+                    <td className="py-1.5 pr-3 text-right">{formatLatency(totals)}</td>
+                    <td className="py-1.5 pr-3 text-right">{totals.inputTokens.toLocaleString()} / {totals.outputTokens.toLocaleString()}</td>
+                    <td className="py-1.5 pr-3 text-right">{totals.images}</td>
+                    <td className="py-1.5 text-right">{prices[model] ? formatCost(totals.cost) : '–'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className="p-4 bg-gray-700/50 rounded-lg border border-gray-600 space-y-3">
+        <h3 className="text-lg font-semibold text-indigo-400">Daily Totals</h3>
+        {byDay.length === 0 ? (
+          <p className="text-sm text-gray-400">No calls in the last {DAILY_HISTORY_DAYS} days.</p>
+        ) : (
+          <div className="space-y-1">
+            {byDay.map(([day, totals]) => (
+              <div key={day} className="grid grid-cols-[6rem_1fr_auto] items-center gap-3 text-sm">
+                <span className="font-mono text-xs text-gray-400">{day}</span>
+                <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500" style={{ width: `${maxDailyCost > 0 ? totals.cost / maxDailyCost * 100 : 0}%` }} />
+                </div>
+                <span className="text-gray-200 text-right text-xs">
+                  {formatCost(totals.cost)} · {totals.calls} {totals.calls === 1 ? 'call' : 'calls'}
+                  {totals.failures > 0 && <span className="text-red-400"> ({totals.failures} failed)</span>}
+                  {totals.images > 0 && ` · ${totals.images} ${totals.images === 1 ? 'image' : 'images'}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="p-4 bg-gray-700/50 rounded-lg border border-gray-600">
+        <details>
+          <summary className="text-lg font-semibold text-indigo-400 cursor-pointer">Prices</summary>
+          <div className="mt-3 space-y-3">
+            <p className="text-xs text-gray-400">
+              Costs are estimated from these prices in US dollars and recalculated when they change. Check them against your Google Cloud billing; free-tier calls cost nothing.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs text-gray-400">
+                  <tr>
+                    <th className="py-1 pr-3 font-medium">Model</th>
+                    {priceFields.map(({ key, label }) => <th key={key} className="py-1 pr-3 font-medium">{label}</th>)}
+                  </tr>
+                </thead>
+                <tbody key={pricesVersion}>
+                  {pricedModels.map((model) => (
+                    <tr key={model} className="border-t border-gray-600/50">
+                      <td className="py-1.5 pr-3 font-mono text-xs text-gray-200">{model}</td>
+                      {priceFields.map(({ key, label }) => (
+                        <td key={key} className="py-1.5 pr-3">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            defaultValue={prices[model]?.[key] ?? 0}
+                            onChange={(e) => handlePriceChange(model, key, e.target.value)}
+                            aria-label={`${model} ${label}`}
+                            className={`${inputClass} w-24 py-1`}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex justify-end">
+              <button onClick={handleResetPrices} className="px-3 py-1 text-sm font-semibold rounded-full bg-gray-600 text-gray-200 hover:bg-gray-500 transition-colors">
+                Reset to Defaults
+              </button>
+            </div>
+          </div>
+        </details>
+      </section>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-gray-500">
+          Usage is logged in this browser only; teammates sharing the key each see their own calls.
+        </p>
+        <button onClick={handleClear} disabled={records.length === 0} className="px-3 py-1 text-sm font-semibold rounded-full bg-red-600/50 text-red-200 hover:bg-red-600/80 disabled:opacity-50 transition-colors">
+          Clear Usage Log
+        </button>
+      </div>
+    </div>
+  );
+};
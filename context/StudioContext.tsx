@@ -0,0 +1,127 @@
+import React, { createContext, useContext, useEffect, useMemo, useReducer } from 'react';
+import { HistoryEntry, ImageAsset, StudioTab } from '../types';
+import { hashForTab, parseTabFromHash } from '../utils/route';
+
+/**
+ * A history entry to restore in a tab. A new `key` remounts the tab, so it
+ * starts from the entry instead of whatever was there before.
+ */
+export interface OpenRequest {
+  entry: HistoryEntry;
+  autoRun: boolean;
+  key: number;
+}
+
+/**
+ * Work sent from one tab to another, held until the receiving tab picks it up.
+ */
+export type Handoff =
+  | { id: string; kind: 'analyze'; asset: ImageAsset }
+  | { id: string; kind: 'edit'; asset: ImageAsset }
+  | { id: string; kind: 'prompt'; prompt: string };
+
+export interface StudioState {
+  tab: StudioTab;
+  openRequests: { generate: OpenRequest | null; analyze: OpenRequest | null };
+  handoffs: Handoff[];
+}
+
+export type StudioAction =
+  | { type: 'navigate'; tab: StudioTab }
+  | { type: 'openHistoryEntry'; entry: HistoryEntry; autoRun: boolean; at: number }
+  | { type: 'handoff'; handoff: Handoff }
+  | { type: 'consumeHandoff'; id: string };
+
+const handoffTabs: Record<Handoff['kind'], StudioTab> = {
+  analyze: 'analyze',
+  edit: 'generate',
+  prompt: 'generate',
+};
+
+export const studioReducer = (state: StudioState, action: StudioAction): StudioState => {
+  switch (action.type) {
+    case 'navigate':
+      return action.tab === state.tab ? state : { ...state, tab: action.tab };
+    case 'openHistoryEntry': {
+      const tab = action.entry.kind === 'analysis' ? 'analyze' : 'generate';
+      return {
+        ...state,
+        tab,
+        openRequests: { ...state.openRequests, [tab]: { entry: action.entry, autoRun: action.autoRun, key: action.at } },
+      };
+    }
+    case 'handoff':
+      // A newer hand-off of the same kind replaces one that was never picked up.
+      return {
+        ...state,
+        tab: handoffTabs[action.handoff.kind],
+        handoffs: [...state.handoffs.filter((handoff) => handoff.kind !== action.handoff.kind), action.handoff],
+      };
+    case 'consumeHandoff':
+      return { ...state, handoffs: state.handoffs.filter((handoff) => handoff.id !== action.id) };
+  }
+};
+
+interface StudioContextValue {
+  state: StudioState;
+  navigate: (tab: StudioTab) => void;
+  openHistoryEntry: (entry: HistoryEntry, autoRun: boolean) => void;
+  /** Opens the image in the analyzer. */
+  sendToAnalyzer: (asset: ImageAsset) => void;
+  /** Opens the image in the generator's edit mode. */
+  sendToEditor: (asset: ImageAsset) => void;
+  /** Opens the generator with the prompt filled in. */
+  sendPrompt: (prompt: string) => void;
+  consumeHandoff: (id: string) => void;
+}
+
+const StudioContext = createContext<StudioContextValue | null>(null);
+
+/**
+ * Holds the state the tabs share: which one is open (mirrored in the URL
+ * hash), history entries to restore, and images or prompts handed between them.
+ */
+export const StudioProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [state, dispatch] = useReducer(studioReducer, undefined, (): StudioState => ({
+    tab: parseTabFromHash(window.location.hash),
+    openRequests: { generate: null, analyze: null },
+    handoffs: [],
+  }));
+
+  useEffect(() => {
+    const onHashChange = () => dispatch({ type: 'navigate', tab: parseTabFromHash(window.location.hash) });
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  useEffect(() => {
+    const hash = hashForTab(state.tab);
+    if (window.location.hash === hash) return;
+    // Normalize a missing or unknown hash in place; real tab switches get a history entry.
+    if (parseTabFromHash(window.location.hash) === state.tab) {
+      window.history.replaceState(null, '', hash);
+    } else {
+      window.history.pushState(null, '', hash);
+    }
+  }, [state.tab]);
+
+  const value = useMemo<StudioContextValue>(() => ({
+    state,
+    navigate: (tab) => dispatch({ type: 'navigate', tab }),
+    openHistoryEntry: (entry, autoRun) => dispatch({ type: 'openHistoryEntry', entry, autoRun, at: Date.now() }),
+    sendToAnalyzer: (asset) => dispatch({ type: 'handoff', handoff: { id: crypto.randomUUID(), kind: 'analyze', asset } }),
+    sendToEditor: (asset) => dispatch({ type: 'handoff', handoff: { id: crypto.randomUUID(), kind: 'edit', asset } }),
+    sendPrompt: (prompt) => dispatch({ type: 'handoff', handoff: { id: crypto.randomUUID(), kind: 'prompt', prompt } }),
+    consumeHandoff: (id) => dispatch({ type: 'consumeHandoff', id }),
+  }), [state]);
+
+  return <StudioContext.Provider value={value}>{children}</StudioContext.Provider>;
+};
+
+export const useStudio = (): StudioContextValue => {
+  const context = useContext(StudioContext);
+  if (!context) {
+    throw new Error("useStudio must be used inside a StudioProvider");
+  }
+  return context;
+};
@@ -0,0 +1,113 @@
+import { BoundingBox, DetectedObject, DominantColor, ImageAnalysis } from '../types';
+
+/**
+ * Client-side validation for structured analyses. The model is asked to follow
+ * a response schema, but its output is still untrusted input, so every field is
+ * checked before it is rendered or exported.
+ */
+
+class AnalysisValidationError extends Error {
+    constructor(path: string, expectation: string) {
+        super(`Invalid structured analysis: "${path}" ${expectation}.`);
+        this.name = 'AnalysisValidationError';
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectString = (value: unknown, path: string): string => {
+    if (typeof value !== 'string') throw new AnalysisValidationError(path, 'must be a string');
+    return value;
+};
+
+const expectArray = (value: unknown, path: string): unknown[] => {
+    if (!Array.isArray(value)) throw new AnalysisValidationError(path, 'must be an array');
+    return value;
+};
+
+const expectStringArray = (value: unknown, path: string): string[] =>
+    expectArray(value, path).map((item, i) => expectString(item, `${path}[${i}]`));
+
+const parseBox = (value: unknown, path: string): BoundingBox | undefined => {
+    if (value === undefined || value === null) return undefined;
+    const box = expectArray(value, path);
+    if (box.length !== 4 || !box.every((n) => typeof n === 'number' && Number.isFinite(n))) {
+        throw new AnalysisValidationError(path, 'must contain four numbers');
+    }
+    const [ymin, xmin, ymax, xmax] = (box as number[]).map((n) => Math.min(Math.max(n, 0), 1000));
+    if (ymin >= ymax || xmin >= xmax) {
+        throw new AnalysisValidationError(path, 'must have its min corner before its max corner');
+    }
+    return [ymin, xmin, ymax, xmax];
+};
+
+const parseObject = (value: unknown, path: string): DetectedObject => {
+    if (!isRecord(value)) throw new AnalysisValidationError(path, 'must be an object');
+    return {
+        label: expectString(value.label, `${path}.label`),
+        box: parseBox(value.box2d, `${path}.box2d`),
+    };
+};
+
+const parseColor = (value: unknown, path: string): DominantColor => {
+    if (!isRecord(value)) throw new AnalysisValidationError(path, 'must be an object');
+    const hex = expectString(value.hex, `${path}.hex`).trim();
+    if (!/^#?[0-9a-f]{6}$/i.test(hex)) {
+        throw new AnalysisValidationError(`${path}.hex`, 'must be a 6-digit hex color');
+    }
+    const coverage = typeof value.coverage === 'number' ? value.coverage : 0;
+    return {
+        hex: hex.startsWith('#') ? hex.toLowerCase() : `#${hex.toLowerCase()}`,
+        name: expectString(value.name, `${path}.name`),
+        coverage: Math.min(Math.max(coverage, 0), 100),
+    };
+};
+
+export const parseImageAnalysis = (json: string): ImageAnalysis => {
+    let value: unknown;
+    try {
+        value = JSON.parse(json);
+    } catch {
+        throw new Error("The structured analysis was not valid JSON.");
+    }
+    if (!isRecord(value)) throw new AnalysisValidationError('$', 'must be an object');
+
+    return {
+        summary: expectString(value.summary, 'summary'),
+        subjects: expectStringArray(value.subjects, 'subjects'),
+        objects: expectArray(value.objects, 'objects').map((item, i) => parseObject(item, `objects[${i}]`)),
+        dominantColors: expectArray(value.dominantColors, 'dominantColors').map((item, i) => parseColor(item, `dominantColors[${i}]`)),
+        mood: expectString(value.mood, 'mood'),
+        tags: expectStringArray(value.tags, 'tags'),
+        detectedText: expectStringArray(value.detectedText ?? [], 'detectedText'),
+    };
+};
+
+/**
+ * Parses the result of an object detection call. Unlike structured analyses,
+ * objects without a valid box are useless here and are rejected.
+ */
+export const parseDetectedObjects = (json: string): DetectedObject[] => {
+    let value: unknown;
+    try {
+        value = JSON.parse(json);
+    } catch {
+        throw new Error("The object detection result was not valid JSON.");
+    }
+    return expectArray(value, '$').map((item, i) => {
+        const object = parseObject(item, `[${i}]`);
+        if (!object.box) throw new AnalysisValidationError(`[${i}].box2d`, 'is required');
+        return object;
+    });
+};
+
+/**
+ * Serializes an analysis back into the wire format the model produces.
+ */
+export const serializeImageAnalysis = (analysis: ImageAnalysis): string => {
+    return JSON.stringify({
+        ...analysis,
+        objects: analysis.objects.map(({ label, box }) => ({ label, box2d: box })),
+    }, null, 2);
+};
@@ -0,0 +1,124 @@
+/**
+ * Keeps the user's Gemini API key in localStorage instead of the bundle.
+ * The key can be encrypted with a passphrase (PBKDF2 + AES-GCM); it is then
+ * only held in memory after being unlocked, until the page is reloaded.
+ */
+
+const STORAGE_KEY = 'geminiApiKey';
+const PBKDF2_ITERATIONS = 310_000;
+
+type StoredApiKey =
+    | { encrypted: false; key: string }
+    | { encrypted: true; salt: string; iv: string; ciphertext: string };
+
+export type ApiKeyStatus = "missing" | "locked" | "unlocked";
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach((b) => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+};
+
+const base64ToBytes = (base64: string): Uint8Array<ArrayBuffer> =>
+    Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+
+const loadStoredKey = (): StoredApiKey | null => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? JSON.parse(stored) : null;
+    } catch (e) {
+        console.error("Failed to parse API key from localStorage", e);
+        return null;
+    }
+};
+
+let storedKey = loadStoredKey();
+let unlockedKey: string | null = storedKey?.encrypted === false ? storedKey.key : null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+};
+
+/**
+ * Calls `listener` whenever the key is saved, unlocked, locked or cleared.
+ */
+export const subscribeToApiKey = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const getApiKeyStatus = (): ApiKeyStatus => {
+    if (!storedKey) return 'missing';
+    return unlockedKey ? 'unlocked' : 'locked';
+};
+
+export const isApiKeyEncrypted = (): boolean => Boolean(storedKey?.encrypted);
+
+/**
+ * The key to call the API with, read at call time. Undefined while none is
+ * saved or the saved one is still locked.
+ */
+export const getApiKey = (): string | undefined => unlockedKey ?? undefined;
+
+/**
+ * Stores `key`, encrypted when a passphrase is given, and unlocks it for this session.
+ */
+export const saveApiKey = async (key: string, passphrase?: string): Promise<void> => {
+    const trimmedKey = key.trim();
+    if (!trimmedKey) {
+        throw new Error("The API key is empty.");
+    }
+    let next: StoredApiKey;
+    if (passphrase) {
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await deriveKey(passphrase, salt), new TextEncoder().encode(trimmedKey));
+        next = { encrypted: true, salt: bytesToBase64(salt), iv: bytesToBase64(iv), ciphertext: bytesToBase64(new Uint8Array(ciphertext)) };
+    } else {
+        next = { encrypted: false, key: trimmedKey };
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    storedKey = next;
+    unlockedKey = trimmedKey;
+    notify();
+};
+
+export const unlockApiKey = async (passphrase: string): Promise<void> => {
+    if (!storedKey?.encrypted) return;
+    const { salt, iv, ciphertext } = storedKey;
+    let plaintext: ArrayBuffer;
+    try {
+        plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(iv) }, await deriveKey(passphrase, base64ToBytes(salt)), base64ToBytes(ciphertext));
+    } catch {
+        // AES-GCM authentication fails for a wrong passphrase.
+        throw new Error("Wrong passphrase.");
+    }
+    unlockedKey = new TextDecoder().decode(plaintext);
+    notify();
+};
+
+/**
+ * Forgets the decrypted key until it is unlocked again. Unencrypted keys stay available.
+ */
+export const lockApiKey = () => {
+    if (!storedKey?.encrypted) return;
+    unlockedKey = null;
+    notify();
+};
+
+export const clearApiKey = () => {
+    localStorage.removeItem(STORAGE_KEY);
+    storedKey = null;
+    unlockedKey = null;
+    notify();
+};
@@ -0,0 +1,62 @@
+/**
+ * Thin promise wrapper around the app's IndexedDB database.
+ * Every object store the app uses is declared here so that schema upgrades
+ * happen in a single place.
+ */
+
+const DB_NAME = 'gemini-image-studio';
+const DB_VERSION = 3;
+
+export const HISTORY_STORE = 'history';
+export const LUT_STORE = 'luts';
+export const RESPONSE_CACHE_STORE = 'responseCache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+    if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+    }
+    if (!db.objectStoreNames.contains(LUT_STORE)) {
+        db.createObjectStore(LUT_STORE, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(RESPONSE_CACHE_STORE)) {
+        const store = db.createObjectStore(RESPONSE_CACHE_STORE, { keyPath: 'key' });
+        // Eviction walks these without loading the cached responses.
+        store.createIndex('lastUsedAt', 'lastUsedAt');
+        store.createIndex('size', 'size');
+    }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                return reject(new Error("IndexedDB is not available in this browser."));
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => upgrade(request.result);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error ?? new Error("Failed to open the local database."));
+        });
+        // Allow a later call to retry if opening failed.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted."));
+    });
+};
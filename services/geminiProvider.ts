@@ -0,0 +1,352 @@
+import { FinishReason, GenerateContentParameters, GenerateContentResponse, GenerateContentResponseUsageMetadata, GenerateImagesConfig, GoogleGenAI, Modality, Part, PersonGeneration, Schema, Type } from "@google/genai";
+import { AnalysisModel, ChatMessage, GeneratorAspectRatio, GeneratedImage, GenerationOptions, ImageCount, ImageData, ImageEditRequest } from '../types';
+import { ImageProvider, UsageMeter } from './imageProvider';
+import { ServiceError } from './serviceErrors';
+
+const IMAGE_EDIT_MODEL = 'gemini-2.5-flash-image';
+
+const INPAINT_INSTRUCTION = 'The second image is a mask of the same size as the first. Change only the regions that are white in the mask and keep the black regions exactly as they are. Return only the edited first image.';
+
+const STRUCTURED_ANALYSIS_INSTRUCTION = 'Fill every field of the response schema. Give object locations as box2d [ymin, xmin, ymax, xmax] normalized to 0-1000, and color coverage as a percentage.';
+
+const detectedObjectSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        label: { type: Type.STRING },
+        box2d: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+    },
+    required: ['label'],
+};
+
+const imageAnalysisSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        summary: { type: Type.STRING, description: 'One or two sentences answering the instruction.' },
+        subjects: { type: Type.ARRAY, items: { type: Type.STRING } },
+        objects: { type: Type.ARRAY, items: detectedObjectSchema },
+        dominantColors: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    hex: { type: Type.STRING, description: 'Hex color such as #a1b2c3.' },
+                    name: { type: Type.STRING },
+                    coverage: { type: Type.NUMBER },
+                },
+                required: ['hex', 'name', 'coverage'],
+            },
+        },
+        mood: { type: Type.STRING },
+        tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+        detectedText: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+    required: ['summary', 'subjects', 'objects', 'dominantColors', 'mood', 'tags', 'detectedText'],
+    propertyOrdering: ['summary', 'subjects', 'objects', 'dominantColors', 'mood', 'tags', 'detectedText'],
+};
+
+const OBJECT_DETECTION_PROMPT = 'Detect the prominent objects in this image. For each one return a short label and its bounding box as box2d [ymin, xmin, ymax, xmax] normalized to 0-1000.';
+
+const PROMPT_WRITING_RULES = 'Reply with the prompt only: a single paragraph without quotes, headings or commentary. Keep any {{placeholder}} tokens exactly as written.';
+
+const ENHANCE_PROMPT_INSTRUCTION = `You write prompts for a text-to-image model. Expand the user's idea into a detailed prompt that keeps its intent and describes the subject, setting, composition, lighting, color palette, style and camera or medium. ${PROMPT_WRITING_RULES}`;
+
+const DESCRIBE_AS_PROMPT_INSTRUCTION = `You write prompts for a text-to-image model. Using the image and the analysis of it below, write a prompt that would produce a picture like it, covering the subject, setting, composition, lighting, color palette, style and camera or medium. ${PROMPT_WRITING_RULES}`;
+
+// Models sometimes wrap the prompt in quotes despite being asked not to.
+const cleanPrompt = (text: string | undefined): string => (text ?? '').trim().replace(/^"([\s\S]*)"$/, '$1').trim();
+
+const BLOCKING_FINISH_REASONS = new Set<string>([
+    FinishReason.SAFETY,
+    FinishReason.BLOCKLIST,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.SPII,
+    FinishReason.IMAGE_SAFETY,
+    FinishReason.IMAGE_PROHIBITED_CONTENT,
+]);
+
+// `HARM_CATEGORY_DANGEROUS_CONTENT` reads better as "dangerous content".
+const formatReason = (reason: string) => reason.toLowerCase().replace(/^harm_category_/, '').replace(/_/g, ' ');
+
+/**
+ * Throws a safety ServiceError, with the reasons the API gave, when the
+ * prompt or the answer was blocked.
+ */
+const throwIfBlocked = (response: GenerateContentResponse) => {
+    const feedback = response.promptFeedback;
+    const candidate = response.candidates?.[0];
+    const blockedCategories = [...(feedback?.safetyRatings ?? []), ...(candidate?.safetyRatings ?? [])]
+        .filter((rating) => rating.blocked && rating.category)
+        .map((rating) => formatReason(rating.category!));
+    if (feedback?.blockReason) {
+        throw new ServiceError('safety', "The request was blocked by the safety filters.", {
+            blockedReasons: [...new Set([formatReason(feedback.blockReason), ...blockedCategories])],
+        });
+    }
+    if (candidate?.finishReason && BLOCKING_FINISH_REASONS.has(candidate.finishReason)) {
+        throw new ServiceError('safety', "The response was blocked by the safety filters.", {
+            blockedReasons: [...new Set([formatReason(candidate.finishReason), ...blockedCategories])],
+        });
+    }
+};
+
+const detectedObjectsSchema: Schema = {
+    type: Type.ARRAY,
+    items: detectedObjectSchema,
+};
+
+const buildGenerationConfig = (aspectRatio: GeneratorAspectRatio, numberOfImages: ImageCount, options: GenerationOptions): GenerateImagesConfig => {
+    const config: GenerateImagesConfig = {
+        numberOfImages,
+        outputMimeType: options.outputMimeType,
+        aspectRatio,
+        personGeneration: options.personGeneration as PersonGeneration,
+        // Tells a filtered image apart from a failed one.
+        includeRaiReason: true,
+    };
+    if (options.negativePrompt.trim()) {
+        config.negativePrompt = options.negativePrompt.trim();
+    }
+    if (options.seed !== null) {
+        // The API rejects a seed while the invisible watermark is enabled.
+        config.seed = options.seed;
+        config.addWatermark = false;
+    }
+    if (options.guidanceScale !== null) {
+        config.guidanceScale = options.guidanceScale;
+    }
+    if (options.enhancePrompt) {
+        config.enhancePrompt = true;
+    }
+    return config;
+};
+
+/**
+ * Checks a key by listing models with it; rejects when the API refuses the key.
+ */
+export const validateGeminiApiKey = async (apiKey: string, signal?: AbortSignal): Promise<void> => {
+    await new GoogleGenAI({ apiKey }).models.list({ config: { pageSize: 1, abortSignal: signal } });
+};
+
+/**
+ * Creates the adapter for the Google Gemini / Imagen APIs.
+ * The key and analysis model are read on every call, so changes in the
+ * settings apply immediately and a missing key only fails the call that needs it.
+ */
+export const createGeminiProvider = (getApiKey: () => string | undefined, getAnalysisModel: () => AnalysisModel): ImageProvider => {
+    let client: GoogleGenAI | null = null;
+    let clientKey: string | undefined;
+
+    const getClient = (): GoogleGenAI => {
+        const apiKey = getApiKey();
+        if (!apiKey) {
+            throw new ServiceError('auth', "No Gemini API key is set. Add one in Settings.");
+        }
+        if (!client || clientKey !== apiKey) {
+            client = new GoogleGenAI({ apiKey });
+            clientKey = apiKey;
+        }
+        return client;
+    };
+
+    // Every view shares the client; a metered one also counts what its requests consume.
+    const createAdapter = (meter?: UsageMeter): ImageProvider => {
+        const recordTokens = (usage: GenerateContentResponseUsageMetadata | undefined) => {
+            if (!meter || !usage) return;
+            meter.inputTokens += usage.promptTokenCount ?? 0;
+            // Thinking tokens are billed as output.
+            meter.outputTokens += (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0);
+        };
+
+        const generateContent = async (params: GenerateContentParameters): Promise<GenerateContentResponse> => {
+            if (meter) meter.model = params.model;
+            const response = await getClient().models.generateContent(params);
+            recordTokens(response.usageMetadata);
+            return response;
+        };
+
+        return {
+            id: 'gemini',
+            metered: createAdapter,
+
+            generateImage: async (prompt: string, aspectRatio: GeneratorAspectRatio, numberOfImages: ImageCount, options: GenerationOptions, signal?: AbortSignal): Promise<GeneratedImage[]> => {
+                if (meter) meter.model = options.model;
+                const response = await getClient().models.generateImages({
+                    model: options.model,
+                    prompt,
+                    config: { ...buildGenerationConfig(aspectRatio, numberOfImages, options), abortSignal: signal },
+                });
+
+                const generatedImages = response.generatedImages ?? [];
+                const images = generatedImages
+                    .map((generated) => generated.image?.imageBytes)
+                    .filter((imageBytes): imageBytes is string => Boolean(imageBytes))
+                    .map((imageBytes) => ({ imageBytes, mimeType: options.outputMimeType }));
+                if (images.length === 0) {
+                    const reasons = generatedImages
+                        .map((generated) => generated.raiFilteredReason)
+                        .filter((reason): reason is string => Boolean(reason));
+                    if (reasons.length > 0) {
+                        throw new ServiceError('safety', "Every image was removed by the safety filters.", { blockedReasons: [...new Set(reasons)] });
+                    }
+                    throw new ServiceError('empty', "No image was generated.");
+                }
+                return images;
+            },
+
+            editImage: async (request: ImageEditRequest, signal?: AbortSignal): Promise<GeneratedImage> => {
+                const parts: Part[] = [{ inlineData: { mimeType: request.image.mimeType, data: request.image.data } }];
+                if (request.mask) {
+                    parts.push({ inlineData: { mimeType: request.mask.mimeType, data: request.mask.data } });
+                }
+                parts.push({ text: request.mask ? `${INPAINT_INSTRUCTION}\n\n${request.instruction}` : request.instruction });
+
+                const response = await generateContent({
+                    model: IMAGE_EDIT_MODEL,
+                    contents: { parts },
+                    config: { responseModalities: [Modality.IMAGE], abortSignal: signal },
+                });
+
+                throwIfBlocked(response);
+                const image = response.candidates?.[0]?.content?.parts?.find((part) => part.inlineData?.data)?.inlineData;
+                if (!image?.data) {
+                    throw new ServiceError('empty', "No edited image was returned.");
+                }
+                return { imageBytes: image.data, mimeType: image.mimeType ?? 'image/png' };
+            },
+
+            analyzeImage: async (imageData: ImageData, instruction: string, signal?: AbortSignal): Promise<string> => {
+                const imagePart = {
+                    inlineData: {
+                        mimeType: imageData.mimeType,
+                        data: imageData.data,
+                    },
+                };
+
+                const textPart = {
+                    text: instruction
+                };
+
+                const response = await generateContent({
+                    model: getAnalysisModel(),
+                    contents: { parts: [imagePart, textPart] },
+                    config: { abortSignal: signal },
+                });
+
+                throwIfBlocked(response);
+                return response.text ?? '';
+            },
+
+            analyzeImageStream: async function* (imageData: ImageData, instruction: string, signal?: AbortSignal): AsyncIterable<string> {
+                const model = getAnalysisModel();
+                if (meter) meter.model = model;
+                const stream = await getClient().models.generateContentStream({
+                    model,
+                    contents: {
+                        parts: [
+                            { inlineData: { mimeType: imageData.mimeType, data: imageData.data } },
+                            { text: instruction },
+                        ],
+                    },
+                    config: { abortSignal: signal },
+                });
+
+                // Every chunk carries the running totals, so only the last one counts.
+                let usage: GenerateContentResponseUsageMetadata | undefined;
+                try {
+                    for await (const chunk of stream) {
+                        usage = chunk.usageMetadata ?? usage;
+                        throwIfBlocked(chunk);
+                        if (chunk.text) yield chunk.text;
+                    }
+                } finally {
+                    recordTokens(usage);
+                }
+            },
+
+            analyzeImageStructured: async (imageData: ImageData, instruction: string, signal?: AbortSignal): Promise<string> => {
+                const response = await generateContent({
+                    model: getAnalysisModel(),
+                    contents: {
+                        parts: [
+                            { inlineData: { mimeType: imageData.mimeType, data: imageData.data } },
+                            { text: `${instruction}\n\n${STRUCTURED_ANALYSIS_INSTRUCTION}` },
+                        ],
+                    },
+                    config: {
+                        responseMimeType: 'application/json',
+                        responseSchema: imageAnalysisSchema,
+                        abortSignal: signal,
+                    },
+                });
+
+                throwIfBlocked(response);
+                return response.text ?? '';
+            },
+
+            detectObjects: async (imageData: ImageData): Promise<string> => {
+                const response = await generateContent({
+                    model: getAnalysisModel(),
+                    contents: {
+                        parts: [
+                            { inlineData: { mimeType: imageData.mimeType, data: imageData.data } },
+                            { text: OBJECT_DETECTION_PROMPT },
+                        ],
+                    },
+                    config: {
+                        responseMimeType: 'application/json',
+                        responseSchema: detectedObjectsSchema,
+                    },
+                });
+
+                throwIfBlocked(response);
+                return response.text ?? '';
+            },
+
+            chat: async (imageData: ImageData, turns: ChatMessage[]): Promise<string> => {
+                const contents = turns.map((turn, index) => ({
+                    role: turn.role,
+                    parts: index === 0
+                        ? [{ inlineData: { mimeType: imageData.mimeType, data: imageData.data } }, { text: turn.text }]
+                        : [{ text: turn.text }],
+                }));
+
+                const response = await generateContent({
+                    model: getAnalysisModel(),
+                    contents,
+                });
+
+                throwIfBlocked(response);
+                return response.text ?? '';
+            },
+
+            enhancePrompt: async (idea: string, signal?: AbortSignal): Promise<string> => {
+                const response = await generateContent({
+                    model: getAnalysisModel(),
+                    contents: idea,
+                    config: { systemInstruction: ENHANCE_PROMPT_INSTRUCTION, abortSignal: signal },
+                });
+
+                throwIfBlocked(response);
+                return cleanPrompt(response.text);
+            },
+
+            describeAsPrompt: async (imageData: ImageData, analysis: string, signal?: AbortSignal): Promise<string> => {
+                const response = await generateContent({
+                    model: getAnalysisModel(),
+                    contents: {
+                        parts: [
+                            { inlineData: { mimeType: imageData.mimeType, data: imageData.data } },
+                            { text: `Analysis:\n${analysis}` },
+                        ],
+                    },
+                    config: { systemInstruction: DESCRIBE_AS_PROMPT_INSTRUCTION, abortSignal: signal },
+                });
+
+                throwIfBlocked(response);
+                return cleanPrompt(response.text);
+            },
+        };
+    };
+
+    return createAdapter();
+};
@@ -1,61 +1,409 @@
-import { GoogleGenAI } from "@google/genai";
-import { GeneratorAspectRatio } from '../types';
+import { ChatMessage, DetectedObject, GeneratorAspectRatio, GeneratedImage, GenerationOptions, ImageAnalysis, ImageCount, ImageData, ImageEditRequest, defaultGenerationOptions, defaultAnalysisPrompt } from '../types';
+import { ImageProvider, ProviderId, providerIds, UsageMeter } from './imageProvider';
+import { createGeminiProvider, validateGeminiApiKey } from './geminiProvider';
+import { getApiKey, getApiKeyStatus } from './apiKeyStore';
+import { getSettings } from './settingsService';
+import { parseDetectedObjects, parseImageAnalysis } from './analysisValidation';
+import { abortable, createAbortError, delay, isAbortError, throwIfAborted } from '../utils/abort';
+import { getServiceErrorKind, isTransientError, ServiceError, toServiceError } from './serviceErrors';
+import { assertWithinBudget, estimateCallCost, recordUsage, UsageAction } from './usageService';
+import { CacheOptions, hashRequest, readCachedResponse, writeCachedResponse } from './responseCache';
+import { createMockProvider, defaultMockProviderOptions, MockProviderOptions } from './mockProvider';
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable is not set");
+const PROVIDER_STORAGE_KEY = 'imageProvider';
+const MOCK_OPTIONS_STORAGE_KEY = 'mockProviderOptions';
+// Transient failures are retried twice, after 1s and 2s.
+const MAX_TRANSIENT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+
+// The key comes from the Settings tab at call time; a locked key gets its own message.
+const requireApiKey = (): string | undefined => {
+    if (getApiKeyStatus() === 'locked') {
+        throw new ServiceError('auth', "The Gemini API key is locked. Unlock it in Settings.");
+    }
+    return getApiKey();
+};
+
+const loadMockOptions = (): MockProviderOptions => {
+    try {
+        const stored = localStorage.getItem(MOCK_OPTIONS_STORAGE_KEY);
+        if (stored) {
+            return { ...defaultMockProviderOptions, ...JSON.parse(stored) };
+        }
+    } catch (e) {
+        console.error("Failed to parse mock provider options from localStorage", e);
+    }
+    return defaultMockProviderOptions;
+};
+
+const loadProviderId = (): ProviderId => {
+    const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (stored && (providerIds as readonly string[]).includes(stored)) {
+        return stored as ProviderId;
+    }
+    // Without a key the real backend cannot work, so default to the offline one.
+    return getApiKeyStatus() === 'missing' ? 'mock' : 'gemini';
+};
+
+let mockOptions = loadMockOptions();
+
+const providers: Record<ProviderId, ImageProvider> = {
+    gemini: createGeminiProvider(requireApiKey, () => getSettings().analysisModel),
+    mock: createMockProvider(() => mockOptions),
+};
+
+let activeProviderId = loadProviderId();
+const providerListeners = new Set<() => void>();
+
+export const getActiveProviderId = (): ProviderId => activeProviderId;
+
+export const setActiveProvider = (id: ProviderId) => {
+    activeProviderId = id;
+    localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+    providerListeners.forEach((listener) => listener());
+};
+
+/**
+ * Calls `listener` after every backend switch, including those made by Settings.
+ */
+export const subscribeToProvider = (listener: () => void): (() => void) => {
+    providerListeners.add(listener);
+    return () => { providerListeners.delete(listener); };
+};
+
+export const getMockProviderOptions = (): MockProviderOptions => mockOptions;
+
+export const setMockProviderOptions = (options: Partial<MockProviderOptions>) => {
+    mockOptions = { ...mockOptions, ...options };
+    localStorage.setItem(MOCK_OPTIONS_STORAGE_KEY, JSON.stringify(mockOptions));
+};
+
+export const hasApiKey = (): boolean => getApiKeyStatus() !== 'missing';
+
+/**
+ * Checks that the Gemini API accepts `apiKey`, whichever backend is active.
+ */
+export const validateApiKey = async (apiKey: string, signal?: AbortSignal): Promise<void> => {
+    try {
+        await validateGeminiApiKey(apiKey.trim(), signal);
+    } catch (error) {
+        rethrowIfAborted(error, signal);
+        console.error("Error validating API key:", error);
+        throw new Error("The API key was rejected. Check that it is correct and enabled for the Gemini API.", { cause: error });
+    }
+};
+
+// Cancellation is not a failure: let it through untouched so callers can tell.
+const rethrowIfAborted = (error: unknown, signal?: AbortSignal) => {
+    if (isAbortError(error)) throw error;
+    if (signal?.aborted) throw createAbortError();
+};
+
+interface CallOptions<T> {
+    signal?: AbortSignal;
+    /** Checked before every retry; a stream that has shown text must not start over. */
+    canRetry?: () => boolean;
+    /** Expected cost in US dollars, checked against a blocking budget. Defaults to recent calls of the same kind. */
+    estimate?: number;
+    /** Number of images in a result, for the usage record. */
+    countImages?: (result: T) => number;
+    /**
+     * Everything a repeatable request's result depends on, besides the provider.
+     * With it, stored results are reused and identical calls in flight share one request.
+     */
+    cacheKey?: unknown[];
+    cache?: CacheOptions;
+    /** Transient failures retried here; defaults to MAX_TRANSIENT_RETRIES. */
+    retries?: number;
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * Per-call options of the public wrappers: the cache controls, and how many
+ * transient failures the service retries. Job queues pass `retries: 0` since
+ * they retry jobs themselves and pause every worker on rate limits.
+ */
+export interface RequestOptions extends CacheOptions {
+    retries?: number;
+}
 
-export const generateImage = async (prompt: string, aspectRatio: GeneratorAspectRatio): Promise<string> => {
+// Cached calls that are waiting for the backend, by cache key.
+const pendingCalls = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs a provider call, retrying rate limits, network errors, timeouts and
+ * outages with exponential backoff. The final failure is logged as
+ * `Error <description>:` and thrown as a ServiceError; unclassified failures
+ * get `fallback` as their message. Every call is recorded as `action` in the
+ * usage log, and refused up front when it would break a blocking budget.
+ */
+const runProviderCall = async <T>(
+    action: UsageAction,
+    description: string,
+    fallback: string,
+    call: (provider: ImageProvider) => Promise<T>,
+    { signal, canRetry = () => true, estimate, countImages, retries = MAX_TRANSIENT_RETRIES }: CallOptions<T> = {},
+): Promise<T> => {
+    const provider = providers[activeProviderId];
+    // The offline backend is free.
+    if (provider.id !== 'mock') {
+        assertWithinBudget(estimate ?? estimateCallCost(action));
+    }
+    const meter: UsageMeter = { inputTokens: 0, outputTokens: 0 };
+    const meteredProvider = provider.metered(meter);
+    const startedAt = performance.now();
+    const record = (outcome: 'success' | 'failure' | 'cancelled', attempts: number, images: number, error?: unknown) => recordUsage({
+        provider: provider.id,
+        action,
+        model: meter.model ?? provider.id,
+        latencyMs: Math.round(performance.now() - startedAt),
+        inputTokens: meter.inputTokens,
+        outputTokens: meter.outputTokens,
+        images,
+        outcome,
+        errorKind: error === undefined ? undefined : getServiceErrorKind(error) ?? undefined,
+        attempts,
+    });
+
+    let attempt = 1;
+    let result: T;
     try {
-        const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
-            prompt,
-            config: {
-                numberOfImages: 1,
-                outputMimeType: 'image/jpeg',
-                aspectRatio,
-            },
-        });
-
-        if (response.generatedImages && response.generatedImages.length > 0) {
-            return response.generatedImages[0].image.imageBytes;
-        } else {
-            throw new Error("No image was generated.");
+        for (; ; attempt++) {
+            try {
+                result = await call(meteredProvider);
+                break;
+            } catch (error) {
+                rethrowIfAborted(error, signal);
+                if (attempt > retries || !isTransientError(error) || !canRetry()) {
+                    console.error(`Error ${description}:`, error);
+                    throw toServiceError(error, fallback, attempt);
+                }
+                console.warn(`Retrying after a transient error ${description}:`, error);
+                await delay(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
+            }
         }
     } catch (error) {
-        console.error("Error generating image:", error);
-        throw new Error("Failed to generate image. Please check your prompt and API key.");
+        record(isAbortError(error) ? 'cancelled' : 'failure', attempt, 0, error);
+        throw error;
     }
+    record('success', attempt, countImages?.(result) ?? 0);
+    return result;
 };
 
-export const analyzeImage = async (imageData: { mimeType: string; data: string }): Promise<string> => {
+/**
+ * `runProviderCall`, answered from the response cache when `options.cacheKey`
+ * is given and a result is stored, unless the call or the settings bypass it.
+ */
+const callProvider = async <T>(
+    action: UsageAction,
+    description: string,
+    fallback: string,
+    call: (provider: ImageProvider) => Promise<T>,
+    options: CallOptions<T> = {},
+): Promise<T> => {
+    const { signal, cacheKey, cache } = options;
+    if (!cacheKey) {
+        return runProviderCall(action, description, fallback, call, options);
+    }
+
+    const key = await hashRequest([activeProviderId, action, ...cacheKey]);
+    cache?.onKey?.(key);
+    if (!cache?.bypass && !getSettings().bypassResponseCache) {
+        const hit = await readCachedResponse<T>(key);
+        throwIfAborted(signal);
+        if (hit) {
+            cache?.onHit?.(hit.storedAt, hit.historyEntryId);
+            return hit.value;
+        }
+    }
+
+    const pending = pendingCalls.get(key) as Promise<T> | undefined;
+    if (pending) {
+        try {
+            return await abortable(pending, signal);
+        } catch (error) {
+            // The call we joined was cancelled by its own caller; make our own.
+            if (!isAbortError(error) || signal?.aborted) throw error;
+        }
+    }
+
+    const request = runProviderCall(action, description, fallback, call, options);
+    pendingCalls.set(key, request);
     try {
-        const imagePart = {
-            inlineData: {
-                mimeType: imageData.mimeType,
-                data: imageData.data,
-            },
-        };
+        const result = await request;
+        void writeCachedResponse(key, result);
+        return result;
+    } finally {
+        if (pendingCalls.get(key) === request) pendingCalls.delete(key);
+    }
+};
 
-        const textPart = {
-            text: 'Describe this image in detail. What is happening, who are the subjects, what are the objects, and what is the context or mood?'
-        };
-        
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [imagePart, textPart] },
-        });
+/**
+ * Whether a failed call was rejected for exceeding the backend's rate limit or
+ * quota. Looks through the `cause` chain the wrappers below attach.
+ */
+export const isRateLimitError = (error: unknown): boolean => {
+    if (getServiceErrorKind(error) === 'rateLimit') return true;
+    for (let current = error; current; current = (current as { cause?: unknown }).cause) {
+        const status = (current as { status?: unknown }).status;
+        if (status === 429) return true;
+        const message = current instanceof Error ? current.message : String(current);
+        if (/\b429\b|RESOURCE_EXHAUSTED|rate limit/i.test(message)) return true;
+        if (typeof current !== 'object') break;
+    }
+    return false;
+};
+
+export const generateImage = async (
+    prompt: string,
+    aspectRatio: GeneratorAspectRatio,
+    numberOfImages: ImageCount = 1,
+    options: GenerationOptions = defaultGenerationOptions,
+    signal?: AbortSignal,
+    requestOptions?: RequestOptions,
+): Promise<GeneratedImage[]> => {
+    return callProvider(
+        'generate',
+        'generating image',
+        "Failed to generate image.",
+        (provider) => provider.generateImage(prompt, aspectRatio, numberOfImages, options, signal),
+        {
+            signal,
+            estimate: estimateCallCost('generate', options.model, numberOfImages),
+            countImages: (images) => images.length,
+            // Without a seed every run is meant to give new pictures.
+            cacheKey: options.seed !== null ? [prompt, aspectRatio, numberOfImages, options] : undefined,
+            cache: requestOptions,
+            retries: requestOptions?.retries,
+        },
+    );
+};
+
+export const editImage = async (request: ImageEditRequest, signal?: AbortSignal): Promise<GeneratedImage> => {
+    return callProvider(
+        'edit',
+        'editing image',
+        "Failed to edit image.",
+        (provider) => provider.editImage({ ...request, instruction: request.instruction.trim() }, signal),
+        { signal, countImages: () => 1 },
+    );
+};
+
+// Streamed and plain text analyses are the same answer, so they share cache entries.
+const textAnalysisCacheKey = (imageData: ImageData, instruction: string) =>
+    ['text', getSettings().analysisModel, instruction.trim() || defaultAnalysisPrompt, imageData.mimeType, imageData.data];
+
+export const analyzeImage = async (imageData: ImageData, instruction: string = defaultAnalysisPrompt, signal?: AbortSignal, requestOptions?: RequestOptions): Promise<string> => {
+    return callProvider(
+        'analyze',
+        'analyzing image',
+        "Failed to analyze image.",
+        (provider) => provider.analyzeImage(imageData, instruction.trim() || defaultAnalysisPrompt, signal),
+        { signal, cacheKey: textAnalysisCacheKey(imageData, instruction), cache: requestOptions, retries: requestOptions?.retries },
+    );
+};
 
-        return response.text;
+/**
+ * Streams an analysis, calling `onText` with the accumulated text after every
+ * chunk. Resolves with the full text once the stream ends. Only failures
+ * before the first chunk are retried, so shown text is never replaced.
+ * Cached and shared results arrive as a single `onText` call.
+ */
+export const analyzeImageStream = async (
+    imageData: ImageData,
+    instruction: string,
+    onText: (text: string) => void,
+    signal?: AbortSignal,
+    requestOptions?: RequestOptions,
+): Promise<string> => {
+    let text = '';
+    const result = await callProvider('analyze', 'analyzing image', "Failed to analyze image.", async (provider) => {
+        for await (const chunk of provider.analyzeImageStream(imageData, instruction.trim() || defaultAnalysisPrompt, signal)) {
+            text += chunk;
+            onText(text);
+        }
+        return text;
+    }, {
+        signal,
+        canRetry: () => text === '',
+        cacheKey: textAnalysisCacheKey(imageData, instruction),
+        cache: requestOptions,
+        retries: requestOptions?.retries,
+    });
+    if (result !== text) onText(result);
+    return result;
+};
+
+/**
+ * Validates a provider's JSON inside the call, so malformed answers are never
+ * cached or shared and fail as a ServiceError the UI offers to retry.
+ */
+const parseResponse = <T>(json: string, parse: (json: string) => T): T => {
+    try {
+        return parse(json);
     } catch (error) {
-        console.error("Error analyzing image:", error);
-        throw new Error("Failed to analyze image. The image might be invalid or the service is unavailable.");
+        throw new ServiceError('unknown', error instanceof Error ? error.message : "The model returned an invalid response.", { cause: error });
     }
 };
 
-export const fileToBase64 = (file: File): Promise<string> => {
+export const analyzeImageStructured = async (imageData: ImageData, instruction: string = defaultAnalysisPrompt, signal?: AbortSignal, requestOptions?: RequestOptions): Promise<ImageAnalysis> => {
+    return callProvider(
+        'analyze',
+        'analyzing image',
+        "Failed to analyze image.",
+        async (provider) => parseResponse(await provider.analyzeImageStructured(imageData, instruction.trim() || defaultAnalysisPrompt, signal), parseImageAnalysis),
+        {
+            signal,
+            cacheKey: ['structured', getSettings().analysisModel, instruction.trim() || defaultAnalysisPrompt, imageData.mimeType, imageData.data],
+            cache: requestOptions,
+            retries: requestOptions?.retries,
+        },
+    );
+};
+
+export const detectObjects = async (imageData: ImageData, requestOptions?: RequestOptions): Promise<DetectedObject[]> => {
+    return callProvider('detect', 'detecting objects', "Failed to detect objects.", async (provider) => parseResponse(await provider.detectObjects(imageData), parseDetectedObjects), {
+        cacheKey: [getSettings().analysisModel, imageData.mimeType, imageData.data],
+        cache: requestOptions,
+        retries: requestOptions?.retries,
+    });
+};
+
+export const chatAboutImage = async (imageData: ImageData, turns: ChatMessage[]): Promise<string> => {
+    return callProvider('chat', 'chatting about image', "Failed to get a reply. Please try again.", (provider) => provider.chat(imageData, turns));
+};
+
+export const enhancePrompt = async (idea: string, signal?: AbortSignal): Promise<string> => {
+    const prompt = await callProvider(
+        'enhance',
+        'enhancing prompt',
+        "Failed to enhance the prompt. Please try again.",
+        (provider) => provider.enhancePrompt(idea.trim(), signal),
+        { signal },
+    );
+    if (!prompt) {
+        throw new ServiceError('empty', "The model returned an empty prompt. Please try again.");
+    }
+    return prompt;
+};
+
+/**
+ * Turns an analysis of a reference image into a prompt for generating a similar picture.
+ */
+export const describeAsPrompt = async (imageData: ImageData, analysis: string, signal?: AbortSignal): Promise<string> => {
+    const prompt = await callProvider(
+        'describe',
+        'writing prompt from analysis',
+        "Failed to turn the analysis into a prompt. Please try again.",
+        (provider) => provider.describeAsPrompt(imageData, analysis, signal),
+        { signal },
+    );
+    if (!prompt) {
+        throw new ServiceError('empty', "The model returned an empty prompt. Please try again.");
+    }
+    return prompt;
+};
+
+export const fileToBase64 = (file: Blob): Promise<string> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
         reader.readAsDataURL(file);
@@ -68,4 +416,4 @@ export const fileToBase64 = (file: File): Promise<string> => {
         };
         reader.onerror = (error) => reject(error);
     });
-};
\ No newline at end of file
+};
@@ -0,0 +1,105 @@
+import { HistoryEntry } from '../types';
+import { HISTORY_STORE, openDatabase, requestToPromise, transactionDone } from './db';
+import { CacheOptions, linkCachedResponse } from './responseCache';
+import { extensionForMimeType } from '../utils/download';
+import { createZip, ZipEntry } from '../utils/zip';
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'createdAt'>;
+
+export const addHistoryEntry = async (entry: NewHistoryEntry): Promise<HistoryEntry> => {
+    const db = await openDatabase();
+    const stored: HistoryEntry = { ...entry, id: crypto.randomUUID(), createdAt: Date.now() };
+    const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+    transaction.objectStore(HISTORY_STORE).add(stored);
+    await transactionDone(transaction);
+    return stored;
+};
+
+export const getHistoryEntry = async (id: string): Promise<HistoryEntry | undefined> => {
+    const db = await openDatabase();
+    return requestToPromise(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).get(id) as IDBRequest<HistoryEntry | undefined>);
+};
+
+/**
+ * What the response cache reported about one service call.
+ */
+export interface CachedResponseRef {
+    key?: string;
+    historyEntryId?: string;
+}
+
+/**
+ * Cache callbacks that fill in `response` for `addResponseHistoryEntry`;
+ * `onHit` is still called with the time the result was stored.
+ */
+export const trackCachedResponse = (response: CachedResponseRef, onHit?: (storedAt: number) => void): CacheOptions => ({
+    onKey: (key) => { response.key = key; },
+    onHit: (storedAt, historyEntryId) => {
+        response.historyEntryId = historyEntryId;
+        onHit?.(storedAt);
+    },
+});
+
+/**
+ * Records a service result in history. A result from the response cache
+ * reuses the entry linked to it while that entry still exists; otherwise a
+ * new entry is added and linked, so the next hit finds it.
+ */
+export const addResponseHistoryEntry = async (entry: NewHistoryEntry, response: CachedResponseRef): Promise<HistoryEntry> => {
+    if (response.historyEntryId) {
+        const existing = await getHistoryEntry(response.historyEntryId);
+        if (existing) return existing;
+    }
+    const stored = await addHistoryEntry(entry);
+    if (response.key) await linkCachedResponse(response.key, stored.id);
+    return stored;
+};
+
+/**
+ * Returns every stored entry, newest first.
+ */
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+    const db = await openDatabase();
+    const index = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).index('createdAt');
+    const entries = await requestToPromise(index.getAll() as IDBRequest<HistoryEntry[]>);
+    return entries.reverse();
+};
+
+export const deleteHistoryEntries = async (ids: string[]): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = transaction.objectStore(HISTORY_STORE);
+    ids.forEach((id) => store.delete(id));
+    await transactionDone(transaction);
+};
+
+/**
+ * Packs the given entries into a zip: every image plus a `history.json`
+ * manifest describing the runs and pointing at their image files. Edits also
+ * include their source image and mask.
+ */
+export const exportHistoryEntries = async (entries: HistoryEntry[]): Promise<Blob> => {
+    const files: ZipEntry[] = [];
+    const manifest = [];
+
+    for (const entry of entries) {
+        const imageFiles: string[] = [];
+        for (const [index, image] of entry.images.entries()) {
+            const name = `images/${entry.id}-${index + 1}.${extensionForMimeType(image.type)}`;
+            files.push({ name, data: new Uint8Array(await image.arrayBuffer()) });
+            imageFiles.push(name);
+        }
+        const extraFiles: Record<string, string> = {};
+        for (const [key, blob] of [['sourceImage', entry.sourceImage], ['mask', entry.mask]] as const) {
+            if (!blob) continue;
+            const name = `images/${entry.id}-${key === 'sourceImage' ? 'source' : key}.${extensionForMimeType(blob.type)}`;
+            files.push({ name, data: new Uint8Array(await blob.arrayBuffer()) });
+            extraFiles[key] = name;
+        }
+        const { images, sourceImage, mask, ...metadata } = entry;
+        manifest.push({ ...metadata, createdAt: new Date(entry.createdAt).toISOString(), images: imageFiles, ...extraFiles });
+    }
+
+    files.push({ name: 'history.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+    return createZip(files);
+};
@@ -0,0 +1,49 @@
+import { ChatMessage, GeneratorAspectRatio, GeneratedImage, GenerationOptions, ImageCount, ImageData, ImageEditRequest } from '../types';
+
+/**
+ * Identifiers of the backends the studio can talk to.
+ * `gemini` calls the real Google APIs, `mock` runs fully offline.
+ */
+export const providerIds = ["gemini", "mock"] as const;
+export type ProviderId = (typeof providerIds)[number];
+
+/**
+ * Collects what one service call consumed. Adapters name the model before
+ * each request and add the token counts their responses report.
+ */
+export interface UsageMeter {
+    model?: string;
+    inputTokens: number;
+    outputTokens: number;
+}
+
+/**
+ * A backend capable of producing and describing images.
+ * Adapters may throw any error; the service layer is responsible for
+ * logging it and turning it into a user-facing message. Methods taking a
+ * `signal` must reject with an `AbortError` once it fires.
+ */
+export interface ImageProvider {
+    readonly id: ProviderId;
+    /** A view of this provider whose calls record into `meter`; adapters without usage data return themselves. */
+    metered(meter: UsageMeter): ImageProvider;
+    generateImage(prompt: string, aspectRatio: GeneratorAspectRatio, numberOfImages: ImageCount, options: GenerationOptions, signal?: AbortSignal): Promise<GeneratedImage[]>;
+    /** Returns a new version of `request.image` changed according to the instruction. */
+    editImage(request: ImageEditRequest, signal?: AbortSignal): Promise<GeneratedImage>;
+    analyzeImage(imageData: ImageData, instruction: string, signal?: AbortSignal): Promise<string>;
+    /** Yields the analysis text in chunks as the model produces it. */
+    analyzeImageStream(imageData: ImageData, instruction: string, signal?: AbortSignal): AsyncIterable<string>;
+    /** Returns the raw JSON text of an `ImageAnalysis`; validation happens in the service layer. */
+    analyzeImageStructured(imageData: ImageData, instruction: string, signal?: AbortSignal): Promise<string>;
+    /** Returns the raw JSON text of a `{ label, box2d }` array, validated like structured analyses. */
+    detectObjects(imageData: ImageData): Promise<string>;
+    /**
+     * Continues a conversation about an image. `turns` alternate user/model and
+     * end with the new user message; the image belongs to the first user turn.
+     */
+    chat(imageData: ImageData, turns: ChatMessage[]): Promise<string>;
+    /** Expands a short idea into a detailed image generation prompt. */
+    enhancePrompt(idea: string, signal?: AbortSignal): Promise<string>;
+    /** Writes a generation prompt that would recreate the image, guided by an analysis of it. */
+    describeAsPrompt(imageData: ImageData, analysis: string, signal?: AbortSignal): Promise<string>;
+}
@@ -0,0 +1,113 @@
+import { delay, isAbortError } from '../utils/abort';
+
+export const jobStatuses = ["pending", "running", "retrying", "done", "failed", "cancelled"] as const;
+export type JobStatus = (typeof jobStatuses)[number];
+
+export interface Job<T, R> {
+    item: T;
+    status: JobStatus;
+    /** Number of attempts started so far. */
+    attempts: number;
+    result?: R;
+    error?: string;
+}
+
+export interface QueueOptions {
+    concurrency: number;
+    /** Retries after the first attempt; a job is tried at most `maxRetries + 1` times. */
+    maxRetries: number;
+    /** Delay before the first retry; doubles with every further attempt. */
+    baseDelayMs: number;
+    signal?: AbortSignal;
+    /** Failures for which this returns false are not retried. Defaults to retrying everything. */
+    isRetryable?: (error: unknown) => boolean;
+    /**
+     * Rate-limit failures pause the whole queue instead of just the failing job,
+     * since every other request would be rejected as well.
+     */
+    isRateLimited?: (error: unknown) => boolean;
+}
+
+const MAX_DELAY_MS = 60_000;
+
+const backoffDelay = (baseDelayMs: number, attempt: number) => {
+    const exponential = Math.min(baseDelayMs * 2 ** (attempt - 1), MAX_DELAY_MS);
+    // Full jitter keeps concurrent workers from retrying in lock-step.
+    return exponential / 2 + Math.random() * exponential / 2;
+};
+
+/**
+ * Runs `worker` over every item with at most `options.concurrency` calls in
+ * flight, retrying failures with exponential backoff. `onUpdate` receives a
+ * fresh snapshot of all jobs whenever one changes. Resolves once every job has
+ * settled; aborting the signal marks the unfinished jobs as cancelled.
+ */
+export const runQueue = async <T, R>(
+    items: T[],
+    worker: (item: T, signal?: AbortSignal) => Promise<R>,
+    options: QueueOptions,
+    onUpdate: (jobs: Job<T, R>[]) => void,
+): Promise<Job<T, R>[]> => {
+    const { concurrency, maxRetries, baseDelayMs, signal, isRetryable = () => true, isRateLimited = () => false } = options;
+    const jobs: Job<T, R>[] = items.map((item) => ({ item, status: 'pending', attempts: 0 }));
+    let nextIndex = 0;
+    let cooldownUntil = 0;
+
+    const update = (index: number, changes: Partial<Job<T, R>>) => {
+        jobs[index] = { ...jobs[index], ...changes };
+        onUpdate([...jobs]);
+    };
+
+    const waitForCooldown = async () => {
+        while (Date.now() < cooldownUntil) {
+            await delay(cooldownUntil - Date.now(), signal);
+        }
+    };
+
+    const runJob = async (index: number) => {
+        while (true) {
+            await waitForCooldown();
+            const attempts = jobs[index].attempts + 1;
+            update(index, { status: 'running', attempts, error: undefined });
+            try {
+                const result = await worker(jobs[index].item, signal);
+                update(index, { status: 'done', result });
+                return;
+            } catch (error) {
+                if (isAbortError(error)) throw error;
+                const message = error instanceof Error ? error.message : 'An unknown error occurred.';
+                if (attempts > maxRetries || !isRetryable(error)) {
+                    update(index, { status: 'failed', error: message });
+                    return;
+                }
+                update(index, { status: 'retrying', error: message });
+                const wait = backoffDelay(baseDelayMs, attempts);
+                if (isRateLimited(error)) {
+                    cooldownUntil = Math.max(cooldownUntil, Date.now() + wait);
+                } else {
+                    await delay(wait, signal);
+                }
+            }
+        }
+    };
+
+    const runWorker = async () => {
+        while (nextIndex < jobs.length && !signal?.aborted) {
+            await runJob(nextIndex++);
+        }
+    };
+
+    onUpdate([...jobs]);
+    // Wait for every worker, even after an abort, so no job changes after we return.
+    const outcomes = await Promise.allSettled(Array.from({ length: Math.max(1, Math.min(concurrency, jobs.length)) }, runWorker));
+    const failure = outcomes.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected' && !isAbortError(outcome.reason));
+    if (failure) throw failure.reason;
+
+    jobs.forEach((job, index) => {
+        if (job.status !== 'done' && job.status !== 'failed') {
+            jobs[index] = { ...job, status: 'cancelled' };
+        }
+    });
+    onUpdate([...jobs]);
+    return jobs;
+};
@@ -0,0 +1,32 @@
+import { ColorLut } from '../types';
+import { LUT_STORE, openDatabase, requestToPromise, transactionDone } from './db';
+import { parseCubeLut } from '../utils/cubeLut';
+
+/**
+ * Parses a `.cube` file and stores the LUT so edits can refer to it by id.
+ */
+export const importCubeLut = async (file: File): Promise<ColorLut> => {
+    const parsed = parseCubeLut(await file.text(), file.name.replace(/\.cube$/i, ''));
+    const lut: ColorLut = { ...parsed, id: crypto.randomUUID() };
+    const db = await openDatabase();
+    const transaction = db.transaction(LUT_STORE, 'readwrite');
+    transaction.objectStore(LUT_STORE).add(lut);
+    await transactionDone(transaction);
+    return lut;
+};
+
+/**
+ * Returns every stored LUT, sorted by name.
+ */
+export const listLuts = async (): Promise<ColorLut[]> => {
+    const db = await openDatabase();
+    const luts = await requestToPromise(db.transaction(LUT_STORE).objectStore(LUT_STORE).getAll() as IDBRequest<ColorLut[]>);
+    return luts.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const deleteLut = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(LUT_STORE, 'readwrite');
+    transaction.objectStore(LUT_STORE).delete(id);
+    await transactionDone(transaction);
+};
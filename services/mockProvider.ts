@@ -0,0 +1,219 @@
+import { ChatMessage, GeneratorAspectRatio, GeneratedImage, GenerationOptions, ImageCount, ImageData, ImageEditRequest } from '../types';
+import { ImageProvider } from './imageProvider';
+import { delay, throwIfAborted } from '../utils/abort';
+
+export interface MockProviderOptions {
+    /** Artificial delay applied to every call, in milliseconds. */
+    latencyMs: number;
+    /** Probability (0–1) that a call fails. 1 makes every call fail. */
+    failureRate: number;
+    /** Seed for the failure injection sequence, so failing runs are reproducible. */
+    seed: number;
+}
+
+export const defaultMockProviderOptions: MockProviderOptions = {
+    latencyMs: 600,
+    failureRate: 0,
+    seed: 1,
+};
+
+const cannedAnalyses = [
+    'A calm, evenly lit scene. The main subject sits near the centre of the frame against a soft, out-of-focus background. Colours are muted and cool, giving the picture a quiet, contemplative mood.',
+    'A busy composition with several objects arranged across the frame. Strong directional light from the left creates crisp shadows, and the saturated palette makes the image feel energetic and playful.',
+    'A close-up shot with a shallow depth of field. Fine surface textures are clearly visible in the foreground while the background dissolves into blur. The warm tones suggest late afternoon light and a cosy atmosphere.',
+    'A wide view with a clear horizon line dividing the frame. The subject is small relative to its surroundings, emphasising scale and open space. The overall mood is serene and slightly melancholic.',
+];
+
+const mockSubjects = ['person', 'dog', 'coffee mug', 'bicycle', 'laptop', 'house plant', 'car', 'book'];
+const mockMoods = ['calm', 'energetic', 'cosy', 'melancholic'];
+const mockPromptDetails = [
+    'soft golden-hour light, shallow depth of field, shot on a 50mm lens',
+    'dramatic rim lighting, moody teal and orange palette, cinematic composition',
+    'bright diffused daylight, pastel colors, clean minimalist background',
+    'highly detailed digital painting, rich textures, volumetric fog',
+];
+const mockColors = [
+    { hex: '#2f4858', name: 'Deep teal' },
+    { hex: '#f6ae2d', name: 'Saffron' },
+    { hex: '#f26419', name: 'Orange' },
+    { hex: '#86bbd8', name: 'Sky blue' },
+    { hex: '#e0e0e0', name: 'Light grey' },
+];
+
+// FNV-1a, good enough to derive stable visuals from a prompt.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// mulberry32, a tiny seedable PRNG.
+const createRandom = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const escapeXml = (value: string): string =>
+    value.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+const utf8ToBase64 = (value: string): string => {
+    const bytes = new TextEncoder().encode(value);
+    let binary = '';
+    bytes.forEach((b) => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+};
+
+const renderPlaceholderSvg = (prompt: string, aspectRatio: GeneratorAspectRatio, seed: number, variant: number): string => {
+    const [ratioW, ratioH] = aspectRatio.split(':').map(Number);
+    const width = 1024;
+    const height = Math.round(width * ratioH / ratioW);
+    const hue = (hashString(`${prompt}#${seed}`) + variant * 90) % 360;
+    const label = prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt;
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+        + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">`
+        + `<stop offset="0" stop-color="hsl(${hue},70%,55%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,30%)"/>`
+        + `</linearGradient></defs>`
+        + `<rect width="100%" height="100%" fill="url(#g)"/>`
+        + `<text x="50%" y="50%" fill="#fff" font-family="sans-serif" font-size="32" text-anchor="middle" dominant-baseline="middle">${escapeXml(label)}</text>`
+        + `</svg>`;
+};
+
+// Hue-shifts the source image, only inside the mask when there is one, and captions it with the instruction.
+const renderEditedSvg = ({ image, mask, instruction, width, height }: ImageEditRequest): string => {
+    const hue = 90 + hashString(instruction) % 180;
+    const label = instruction.length > 60 ? `${instruction.slice(0, 57)}...` : instruction;
+    const fontSize = Math.round(Math.max(width, height) * 0.03);
+    const source = `data:${image.mimeType};base64,${image.data}`;
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+        + `<defs><filter id="f"><feColorMatrix type="hueRotate" values="${hue}"/></filter>`
+        + (mask ? `<mask id="m"><image width="${width}" height="${height}" xlink:href="data:${mask.mimeType};base64,${mask.data}"/></mask>` : '')
+        + `</defs>`
+        + `<image width="${width}" height="${height}" xlink:href="${source}"/>`
+        + `<image width="${width}" height="${height}" xlink:href="${source}" filter="url(#f)"${mask ? ' mask="url(#m)"' : ''}/>`
+        + `<text x="50%" y="${height - fontSize}" fill="#fff" font-family="sans-serif" font-size="${fontSize}" text-anchor="middle" style="paint-order:stroke;stroke:#000;stroke-width:${fontSize / 8}">${escapeXml(label)}</text>`
+        + `</svg>`;
+};
+
+const pickItems = <T>(items: T[], hash: number, count: number): T[] =>
+    [...new Set(Array.from({ length: count }, (_, i) => items[(hash + i * 3) % items.length]))];
+
+const renderMockObjects = (hash: number) => {
+    const random = createRandom(hash);
+    return pickItems(mockSubjects, hash, 3).map((label) => {
+        const ymin = Math.floor(random() * 500);
+        const xmin = Math.floor(random() * 500);
+        return { label, box2d: [ymin, xmin, ymin + 200 + Math.floor(random() * 300), xmin + 200 + Math.floor(random() * 300)] };
+    });
+};
+
+const renderStructuredAnalysis = (hash: number): string => {
+    const objects = renderMockObjects(hash);
+    const colors = pickItems(mockColors, hash, 3);
+
+    return JSON.stringify({
+        summary: cannedAnalyses[hash % cannedAnalyses.length],
+        subjects: objects.slice(0, 2).map((object) => object.label),
+        objects,
+        dominantColors: colors.map((color, i) => ({ ...color, coverage: [50, 30, 20][i] })),
+        mood: mockMoods[hash % mockMoods.length],
+        tags: [...objects.map((object) => object.label), mockMoods[hash % mockMoods.length], 'mock'],
+        detectedText: hash % 2 === 0 ? ['SAMPLE TEXT'] : [],
+    });
+};
+
+/**
+ * Creates a deterministic offline provider. The same prompt and seed always yield the
+ * same placeholder image and the same image and instruction always yield the same analysis.
+ */
+export const createMockProvider = (getOptions: () => MockProviderOptions): ImageProvider => {
+    let random: (() => number) | null = null;
+    let randomSeed: number | null = null;
+
+    const simulateCall = async (operation: string, signal?: AbortSignal) => {
+        const { latencyMs, failureRate, seed } = getOptions();
+        if (random === null || randomSeed !== seed) {
+            random = createRandom(seed);
+            randomSeed = seed;
+        }
+        if (latencyMs > 0) {
+            await delay(latencyMs, signal);
+        }
+        throwIfAborted(signal);
+        if (failureRate > 0 && random() < failureRate) {
+            throw new Error(`Mock provider: injected failure during ${operation}.`);
+        }
+    };
+
+    const provider: ImageProvider = {
+        id: 'mock',
+        metered: () => provider,
+
+        generateImage: async (prompt: string, aspectRatio: GeneratorAspectRatio, numberOfImages: ImageCount, options: GenerationOptions, signal?: AbortSignal): Promise<GeneratedImage[]> => {
+            await simulateCall('image generation', signal);
+            return Array.from({ length: numberOfImages }, (_, variant) => ({
+                imageBytes: utf8ToBase64(renderPlaceholderSvg(prompt, aspectRatio, options.seed ?? 0, variant)),
+                mimeType: 'image/svg+xml',
+            }));
+        },
+
+        editImage: async (request: ImageEditRequest, signal?: AbortSignal): Promise<GeneratedImage> => {
+            await simulateCall('image editing', signal);
+            return { imageBytes: utf8ToBase64(renderEditedSvg(request)), mimeType: 'image/svg+xml' };
+        },
+
+        analyzeImage: async (imageData: ImageData, instruction: string, signal?: AbortSignal): Promise<string> => {
+            await simulateCall('image analysis', signal);
+            return cannedAnalyses[hashString(`${imageData.data}#${instruction}`) % cannedAnalyses.length];
+        },
+
+        analyzeImageStream: async function* (imageData: ImageData, instruction: string, signal?: AbortSignal): AsyncIterable<string> {
+            await simulateCall('image analysis', signal);
+            const text = cannedAnalyses[hashString(`${imageData.data}#${instruction}`) % cannedAnalyses.length];
+            // Emit word by word so the UI's progressive rendering can be exercised offline.
+            for (const word of text.split(/(?<=\s)/)) {
+                await delay(40, signal);
+                yield word;
+            }
+        },
+
+        analyzeImageStructured: async (imageData: ImageData, instruction: string, signal?: AbortSignal): Promise<string> => {
+            await simulateCall('structured image analysis', signal);
+            return renderStructuredAnalysis(hashString(`${imageData.data}#${instruction}`));
+        },
+
+        detectObjects: async (imageData: ImageData): Promise<string> => {
+            await simulateCall('object detection');
+            return JSON.stringify(renderMockObjects(hashString(imageData.data)));
+        },
+
+        chat: async (imageData: ImageData, turns: ChatMessage[]): Promise<string> => {
+            await simulateCall('chat');
+            const question = turns[turns.length - 1]?.text ?? '';
+            const answer = cannedAnalyses[hashString(`${imageData.data}#${turns.length}#${question}`) % cannedAnalyses.length];
+            return `(Mock reply to "${question}") ${answer}`;
+        },
+
+        enhancePrompt: async (idea: string, signal?: AbortSignal): Promise<string> => {
+            await simulateCall('prompt enhancement', signal);
+            return `${idea.trim().replace(/[.,;\s]+$/, '')}, ${mockPromptDetails[hashString(idea) % mockPromptDetails.length]}`;
+        },
+
+        describeAsPrompt: async (imageData: ImageData, analysis: string, signal?: AbortSignal): Promise<string> => {
+            await simulateCall('prompt writing', signal);
+            const hash = hashString(`${imageData.data}#${analysis}`);
+            return `A photograph of a ${pickItems(mockSubjects, hash, 2).join(' and a ')}, ${mockPromptDetails[hash % mockPromptDetails.length]}`;
+        },
+    };
+    return provider;
+};
@@ -0,0 +1,122 @@
+import { ColorLut } from '../types';
+import { Histogram, PixelSettings } from '../utils/pixelAdjustments';
+import { createAbortError } from '../utils/abort';
+
+/**
+ * Runs pixel adjustments in a shared worker so large photos don't block the
+ * UI. Requests are sent one at a time; ones aborted while still waiting are
+ * dropped, so a slider drag only ever computes the latest settings.
+ */
+
+export interface PixelWorkerRequest {
+    id: number;
+    pixels: ImageData;
+    /** Settings without the LUT table, which is sent separately. */
+    settings: PixelSettings;
+    lut: { id: string; intensity: number } | null;
+    /** The LUT's table, included only the first time the worker needs it. */
+    lutTable?: ColorLut;
+}
+
+export type PixelWorkerResponse =
+    | { id: number; pixels: ImageData; histogram: Histogram }
+    | { id: number; error: string };
+
+export interface AdjustedPixels {
+    pixels: ImageData;
+    histogram: Histogram;
+}
+
+interface Task {
+    request: PixelWorkerRequest;
+    resolve: (result: AdjustedPixels) => void;
+    reject: (error: unknown) => void;
+    settled: boolean;
+}
+
+let worker: Worker | null = null;
+// LUT tables are large, so the worker keeps the ones it has seen.
+const lutsSentToWorker = new Set<string>();
+let nextId = 0;
+let active: Task | null = null;
+const queue: Task[] = [];
+
+const settle = (task: Task, outcome: () => void) => {
+    if (task.settled) return;
+    task.settled = true;
+    outcome();
+};
+
+const failAll = (error: Error) => {
+    const tasks = active ? [active, ...queue] : [...queue];
+    active = null;
+    queue.length = 0;
+    tasks.forEach((task) => settle(task, () => task.reject(error)));
+};
+
+const getWorker = (): Worker => {
+    if (worker) return worker;
+    worker = new Worker(new URL('../utils/pixelAdjustments.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<PixelWorkerResponse>) => {
+        const task = active;
+        active = null;
+        if (task && task.request.id === event.data.id) {
+            const response = event.data;
+            settle(task, () => 'error' in response
+                ? task.reject(new Error(`Failed to adjust the image: ${response.error}`))
+                : task.resolve({ pixels: response.pixels, histogram: response.histogram }));
+        }
+        runNext();
+    };
+    worker.onerror = (event) => {
+        console.error("Pixel adjustment worker failed", event);
+        worker?.terminate();
+        worker = null;
+        lutsSentToWorker.clear();
+        failAll(new Error('Failed to adjust the image.'));
+    };
+    return worker;
+};
+
+const runNext = () => {
+    if (active) return;
+    const task = queue.shift();
+    if (!task) return;
+    active = task;
+    const target = getWorker();
+    const { request } = task;
+    if (request.lutTable) {
+        if (lutsSentToWorker.has(request.lutTable.id)) {
+            delete request.lutTable;
+        } else {
+            lutsSentToWorker.add(request.lutTable.id);
+        }
+    }
+    // The pixels are copied rather than transferred, so callers can reuse their buffer.
+    target.postMessage(request);
+};
+
+/**
+ * Applies `settings` to a copy of `pixels` and computes the result's histogram.
+ */
+export const adjustPixels = (pixels: ImageData, settings: PixelSettings, signal?: AbortSignal): Promise<AdjustedPixels> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(createAbortError());
+        const { lut, ...rest } = settings;
+        const request: PixelWorkerRequest = {
+            id: nextId++,
+            pixels,
+            settings: rest,
+            lut: lut ? { id: lut.table.id, intensity: lut.intensity } : null,
+            lutTable: lut?.table,
+        };
+        const task: Task = { request, resolve, reject, settled: false };
+        signal?.addEventListener('abort', () => {
+            const index = queue.indexOf(task);
+            if (index !== -1) queue.splice(index, 1);
+            settle(task, () => reject(createAbortError()));
+        }, { once: true });
+        queue.push(task);
+        runNext();
+    });
+};
@@ -0,0 +1,147 @@
+import { openDatabase, requestToPromise, RESPONSE_CACHE_STORE, transactionDone } from './db';
+
+/**
+ * Results of repeatable service calls, stored in IndexedDB so that analyzing
+ * the same image with the same instruction again costs no quota. The least
+ * recently used entries go first once either limit is reached.
+ */
+
+const MAX_CACHE_BYTES = 50 * 1024 * 1024;
+const MAX_CACHE_ENTRIES = 500;
+
+interface CachedResponse {
+    key: string;
+    value: unknown;
+    /** Approximate size of `value` in bytes. */
+    size: number;
+    storedAt: number;
+    lastUsedAt: number;
+    /** The history entry that recorded this result, once one did. */
+    historyEntryId?: string;
+}
+
+export interface CacheOptions {
+    /** Fetch a fresh result even when one is stored; it then replaces the stored one. */
+    bypass?: boolean;
+    /** Called when the result came from the cache, with the time it was stored and its history entry, if linked. */
+    onHit?: (storedAt: number, historyEntryId?: string) => void;
+    /** Called with the cache key of a cacheable call, hit or miss, for `linkCachedResponse`. */
+    onKey?: (key: string) => void;
+}
+
+export interface ResponseCacheStats {
+    entries: number;
+    bytes: number;
+}
+
+/**
+ * SHA-256 of the request parts, e.g. the provider, model, instruction and image bytes.
+ */
+export const hashRequest = async (parts: unknown[]): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Calls back with the primary key and size of every entry, without reading the cached values.
+const forEachSize = (store: IDBObjectStore, callback: (key: string, size: number) => void): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        const request = store.index('size').openKeyCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return resolve();
+            callback(cursor.primaryKey as string, cursor.key as number);
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const evictLeastRecentlyUsed = async (store: IDBObjectStore) => {
+    const sizes = new Map<string, number>();
+    let bytes = 0;
+    await forEachSize(store, (key, size) => {
+        sizes.set(key, size);
+        bytes += size;
+    });
+    let entries = sizes.size;
+    const oldestFirst = await requestToPromise(store.index('lastUsedAt').getAllKeys());
+    for (const key of oldestFirst) {
+        if (bytes <= MAX_CACHE_BYTES && entries <= MAX_CACHE_ENTRIES) break;
+        store.delete(key);
+        bytes -= sizes.get(key as string) ?? 0;
+        entries -= 1;
+    }
+};
+
+/**
+ * The stored result for `key`, or null. A hit counts as a use for eviction.
+ * Cache failures are logged and treated as misses, never as call failures.
+ */
+export const readCachedResponse = async <T>(key: string): Promise<{ value: T; storedAt: number; historyEntryId?: string } | null> => {
+    try {
+        const db = await openDatabase();
+        const transaction = db.transaction(RESPONSE_CACHE_STORE, 'readwrite');
+        const store = transaction.objectStore(RESPONSE_CACHE_STORE);
+        const entry = await requestToPromise(store.get(key) as IDBRequest<CachedResponse | undefined>);
+        if (!entry) return null;
+        store.put({ ...entry, lastUsedAt: Date.now() });
+        await transactionDone(transaction);
+        return { value: entry.value as T, storedAt: entry.storedAt, historyEntryId: entry.historyEntryId };
+    } catch (e) {
+        console.error("Failed to read from the response cache", e);
+        return null;
+    }
+};
+
+export const writeCachedResponse = async (key: string, value: unknown): Promise<void> => {
+    const size = JSON.stringify(value).length;
+    // A result bigger than the whole cache would only evict everything else.
+    if (size > MAX_CACHE_BYTES) return;
+    try {
+        const db = await openDatabase();
+        const transaction = db.transaction(RESPONSE_CACHE_STORE, 'readwrite');
+        const store = transaction.objectStore(RESPONSE_CACHE_STORE);
+        const now = Date.now();
+        store.put({ key, value, size, storedAt: now, lastUsedAt: now } satisfies CachedResponse);
+        await evictLeastRecentlyUsed(store);
+        await transactionDone(transaction);
+    } catch (e) {
+        console.error("Failed to write to the response cache", e);
+    }
+};
+
+/**
+ * Remembers which history entry recorded the result stored under `key`, so
+ * later hits can point at it instead of recording it again. Does nothing when
+ * the result is no longer stored.
+ */
+export const linkCachedResponse = async (key: string, historyEntryId: string): Promise<void> => {
+    try {
+        const db = await openDatabase();
+        const transaction = db.transaction(RESPONSE_CACHE_STORE, 'readwrite');
+        const store = transaction.objectStore(RESPONSE_CACHE_STORE);
+        const entry = await requestToPromise(store.get(key) as IDBRequest<CachedResponse | undefined>);
+        if (!entry) return;
+        store.put({ ...entry, historyEntryId });
+        await transactionDone(transaction);
+    } catch (e) {
+        console.error("Failed to link a cached response to its history entry", e);
+    }
+};
+
+export const getResponseCacheStats = async (): Promise<ResponseCacheStats> => {
+    const db = await openDatabase();
+    const stats: ResponseCacheStats = { entries: 0, bytes: 0 };
+    await forEachSize(db.transaction(RESPONSE_CACHE_STORE).objectStore(RESPONSE_CACHE_STORE), (_, size) => {
+        stats.entries += 1;
+        stats.bytes += size;
+    });
+    return stats;
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(RESPONSE_CACHE_STORE, 'readwrite');
+    transaction.objectStore(RESPONSE_CACHE_STORE).clear();
+    await transactionDone(transaction);
+};
@@ -0,0 +1,115 @@
+/**
+ * Typed failures for backend calls, so the UI can tell a blocked prompt from
+ * an expired key and retry only what is worth retrying.
+ */
+
+export const serviceErrorKinds = ["auth", "rateLimit", "safety", "invalidInput", "network", "timeout", "unavailable", "empty", "budget", "unknown"] as const;
+export type ServiceErrorKind = (typeof serviceErrorKinds)[number];
+
+// Failures that tend to go away on their own.
+const TRANSIENT_KINDS: ServiceErrorKind[] = ['rateLimit', 'network', 'timeout', 'unavailable'];
+
+export class ServiceError extends Error {
+    readonly kind: ServiceErrorKind;
+    /** Why the backend refused the request or its result, e.g. safety categories. */
+    readonly blockedReasons: string[];
+    /** Number of attempts made before giving up. */
+    readonly attempts: number;
+
+    constructor(kind: ServiceErrorKind, message: string, options: { cause?: unknown; blockedReasons?: string[]; attempts?: number } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'ServiceError';
+        this.kind = kind;
+        this.blockedReasons = options.blockedReasons ?? [];
+        this.attempts = options.attempts ?? 1;
+    }
+}
+
+const kindMessages: Record<Exclude<ServiceErrorKind, 'unknown'>, string> = {
+    auth: 'The Gemini API did not accept the API key.',
+    rateLimit: 'The rate limit or quota of the API was reached.',
+    safety: 'The request was blocked by the safety filters.',
+    invalidInput: 'The API rejected the request as invalid.',
+    network: 'The API could not be reached.',
+    timeout: 'The request took too long and timed out.',
+    unavailable: 'The service is temporarily unavailable.',
+    empty: 'The model returned nothing.',
+    budget: 'The monthly budget would be exceeded.',
+};
+
+const getStatus = (error: unknown): number | undefined => {
+    const status = (error as { status?: unknown; code?: unknown } | null)?.status ?? (error as { code?: unknown } | null)?.code;
+    return typeof status === 'number' ? status : undefined;
+};
+
+const getMessage = (error: unknown): string => error instanceof Error ? error.message : String(error);
+
+// The SDK puts the API's JSON error body in the message; its `message` field is the readable part.
+const getApiDetail = (error: unknown): string | undefined => {
+    const message = getMessage(error);
+    const json = message.slice(message.indexOf('{'));
+    try {
+        const detail = JSON.parse(json)?.error?.message;
+        return typeof detail === 'string' ? detail : undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+const classify = (error: unknown): ServiceErrorKind => {
+    const status = getStatus(error);
+    const message = getMessage(error);
+    const name = error instanceof Error || error instanceof DOMException ? error.name : '';
+    if (status === 401 || status === 403 || /API[_ ]key|UNAUTHENTICATED|PERMISSION_DENIED/i.test(message)) return 'auth';
+    if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED|rate limit|quota/i.test(message)) return 'rateLimit';
+    if (/\bsafety\b|\bblocked\b|responsible AI/i.test(message) || /\bRAI\b|PROHIBITED_CONTENT/.test(message)) return 'safety';
+    if (status === 408 || status === 504 || name === 'TimeoutError' || /DEADLINE_EXCEEDED|timed? ?out/i.test(message)) return 'timeout';
+    if ((status !== undefined && status >= 500) || /UNAVAILABLE|overloaded|INTERNAL/.test(message)) return 'unavailable';
+    if (status === 400 || status === 404 || status === 413 || /INVALID_ARGUMENT|FAILED_PRECONDITION|NOT_FOUND/.test(message)) return 'invalidInput';
+    if (name === 'TypeError' && /fetch|network|load failed/i.test(message)) return 'network';
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return 'network';
+    return 'unknown';
+};
+
+/**
+ * Wraps a failed call in a ServiceError. Errors that already are one keep
+ * their kind; others are classified by status code and message. `fallback`
+ * is the message for failures that can't be classified.
+ */
+export const toServiceError = (error: unknown, fallback: string, attempts = 1): ServiceError => {
+    if (error instanceof ServiceError) {
+        return new ServiceError(error.kind, error.message, { cause: error.cause ?? error, blockedReasons: error.blockedReasons, attempts });
+    }
+    const kind = classify(error);
+    if (kind === 'unknown') {
+        return new ServiceError(kind, fallback, { cause: error, attempts });
+    }
+    const detail = kind === 'invalidInput' ? getApiDetail(error) : undefined;
+    return new ServiceError(kind, detail ? `${kindMessages[kind]} ${detail}` : kindMessages[kind], { cause: error, attempts });
+};
+
+export const getServiceErrorKind = (error: unknown): ServiceErrorKind | null => {
+    for (let current = error; current; current = (current as { cause?: unknown }).cause) {
+        if (current instanceof ServiceError) return current.kind;
+        if (typeof current !== 'object') break;
+    }
+    return null;
+};
+
+/**
+ * Whether a failure is worth retrying after a pause: rate limits, network
+ * errors, timeouts and outages.
+ */
+export const isTransientError = (error: unknown): boolean => {
+    const kind = getServiceErrorKind(error) ?? classify(error);
+    return TRANSIENT_KINDS.includes(kind);
+};
+
+/**
+ * Whether sending the same request again could succeed. Auth, safety,
+ * invalid-input and budget failures will fail the same way every time.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+    const kind = getServiceErrorKind(error);
+    return kind !== 'auth' && kind !== 'safety' && kind !== 'invalidInput' && kind !== 'budget';
+};
@@ -0,0 +1,38 @@
+import { defaultStudioSettings, StudioSettings } from '../types';
+
+const SETTINGS_STORAGE_KEY = 'studioSettings';
+
+const loadSettings = (): StudioSettings => {
+    try {
+        const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        if (stored) {
+            return { ...defaultStudioSettings, ...JSON.parse(stored) };
+        }
+    } catch (e) {
+        console.error("Failed to parse studio settings from localStorage", e);
+    }
+    return defaultStudioSettings;
+};
+
+let settings = loadSettings();
+const listeners = new Set<(settings: StudioSettings, changes: Partial<StudioSettings>) => void>();
+
+/**
+ * The current settings, read at call time so changes apply without a reload.
+ */
+export const getSettings = (): StudioSettings => settings;
+
+export const updateSettings = (changes: Partial<StudioSettings>): StudioSettings => {
+    settings = { ...settings, ...changes };
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    listeners.forEach((listener) => listener(settings, changes));
+    return settings;
+};
+
+/**
+ * Calls `listener` with the new settings and the changed fields after every update.
+ */
+export const subscribeToSettings = (listener: (settings: StudioSettings, changes: Partial<StudioSettings>) => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,265 @@
+import { ProviderId } from './imageProvider';
+import { ServiceError, ServiceErrorKind } from './serviceErrors';
+
+/**
+ * The service calls that are counted, one per public wrapper in the service layer.
+ */
+export const usageActions = ["generate", "edit", "analyze", "detect", "chat", "enhance", "describe"] as const;
+export type UsageAction = (typeof usageActions)[number];
+
+/**
+ * One service call, including its retries. Costs are not stored: they are
+ * worked out from the price table, so editing a price re-estimates the past.
+ */
+export interface UsageRecord {
+    id: string;
+    timestamp: number;
+    provider: ProviderId;
+    action: UsageAction;
+    /** The model the last request went to; the provider id when it never got that far. */
+    model: string;
+    /** Wall time of the call, retries and backoff included. */
+    latencyMs: number;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    outcome: "success" | "failure" | "cancelled";
+    errorKind?: ServiceErrorKind;
+    attempts: number;
+}
+
+/**
+ * What a model costs in US dollars. Token prices are per million tokens.
+ */
+export interface ModelPrice {
+    inputPerMillion: number;
+    outputPerMillion: number;
+    perImage: number;
+}
+
+export const budgetModes = ["warn", "block"] as const;
+export type BudgetMode = (typeof budgetModes)[number];
+
+/**
+ * A monthly spending limit in US dollars. `warn` only shows a notice, `block`
+ * refuses calls that would go over it. `null` means no limit.
+ */
+export interface UsageBudget {
+    monthlyLimit: number | null;
+    mode: BudgetMode;
+}
+
+export interface UsageState {
+    records: UsageRecord[];
+    prices: Record<string, ModelPrice>;
+    budget: UsageBudget;
+}
+
+/**
+ * Published list prices of the paid tier at the time of writing. They change,
+ * so the dashboard lets users correct them.
+ */
+export const defaultModelPrices: Record<string, ModelPrice> = {
+    "imagen-4.0-generate-001": { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.04 },
+    "imagen-4.0-ultra-generate-001": { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.06 },
+    "imagen-4.0-fast-generate-001": { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.02 },
+    "imagen-3.0-generate-002": { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.03 },
+    "gemini-2.5-flash-image": { inputPerMillion: 0.3, outputPerMillion: 30, perImage: 0 },
+    "gemini-2.5-flash": { inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0 },
+    "gemini-2.5-pro": { inputPerMillion: 1.25, outputPerMillion: 10, perImage: 0 },
+    "gemini-2.5-flash-lite": { inputPerMillion: 0.1, outputPerMillion: 0.4, perImage: 0 },
+};
+
+export const defaultUsageBudget: UsageBudget = {
+    monthlyLimit: null,
+    mode: "warn",
+};
+
+const RECORDS_STORAGE_KEY = 'usageRecords';
+const PRICES_STORAGE_KEY = 'modelPrices';
+const BUDGET_STORAGE_KEY = 'usageBudget';
+// Oldest records are dropped first; this is several months of heavy use.
+const MAX_USAGE_RECORDS = 5000;
+// Share of the budget after which the warning shows.
+const BUDGET_WARNING_RATIO = 0.8;
+// Calls of one kind whose average cost estimates the next one.
+const ESTIMATE_SAMPLE_SIZE = 20;
+
+const loadStored = <T>(key: string, fallback: T, label: string): T => {
+    try {
+        const stored = localStorage.getItem(key);
+        if (stored) {
+            return JSON.parse(stored);
+        }
+    } catch (e) {
+        console.error(`Failed to parse ${label} from localStorage`, e);
+    }
+    return fallback;
+};
+
+let state: UsageState = {
+    records: loadStored<UsageRecord[]>(RECORDS_STORAGE_KEY, [], 'usage records'),
+    prices: { ...defaultModelPrices, ...loadStored<Record<string, ModelPrice>>(PRICES_STORAGE_KEY, {}, 'model prices') },
+    budget: { ...defaultUsageBudget, ...loadStored<Partial<UsageBudget>>(BUDGET_STORAGE_KEY, {}, 'usage budget') },
+};
+const listeners = new Set<() => void>();
+
+const setState = (changes: Partial<UsageState>) => {
+    state = { ...state, ...changes };
+    listeners.forEach((listener) => listener());
+};
+
+/**
+ * Records, prices and budget as one immutable snapshot, for `useSyncExternalStore`.
+ */
+export const getUsageState = (): UsageState => state;
+
+export const subscribeToUsage = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const recordUsage = (record: Omit<UsageRecord, 'id' | 'timestamp'>) => {
+    const records = [...state.records, { ...record, id: crypto.randomUUID(), timestamp: Date.now() }].slice(-MAX_USAGE_RECORDS);
+    try {
+        localStorage.setItem(RECORDS_STORAGE_KEY, JSON.stringify(records));
+    } catch (e) {
+        // A full storage must not fail the call that was just made.
+        console.error("Failed to save usage records to localStorage", e);
+    }
+    setState({ records });
+};
+
+export const clearUsageRecords = () => {
+    localStorage.removeItem(RECORDS_STORAGE_KEY);
+    setState({ records: [] });
+};
+
+export const setModelPrice = (model: string, price: ModelPrice) => {
+    const prices = { ...state.prices, [model]: price };
+    localStorage.setItem(PRICES_STORAGE_KEY, JSON.stringify(prices));
+    setState({ prices });
+};
+
+export const resetModelPrices = () => {
+    localStorage.removeItem(PRICES_STORAGE_KEY);
+    setState({ prices: defaultModelPrices });
+};
+
+export const updateUsageBudget = (changes: Partial<UsageBudget>) => {
+    const budget = { ...state.budget, ...changes };
+    localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+    setState({ budget });
+};
+
+/**
+ * Estimated cost of a call in US dollars; models missing from the table cost nothing.
+ */
+export const getRecordCost = (record: UsageRecord, prices: Record<string, ModelPrice> = state.prices): number => {
+    const price = prices[record.model];
+    if (!price) return 0;
+    return (record.inputTokens * price.inputPerMillion + record.outputTokens * price.outputPerMillion) / 1000000
+        + record.images * price.perImage;
+};
+
+export const getMonthStart = (now: number = Date.now()): number => {
+    const date = new Date(now);
+    return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+export type BudgetState = "none" | "ok" | "near" | "over";
+
+export interface BudgetStatus {
+    state: BudgetState;
+    /** Estimated spend of the calendar month so far. */
+    spent: number;
+    limit: number | null;
+}
+
+export const getBudgetStatus = ({ records, prices, budget }: UsageState = state, now: number = Date.now()): BudgetStatus => {
+    const monthStart = getMonthStart(now);
+    const spent = records
+        .filter((record) => record.timestamp >= monthStart)
+        .reduce((sum, record) => sum + getRecordCost(record, prices), 0);
+    const limit = budget.monthlyLimit;
+    if (limit === null) return { state: 'none', spent, limit };
+    if (spent >= limit) return { state: 'over', spent, limit };
+    return { state: spent >= limit * BUDGET_WARNING_RATIO ? 'near' : 'ok', spent, limit };
+};
+
+/**
+ * Expected cost of the next call: the image price when the model is billed per
+ * image, otherwise the average of recent successful calls of the same kind.
+ */
+export const estimateCallCost = (action: UsageAction, model?: string, images = 0): number => {
+    const price = model ? state.prices[model] : undefined;
+    if (price?.perImage && images > 0) {
+        return price.perImage * images;
+    }
+    const recent = state.records
+        .filter((record) => record.action === action && record.outcome === 'success' && record.provider !== 'mock')
+        .slice(-ESTIMATE_SAMPLE_SIZE);
+    if (recent.length === 0) return 0;
+    return recent.reduce((sum, record) => sum + getRecordCost(record), 0) / recent.length;
+};
+
+export const formatCost = (dollars: number): string =>
+    `$${dollars > 0 && dollars < 0.01 ? dollars.toFixed(4) : dollars.toFixed(2)}`;
+
+/**
+ * Throws a budget ServiceError when blocking is on and a call costing
+ * `estimate` would take this month's spend over the limit.
+ */
+export const assertWithinBudget = (estimate: number) => {
+    const { budget } = state;
+    if (budget.mode !== 'block' || budget.monthlyLimit === null) return;
+    const { spent, limit } = getBudgetStatus();
+    if (limit !== null && spent + estimate > limit) {
+        throw new ServiceError('budget', `This would exceed the monthly budget of ${formatCost(limit)}; ${formatCost(spent)} is spent already.`);
+    }
+};
+
+export interface UsageTotals {
+    calls: number;
+    failures: number;
+    images: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+    /** Sum of latencies, for averages. */
+    latencyMs: number;
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, failures: 0, images: 0, inputTokens: 0, outputTokens: 0, cost: 0, latencyMs: 0 });
+
+const addRecord = (totals: UsageTotals, record: UsageRecord, prices: Record<string, ModelPrice>) => {
+    totals.calls += 1;
+    if (record.outcome === 'failure') totals.failures += 1;
+    totals.images += record.images;
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.cost += getRecordCost(record, prices);
+    totals.latencyMs += record.latencyMs;
+};
+
+/**
+ * Totals of `records` grouped by `keyOf`, in first-seen order.
+ */
+export const summarizeUsage = (records: UsageRecord[], prices: Record<string, ModelPrice>, keyOf: (record: UsageRecord) => string): Map<string, UsageTotals> => {
+    const groups = new Map<string, UsageTotals>();
+    for (const record of records) {
+        const key = keyOf(record);
+        const totals = groups.get(key) ?? emptyTotals();
+        addRecord(totals, record, prices);
+        groups.set(key, totals);
+    }
+    return groups;
+};
+
+/**
+ * Local calendar day of a timestamp as `YYYY-MM-DD`.
+ */
+export const getDayKey = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
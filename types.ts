@@ -4,9 +4,519 @@
 export const generatorAspectRatios = ["1:1", "3:4", "4:3", "9:16", "16:9"] as const;
 export type GeneratorAspectRatio = (typeof generatorAspectRatios)[number];
 
+/**
+ * Number of variants Imagen can return for a single prompt.
+ */
+export const imageCountOptions = [1, 2, 3, 4] as const;
+export type ImageCount = (typeof imageCountOptions)[number];
+
+/**
+ * Imagen model variants selectable for generation, from default to fastest.
+ */
+export const imagenModels = [
+    "imagen-4.0-generate-001",
+    "imagen-4.0-ultra-generate-001",
+    "imagen-4.0-fast-generate-001",
+    "imagen-3.0-generate-002",
+] as const;
+export type ImagenModel = (typeof imagenModels)[number];
+
+/**
+ * Gemini models selectable for analysis, chat and prompt writing.
+ */
+export const analysisModels = ["gemini-2.5-flash", "gemini-2.5-pro", "gemini-2.5-flash-lite"] as const;
+export type AnalysisModel = (typeof analysisModels)[number];
+
+export const generatorOutputMimeTypes = ["image/jpeg", "image/png"] as const;
+export type GeneratorOutputMimeType = (typeof generatorOutputMimeTypes)[number];
+
+/**
+ * Person generation policies, mirroring the `PersonGeneration` enum of the SDK.
+ */
+export const personGenerationPolicies = ["ALLOW_ADULT", "ALLOW_ALL", "DONT_ALLOW"] as const;
+export type PersonGenerationPolicy = (typeof personGenerationPolicies)[number];
+
+/**
+ * Advanced Imagen parameters. `null` means "let the model decide".
+ */
+export interface GenerationOptions {
+    model: ImagenModel;
+    negativePrompt: string;
+    seed: number | null;
+    outputMimeType: GeneratorOutputMimeType;
+    personGeneration: PersonGenerationPolicy;
+    guidanceScale: number | null;
+    enhancePrompt: boolean;
+}
+
+export const defaultGenerationOptions: GenerationOptions = {
+    model: "imagen-4.0-generate-001",
+    negativePrompt: "",
+    seed: null,
+    outputMimeType: "image/jpeg",
+    personGeneration: "ALLOW_ADULT",
+    guidanceScale: null,
+    enhancePrompt: false,
+};
+
+/**
+ * User preferences from the Settings tab. The generator starts on the default
+ * model; the advanced options can still switch it for a session.
+ */
+export interface StudioSettings {
+    defaultGenerationModel: ImagenModel;
+    analysisModel: AnalysisModel;
+    /** Always call the API instead of reusing cached analyses and seeded generations. */
+    bypassResponseCache: boolean;
+}
+
+export const defaultStudioSettings: StudioSettings = {
+    defaultGenerationModel: "imagen-4.0-generate-001",
+    analysisModel: "gemini-2.5-flash",
+    bypassResponseCache: false,
+};
+
+/**
+ * A prompt saved to the generator's library. `{{name}}` placeholders in its
+ * text make it a template whose values are filled in before generating.
+ */
+export interface SavedPrompt {
+    id: string;
+    name: string;
+    text: string;
+    tags: string[];
+    createdAt: number;
+}
+
+/**
+ * How an uploaded image is fitted to the selected aspect ratio.
+ */
+export type ResizeMode = "crop" | "stretch";
+
+/**
+ * A crop region as fractions (0–1) of the rotated image's bounding box.
+ */
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * CSS filter values applied to an uploaded image, in percent (hue in degrees).
+ */
+export interface ImageFilters {
+    brightness: number;
+    contrast: number;
+    saturate: number;
+    grayscale: number;
+    sepia: number;
+    invert: number;
+    hueRotate: number;
+}
+
+export const initialFilterState: ImageFilters = {
+    brightness: 100,
+    contrast: 100,
+    saturate: 100,
+    grayscale: 0,
+    sepia: 0,
+    invert: 0,
+    hueRotate: 0,
+};
+
+/**
+ * Pixel-level adjustments computed in a worker. Tonal and color values run
+ * from -100 to 100, sharpen and vignette from 0 to 100.
+ */
+export interface ColorAdjustments {
+    exposure: number;
+    highlights: number;
+    shadows: number;
+    temperature: number;
+    tint: number;
+    vibrance: number;
+    sharpen: number;
+    vignette: number;
+}
+
+export const initialColorAdjustments: ColorAdjustments = {
+    exposure: 0,
+    highlights: 0,
+    shadows: 0,
+    temperature: 0,
+    tint: 0,
+    vibrance: 0,
+    sharpen: 0,
+    vignette: 0,
+};
+
+/**
+ * Tone curves can shape all channels together or each one on its own.
+ */
+export const curveChannels = ["rgb", "red", "green", "blue"] as const;
+export type CurveChannel = (typeof curveChannels)[number];
+
+/**
+ * A tone curve control point, mapping input to output on a 0–255 scale.
+ */
+export interface CurvePoint {
+    x: number;
+    y: number;
+}
+
+/**
+ * Input black and white points (0–255) and the midtone gamma.
+ */
+export interface Levels {
+    black: number;
+    white: number;
+    gamma: number;
+}
+
+/**
+ * Levels are applied first, then the combined RGB curve, then each channel's curve.
+ */
+export interface ToneSettings {
+    levels: Levels;
+    curves: Record<CurveChannel, CurvePoint[]>;
+}
+
+const identityCurve: CurvePoint[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+export const initialToneSettings: ToneSettings = {
+    levels: { black: 0, white: 255, gamma: 1 },
+    curves: { rgb: identityCurve, red: identityCurve, green: identityCurve, blue: identityCurve },
+};
+
+/**
+ * A 3D color lookup table imported from a `.cube` file. `data` holds `size³`
+ * RGB triplets with red changing fastest, in the file's order.
+ */
+export interface ColorLut {
+    id: string;
+    name: string;
+    size: number;
+    domainMin: [number, number, number];
+    domainMax: [number, number, number];
+    data: Float32Array;
+}
+
+/**
+ * The LUT an edit applies, by id, blended with the original at `intensity` percent.
+ */
+export interface LutSelection {
+    id: string;
+    name: string;
+    intensity: number;
+}
+
+/**
+ * A one-click look for the analyzer. Applying it replaces the filters,
+ * adjustments, curves and LUT with the preset's values.
+ */
+export interface FilterPreset {
+    id: string;
+    name: string;
+    filters: ImageFilters;
+    adjustments: ColorAdjustments;
+    tone?: ToneSettings;
+    lut?: LutSelection | null;
+    builtIn?: boolean;
+}
+
+export const builtInFilterPresets: FilterPreset[] = [
+    {
+        id: "vintage",
+        name: "Vintage",
+        filters: { ...initialFilterState, brightness: 105, contrast: 90, saturate: 80, sepia: 35 },
+        adjustments: { ...initialColorAdjustments, temperature: 15, vignette: 35 },
+        tone: { ...initialToneSettings, curves: { ...initialToneSettings.curves, rgb: [{ x: 0, y: 24 }, { x: 255, y: 240 }] } },
+        builtIn: true,
+    },
+    {
+        id: "bw-high-contrast",
+        name: "B&W High Contrast",
+        filters: { ...initialFilterState, contrast: 140, grayscale: 100 },
+        adjustments: { ...initialColorAdjustments, sharpen: 20 },
+        builtIn: true,
+    },
+    {
+        id: "warm",
+        name: "Warm",
+        filters: initialFilterState,
+        adjustments: { ...initialColorAdjustments, temperature: 35, vibrance: 15 },
+        builtIn: true,
+    },
+    {
+        id: "cool",
+        name: "Cool",
+        filters: initialFilterState,
+        adjustments: { ...initialColorAdjustments, temperature: -30, vibrance: 10 },
+        builtIn: true,
+    },
+    {
+        id: "vivid",
+        name: "Vivid",
+        filters: { ...initialFilterState, contrast: 110, saturate: 110 },
+        adjustments: { ...initialColorAdjustments, vibrance: 40, shadows: 15 },
+        builtIn: true,
+    },
+    {
+        id: "faded",
+        name: "Faded",
+        filters: { ...initialFilterState, contrast: 85, saturate: 75 },
+        adjustments: { ...initialColorAdjustments, shadows: 30, highlights: -20 },
+        tone: { ...initialToneSettings, curves: { ...initialToneSettings.curves, rgb: [{ x: 0, y: 40 }, { x: 128, y: 132 }, { x: 255, y: 235 }] } },
+        builtIn: true,
+    },
+];
+
+/**
+ * One step of the analyzer's non-destructive edit stack. Values are absolute
+ * (e.g. "rotate to 15°"), so replaying a list always yields the same result.
+ */
+export type EditOperation =
+    | { type: "filter"; filter: keyof ImageFilters; value: number }
+    | { type: "resetFilters" }
+    | { type: "adjustment"; adjustment: keyof ColorAdjustments; value: number }
+    | { type: "resetAdjustments" }
+    | { type: "levels"; levels: Levels }
+    | { type: "curve"; channel: CurveChannel; points: CurvePoint[] }
+    | { type: "resetTone" }
+    | { type: "look"; name: string; filters: ImageFilters; adjustments: ColorAdjustments; tone: ToneSettings; lut: LutSelection | null }
+    | { type: "lut"; lut: LutSelection | null }
+    | { type: "rotate"; degrees: number }
+    | { type: "mirror"; mirrored: boolean }
+    | { type: "resizeMode"; mode: ResizeMode }
+    | { type: "aspectRatio"; ratio: string }
+    | { type: "cropLock"; locked: boolean }
+    | { type: "crop"; rect: CropRect | null };
+
+/**
+ * A named, reusable edit stack.
+ */
+export interface EditRecipe {
+    id: string;
+    name: string;
+    operations: EditOperation[];
+}
+
+/**
+ * File formats offered when exporting an image. Browser support for encoding
+ * WebP and AVIF varies, so availability is checked at runtime.
+ */
+export const exportFormats = ["image/png", "image/jpeg", "image/webp", "image/avif"] as const;
+export type ExportFormat = (typeof exportFormats)[number];
+
+/**
+ * How the exported size is chosen: a factor of the source size, a fixed width
+ * or height keeping the aspect ratio, or exact pixel dimensions (filled by
+ * cropping the center).
+ */
+export const exportSizeModes = ["scale", "width", "height", "exact"] as const;
+export type ExportSizeMode = (typeof exportSizeModes)[number];
+
+export interface ExportSettings {
+    format: ExportFormat;
+    /** Encoder quality in percent; ignored for PNG. */
+    quality: number;
+    sizeMode: ExportSizeMode;
+    /** 1 keeps the source resolution. */
+    scale: number;
+    width: number;
+    height: number;
+    /** Embed the prompt or analysis as an XMP description. */
+    embedMetadata: boolean;
+    /** Carry the uploaded photo's camera, exposure and copyright details over as XMP. */
+    keepPhotoMetadata: boolean;
+    /** Leave GPS, serial numbers and location names out of the kept photo metadata. */
+    stripPrivateMetadata: boolean;
+}
+
+export const defaultExportSettings: ExportSettings = {
+    format: "image/png",
+    quality: 90,
+    sizeMode: "scale",
+    scale: 1,
+    width: 1080,
+    height: 1080,
+    embedMetadata: false,
+    keepPhotoMetadata: true,
+    stripPrivateMetadata: true,
+};
+
+/**
+ * Pixel sizes required by common publishing channels.
+ */
+export interface ExportSizePreset {
+    name: string;
+    width: number;
+    height: number;
+}
+
+export const exportSizePresets: ExportSizePreset[] = [
+    { name: "Instagram Square", width: 1080, height: 1080 },
+    { name: "Instagram Portrait", width: 1080, height: 1350 },
+    { name: "Instagram / TikTok Story", width: 1080, height: 1920 },
+    { name: "Facebook Link", width: 1200, height: 630 },
+    { name: "X Post", width: 1600, height: 900 },
+    { name: "LinkedIn Post", width: 1200, height: 627 },
+    { name: "YouTube Thumbnail", width: 1280, height: 720 },
+    { name: "Full HD", width: 1920, height: 1080 },
+];
+
 /**
  * Aspect ratios for cropping/analyzing an uploaded image.
  * Includes standard photo sizes, ordered from wide landscape to tall portrait.
  */
 export const analyzerAspectRatios = ["16:9", "3:2", "4:3", "1:1", "3:4", "2:3", "9:16"] as const;
 export type AnalyzerAspectRatio = string;
+
+/**
+ * Instruction sent alongside an image when no custom analysis prompt is given.
+ */
+export const defaultAnalysisPrompt = "Describe this image in detail. What is happening, who are the subjects, what are the objects, and what is the context or mood?";
+
+/**
+ * A named, reusable analysis instruction. Built-in presets ship with the app;
+ * the rest are created by the user and saved in localStorage.
+ */
+export interface AnalysisPreset {
+    id: string;
+    name: string;
+    instruction: string;
+    builtIn?: boolean;
+}
+
+export const builtInAnalysisPresets: AnalysisPreset[] = [
+    { id: "describe", name: "Detailed description", instruction: defaultAnalysisPrompt, builtIn: true },
+    { id: "alt-text", name: "Alt text", instruction: "Write concise alt text for this image, suitable for a screen reader. Use one sentence of at most 125 characters and do not start with \"Image of\".", builtIn: true },
+    { id: "ocr", name: "Extract text (OCR)", instruction: "Transcribe all text visible in this image exactly as written, preserving line breaks. If there is no text, reply with \"No text found.\"", builtIn: true },
+    { id: "product", name: "Product attributes", instruction: "Identify the main product in this image and list its attributes as bullet points: category, brand (if visible), color, material, style, and any notable features.", builtIn: true },
+    { id: "safety", name: "Safety review", instruction: "Review this image for content that may be unsafe or inappropriate to publish (violence, nudity, hate symbols, personal data such as faces, license plates or documents). List any concerns with a short justification, or state that none were found.", builtIn: true },
+    { id: "composition", name: "Composition critique", instruction: "Critique the composition of this photograph: framing, balance, leading lines, use of light and color, and focus. Finish with three concrete suggestions for improvement.", builtIn: true },
+];
+
+/**
+ * How an analysis is requested: free-form prose, or JSON matching `ImageAnalysis`.
+ */
+export type AnalysisMode = "text" | "structured";
+
+/**
+ * Bounding box as `[ymin, xmin, ymax, xmax]`, normalized to 0–1000
+ * (the convention Gemini uses for object locations).
+ */
+export type BoundingBox = [number, number, number, number];
+
+export interface DetectedObject {
+    label: string;
+    box?: BoundingBox;
+}
+
+export interface DominantColor {
+    hex: string;
+    name: string;
+    /** Approximate share of the image covered by the color, 0–100. */
+    coverage: number;
+}
+
+/**
+ * Structured analysis result, validated client-side before it reaches the UI.
+ */
+export interface ImageAnalysis {
+    summary: string;
+    subjects: string[];
+    objects: DetectedObject[];
+    dominantColors: DominantColor[];
+    mood: string;
+    tags: string[];
+    detectedText: string[];
+}
+
+/**
+ * Raw image payload exchanged with the providers: a MIME type plus base64 bytes
+ * (without the `data:` URL prefix).
+ */
+export interface ImageData {
+    mimeType: string;
+    data: string;
+}
+
+/**
+ * One turn of a conversation about an image.
+ */
+export interface ChatMessage {
+    role: "user" | "model";
+    text: string;
+}
+
+/**
+ * A single image returned by a generation call.
+ */
+export interface GeneratedImage {
+    imageBytes: string;
+    mimeType: string;
+}
+
+/**
+ * An image-to-image edit. `mask` is optional: without it the whole image may
+ * change, with it only the white regions should.
+ */
+export interface ImageEditRequest {
+    image: ImageData;
+    mask?: ImageData;
+    instruction: string;
+    /** Pixel size of `image` (and `mask`). */
+    width: number;
+    height: number;
+}
+
+export type HistoryEntryKind = "generation" | "analysis" | "edit";
+
+/**
+ * A persisted generation, edit or analysis run, stored in IndexedDB.
+ * Images are kept as Blobs; base64 strings would bloat the database.
+ */
+export interface HistoryEntry {
+    id: string;
+    kind: HistoryEntryKind;
+    createdAt: number;
+    /** The generation prompt, the edit instruction, or the instruction the image was analyzed with. */
+    prompt: string;
+    aspectRatio: string;
+    /** Generation parameters; only set for `generation` entries. */
+    options?: GenerationOptions;
+    images: Blob[];
+    /** Analysis text (raw JSON in structured mode); only set for `analysis` entries. */
+    analysis?: string;
+    analysisMode?: AnalysisMode;
+    /** Analyses only: the edit stack that produced the analyzed image. */
+    edits?: EditOperation[];
+    /** Original file name of an analyzed or edited upload. */
+    fileName?: string;
+    /** Edits and analyses: the entry the image came from, when it was one. */
+    parentId?: string;
+    /** Edits only: the image that was edited and the painted mask, if any. */
+    sourceImage?: Blob;
+    mask?: Blob;
+}
+
+/**
+ * The studio's top-level tabs, each reachable at `#/<tab>`.
+ */
+export const studioTabs = ["generate", "analyze", "history", "usage", "settings"] as const;
+export type StudioTab = (typeof studioTabs)[number];
+
+/**
+ * An image passed from one tab to another, e.g. a generated picture opened in the analyzer.
+ */
+export interface ImageAsset {
+    blob: Blob;
+    fileName: string;
+    /** The prompt or instruction that produced the image, if any. */
+    prompt?: string;
+    /** History entry the image was saved as, so work derived from it can link back. */
+    historyEntryId?: string;
+}
@@ -0,0 +1,45 @@
+/**
+ * Helpers for AbortController-based cancellation. Cancelled calls reject with
+ * a DOMException named `AbortError`, matching what `fetch` does.
+ */
+
+export const createAbortError = () => new DOMException("The operation was aborted.", "AbortError");
+
+export const isAbortError = (error: unknown): boolean =>
+    (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw createAbortError();
+};
+
+/**
+ * Resolves after `ms` milliseconds, or rejects early if the signal fires.
+ */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(createAbortError());
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+/**
+ * Settles like `promise`, or rejects early if the signal fires. The promise
+ * itself keeps running, so this stops one caller waiting for shared work.
+ */
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (!signal) return promise;
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) return reject(createAbortError());
+        const onAbort = () => reject(createAbortError());
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
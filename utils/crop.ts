@@ -0,0 +1,105 @@
+import { CropRect } from '../types';
+
+/**
+ * Geometry for the crop frame. Rectangles are stored as fractions of the
+ * rotated image's bounding box (`boxWidth` × `boxHeight` pixels), while aspect
+ * ratios are always in pixels, so the math below converts between the two.
+ */
+
+export type CropHandle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+/** Smallest crop side, as a fraction of the bounding box. */
+const MIN_SIZE = 0.05;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Size of the image's bounding box once rotated by `rotation` degrees.
+ */
+export const getRotatedSize = (width: number, height: number, rotation: number) => {
+    const angleRad = (rotation * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(angleRad));
+    const sin = Math.abs(Math.sin(angleRad));
+    return { width: width * cos + height * sin, height: width * sin + height * cos };
+};
+
+/**
+ * The largest rectangle of the given pixel aspect ratio that fits the box,
+ * centered on `center` (defaults to the middle) but kept inside the box.
+ * Without an aspect ratio the whole box is returned.
+ */
+export const fitCropRect = (aspectRatio: number | null, boxWidth: number, boxHeight: number, center = { x: 0.5, y: 0.5 }): CropRect => {
+    if (!aspectRatio) return { x: 0, y: 0, width: 1, height: 1 };
+    let width = 1;
+    let height = (boxWidth / aspectRatio) / boxHeight;
+    if (height > 1) {
+        height = 1;
+        width = (boxHeight * aspectRatio) / boxWidth;
+    }
+    return {
+        x: clamp(center.x - width / 2, 0, 1 - width),
+        y: clamp(center.y - height / 2, 0, 1 - height),
+        width,
+        height,
+    };
+};
+
+export const moveCropRect = (crop: CropRect, dx: number, dy: number): CropRect => ({
+    ...crop,
+    x: clamp(crop.x + dx, 0, 1 - crop.width),
+    y: clamp(crop.y + dy, 0, 1 - crop.height),
+});
+
+/**
+ * Drags one edge or corner of `crop` by (dx, dy), keeping the opposite side
+ * fixed. With an aspect ratio only corners make sense; the rectangle keeps
+ * that ratio and stops at the box edges.
+ */
+export const resizeCropRect = (
+    crop: CropRect,
+    handle: CropHandle,
+    dx: number,
+    dy: number,
+    aspectRatio: number | null,
+    boxWidth: number,
+    boxHeight: number,
+): CropRect => {
+    const left = crop.x;
+    const top = crop.y;
+    const right = crop.x + crop.width;
+    const bottom = crop.y + crop.height;
+    const movesWest = handle.includes('w');
+    const movesEast = handle.includes('e');
+    const movesNorth = handle.includes('n');
+    const movesSouth = handle.includes('s');
+
+    let width = movesWest ? right - clamp(left + dx, 0, right - MIN_SIZE) : movesEast ? clamp(right + dx, left + MIN_SIZE, 1) - left : crop.width;
+    let height = movesNorth ? bottom - clamp(top + dy, 0, bottom - MIN_SIZE) : movesSouth ? clamp(bottom + dy, top + MIN_SIZE, 1) - top : crop.height;
+
+    if (aspectRatio) {
+        // Fractions of the box → ratio of fractions that yields the pixel ratio.
+        const ratio = aspectRatio * boxHeight / boxWidth;
+        const maxWidth = movesWest ? right : 1 - left;
+        const maxHeight = movesNorth ? bottom : 1 - top;
+        if (width / ratio >= height) {
+            height = width / ratio;
+        } else {
+            width = height * ratio;
+        }
+        if (width > maxWidth) {
+            width = maxWidth;
+            height = width / ratio;
+        }
+        if (height > maxHeight) {
+            height = maxHeight;
+            width = height * ratio;
+        }
+    }
+
+    return {
+        x: movesWest ? right - width : left,
+        y: movesNorth ? bottom - height : top,
+        width,
+        height,
+    };
+};
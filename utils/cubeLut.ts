@@ -0,0 +1,83 @@
+import { ColorLut } from '../types';
+
+// Real .cube files go up to 65; a 256³ table would need gigabytes while parsing.
+const MAX_LUT_SIZE = 65;
+
+const parseTriplet = (parts: string[], line: number): [number, number, number] => {
+    const values = parts.map(Number);
+    if (values.length !== 3 || values.some((value) => !Number.isFinite(value))) {
+        throw new Error(`Line ${line} of the .cube file is not a valid RGB triplet.`);
+    }
+    return values as [number, number, number];
+};
+
+const parseRange = (parts: string[], line: number): [number, number] => {
+    const values = parts.map(Number);
+    if (values.length !== 2 || values.some((value) => !Number.isFinite(value))) {
+        throw new Error(`Line ${line} of the .cube file is not a valid input range.`);
+    }
+    return values as [number, number];
+};
+
+/**
+ * Parses an Adobe/Resolve `.cube` file holding a 3D LUT. `fallbackName` is
+ * used when the file has no `TITLE`.
+ */
+export const parseCubeLut = (text: string, fallbackName: string): Omit<ColorLut, 'id'> => {
+    let name = fallbackName;
+    let size = 0;
+    let domainMin: [number, number, number] = [0, 0, 0];
+    let domainMax: [number, number, number] = [1, 1, 1];
+    const values: number[] = [];
+
+    text.split(/\r?\n/).forEach((rawLine, index) => {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) return;
+        const [keyword, ...rest] = line.split(/\s+/);
+        switch (keyword) {
+            case 'TITLE': {
+                const title = line.slice('TITLE'.length).trim().replace(/^"(.*)"$/, '$1');
+                if (title) name = title;
+                return;
+            }
+            case 'LUT_1D_SIZE':
+                throw new Error("1D LUTs are not supported. Please use a .cube file with a 3D LUT.");
+            case 'LUT_3D_SIZE':
+                size = Number(rest[0]);
+                if (!Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) {
+                    throw new Error(`The LUT size must be between 2 and ${MAX_LUT_SIZE}.`);
+                }
+                return;
+            case 'DOMAIN_MIN':
+                domainMin = parseTriplet(rest, index + 1);
+                return;
+            case 'DOMAIN_MAX':
+                domainMax = parseTriplet(rest, index + 1);
+                return;
+            case 'LUT_3D_INPUT_RANGE': {
+                const [min, max] = parseRange(rest, index + 1);
+                domainMin = [min, min, min];
+                domainMax = [max, max, max];
+                return;
+            }
+            default:
+                // Other keywords are optional metadata; anything numeric is table data.
+                if (/^[A-Z_]+$/.test(keyword)) return;
+                if (size && values.length >= size * size * size * 3) {
+                    throw new Error(`This .cube file has more than the ${size ** 3} table entries its LUT_3D_SIZE allows.`);
+                }
+                values.push(...parseTriplet([keyword, ...rest], index + 1));
+        }
+    });
+
+    if (!size) {
+        throw new Error("This .cube file has no LUT_3D_SIZE line.");
+    }
+    if (values.length !== size * size * size * 3) {
+        throw new Error(`This .cube file should have ${size ** 3} table entries but has ${values.length / 3}.`);
+    }
+    if (domainMin.some((min, i) => min >= domainMax[i])) {
+        throw new Error("The LUT's DOMAIN_MIN must be below its DOMAIN_MAX.");
+    }
+    return { name, size, domainMin, domainMax, data: Float32Array.from(values) };
+};
@@ -0,0 +1,48 @@
+/**
+ * Triggers a browser download for a data/object URL.
+ */
+export const downloadUrl = (url: string, filename: string) => {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+};
+
+/**
+ * Triggers a browser download for a Blob, releasing the object URL afterwards.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    downloadUrl(url, filename);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+    return new Blob([base64ToBytes(base64)], { type: mimeType });
+};
+
+/**
+ * Converts a `data:` URL into a Blob carrying the URL's MIME type.
+ */
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+    const [header, data] = dataUrl.split(',');
+    const mimeType = header.slice('data:'.length, header.indexOf(';'));
+    return base64ToBlob(data, mimeType);
+};
+
+export const extensionForMimeType = (mimeType: string): string => {
+    if (mimeType === 'image/svg+xml') return 'svg';
+    if (mimeType === 'image/jpeg') return 'jpeg';
+    return mimeType.split('/')[1] ?? 'bin';
+};
@@ -0,0 +1,207 @@
+import { ColorAdjustments, CropRect, CurveChannel, EditOperation, ImageFilters, initialColorAdjustments, initialFilterState, initialToneSettings, LutSelection, ResizeMode, ToneSettings } from '../types';
+
+/**
+ * The analyzer settings an edit stack resolves to.
+ */
+export interface EditSettings {
+    filters: ImageFilters;
+    adjustments: ColorAdjustments;
+    tone: ToneSettings;
+    lut: LutSelection | null;
+    rotation: number;
+    isMirrored: boolean;
+    resizeMode: ResizeMode;
+    /** `W:H` or `Auto`. */
+    aspectRatio: string;
+    cropLocked: boolean;
+    /** The crop the user chose, before it is fitted to the current ratio. */
+    crop: CropRect | null;
+}
+
+export const initialEditSettings: EditSettings = {
+    filters: initialFilterState,
+    adjustments: initialColorAdjustments,
+    tone: initialToneSettings,
+    lut: null,
+    rotation: 0,
+    isMirrored: false,
+    resizeMode: 'crop',
+    aspectRatio: 'Auto',
+    cropLocked: true,
+    crop: null,
+};
+
+const applyEditOperation = (settings: EditSettings, operation: EditOperation): EditSettings => {
+    switch (operation.type) {
+        case 'filter':
+            return { ...settings, filters: { ...settings.filters, [operation.filter]: operation.value } };
+        case 'resetFilters':
+            return { ...settings, filters: initialFilterState };
+        case 'adjustment':
+            return { ...settings, adjustments: { ...settings.adjustments, [operation.adjustment]: operation.value } };
+        case 'resetAdjustments':
+            return { ...settings, adjustments: initialColorAdjustments };
+        case 'levels':
+            return { ...settings, tone: { ...settings.tone, levels: operation.levels } };
+        case 'curve':
+            return { ...settings, tone: { ...settings.tone, curves: { ...settings.tone.curves, [operation.channel]: operation.points } } };
+        case 'resetTone':
+            return { ...settings, tone: initialToneSettings };
+        case 'look':
+            return { ...settings, filters: operation.filters, adjustments: operation.adjustments, tone: operation.tone, lut: operation.lut };
+        case 'lut':
+            return { ...settings, lut: operation.lut };
+        case 'rotate':
+            return { ...settings, rotation: operation.degrees };
+        case 'mirror':
+            return { ...settings, isMirrored: operation.mirrored };
+        case 'resizeMode':
+            return { ...settings, resizeMode: operation.mode };
+        case 'aspectRatio':
+            // Picking a ratio locks the crop frame to it again.
+            return { ...settings, aspectRatio: operation.ratio, cropLocked: true };
+        case 'cropLock':
+            return { ...settings, cropLocked: operation.locked };
+        case 'crop':
+            return { ...settings, crop: operation.rect };
+    }
+};
+
+export const applyEditOperations = (operations: EditOperation[], base: EditSettings = initialEditSettings): EditSettings =>
+    operations.reduce(applyEditOperation, base);
+
+const filterLabels: Record<keyof ImageFilters, string> = {
+    brightness: 'Brightness',
+    contrast: 'Contrast',
+    saturate: 'Saturation',
+    grayscale: 'Grayscale',
+    sepia: 'Sepia',
+    invert: 'Invert',
+    hueRotate: 'Hue rotate',
+};
+
+export const adjustmentLabels: Record<keyof ColorAdjustments, string> = {
+    exposure: 'Exposure',
+    highlights: 'Highlights',
+    shadows: 'Shadows',
+    temperature: 'Temperature',
+    tint: 'Tint',
+    vibrance: 'Vibrance',
+    sharpen: 'Sharpen',
+    vignette: 'Vignette',
+};
+
+export const curveChannelLabels: Record<CurveChannel, string> = {
+    rgb: 'RGB',
+    red: 'Red',
+    green: 'Green',
+    blue: 'Blue',
+};
+
+export const describeEditOperation = (operation: EditOperation): string => {
+    switch (operation.type) {
+        case 'filter':
+            return `${filterLabels[operation.filter]} ${operation.value}${operation.filter === 'hueRotate' ? '°' : '%'}`;
+        case 'resetFilters':
+            return 'Reset filters';
+        case 'adjustment':
+            return `${adjustmentLabels[operation.adjustment]} ${operation.value > 0 ? '+' : ''}${operation.value}`;
+        case 'resetAdjustments':
+            return 'Reset adjustments';
+        case 'levels':
+            return `Levels ${operation.levels.black}–${operation.levels.white}, gamma ${operation.levels.gamma.toFixed(2)}`;
+        case 'curve':
+            return `${curveChannelLabels[operation.channel]} curve`;
+        case 'resetTone':
+            return 'Reset curves and levels';
+        case 'look':
+            return `Apply look "${operation.name}"`;
+        case 'lut':
+            return operation.lut ? `LUT "${operation.lut.name}" ${operation.lut.intensity}%` : 'Remove LUT';
+        case 'rotate':
+            return `Rotate to ${operation.degrees}°`;
+        case 'mirror':
+            return operation.mirrored ? 'Mirror' : 'Unmirror';
+        case 'resizeMode':
+            return operation.mode === 'crop' ? 'Resize by cropping' : 'Resize by stretching';
+        case 'aspectRatio':
+            return `Aspect ratio ${operation.ratio}`;
+        case 'cropLock':
+            return operation.locked ? 'Lock crop to ratio' : 'Free-form crop';
+        case 'crop':
+            return operation.rect ? 'Adjust crop' : 'Reset crop';
+    }
+};
+
+export interface EditStack {
+    operations: EditOperation[];
+    /** Number of operations in effect; the rest can be redone. */
+    cursor: number;
+    /** The last push, so a slider drag collapses into a single step. */
+    lastPush: { key: string; at: number } | null;
+}
+
+export type EditStackAction =
+    | { type: 'push'; operation: EditOperation; at: number }
+    | { type: 'append'; operations: EditOperation[] }
+    | { type: 'undo' }
+    | { type: 'redo' }
+    | { type: 'jump'; cursor: number }
+    | { type: 'reset'; operations?: EditOperation[] };
+
+export const emptyEditStack: EditStack = { operations: [], cursor: 0, lastPush: null };
+
+/** Pushes of the same kind closer together than this are merged. */
+const COALESCE_WINDOW_MS = 1000;
+
+// Operations with a key replace the previous one of the same key while a control is being dragged.
+const coalesceKey = (operation: EditOperation): string | null => {
+    switch (operation.type) {
+        case 'filter':
+            return `filter:${operation.filter}`;
+        case 'adjustment':
+            return `adjustment:${operation.adjustment}`;
+        case 'curve':
+            return `curve:${operation.channel}`;
+        case 'levels':
+        case 'lut':
+        case 'rotate':
+        case 'crop':
+            return operation.type;
+        default:
+            return null;
+    }
+};
+
+export const editStackReducer = (state: EditStack, action: EditStackAction): EditStack => {
+    switch (action.type) {
+        case 'push': {
+            const active = state.operations.slice(0, state.cursor);
+            const key = coalesceKey(action.operation);
+            const merge = key !== null
+                && state.lastPush?.key === key
+                && action.at - state.lastPush.at < COALESCE_WINDOW_MS;
+            const base = merge ? active.slice(0, -1) : active;
+            const before = JSON.stringify(applyEditOperations(active));
+            const operations = [...base, action.operation];
+            if (!merge && JSON.stringify(applyEditOperations(operations)) === before) {
+                return state;
+            }
+            return { operations, cursor: operations.length, lastPush: key ? { key, at: action.at } : null };
+        }
+        case 'append': {
+            const operations = [...state.operations.slice(0, state.cursor), ...action.operations];
+            return { operations, cursor: operations.length, lastPush: null };
+        }
+        case 'undo':
+            return { ...state, cursor: Math.max(0, state.cursor - 1), lastPush: null };
+        case 'redo':
+            return { ...state, cursor: Math.min(state.operations.length, state.cursor + 1), lastPush: null };
+        case 'jump':
+            return { ...state, cursor: Math.min(Math.max(0, action.cursor), state.operations.length), lastPush: null };
+        case 'reset': {
+            const operations = action.operations ?? [];
+            return { operations, cursor: operations.length, lastPush: null };
+        }
+    }
+};
@@ -0,0 +1,288 @@
+import { ExportFormat, ExportSettings } from '../types';
+import { crc32 } from './zip';
+import { ImageMetadata, removePrivateMetadata } from './imageMetadata';
+
+/**
+ * A fully rendered picture to export, at its best available resolution.
+ */
+export interface ExportSource {
+    image: CanvasImageSource;
+    width: number;
+    height: number;
+}
+
+const MAX_EXPORT_DIMENSION = 8192;
+
+const encodableFormats = new Map<ExportFormat, boolean>();
+
+/**
+ * Whether this browser can encode `format`. Unsupported types silently fall
+ * back to PNG, so a tiny canvas is encoded once per format to find out.
+ */
+export const canEncodeFormat = (format: ExportFormat): boolean => {
+    let supported = encodableFormats.get(format);
+    if (supported === undefined) {
+        const canvas = document.createElement('canvas');
+        canvas.width = 1;
+        canvas.height = 1;
+        supported = canvas.toDataURL(format).startsWith(`data:${format}`);
+        encodableFormats.set(format, supported);
+    }
+    return supported;
+};
+
+/**
+ * Metadata is written as XMP, which this module knows how to place in PNG,
+ * JPEG and WebP files.
+ */
+export const canEmbedMetadata = (format: ExportFormat): boolean => format !== 'image/avif';
+
+export const getExportSize = (sourceWidth: number, sourceHeight: number, settings: ExportSettings) => {
+    let width: number;
+    let height: number;
+    switch (settings.sizeMode) {
+        case 'width':
+            width = settings.width;
+            height = (settings.width * sourceHeight) / sourceWidth;
+            break;
+        case 'height':
+            width = (settings.height * sourceWidth) / sourceHeight;
+            height = settings.height;
+            break;
+        case 'exact':
+            width = settings.width;
+            height = settings.height;
+            break;
+        default:
+            width = sourceWidth * settings.scale;
+            height = sourceHeight * settings.scale;
+    }
+    return { width: Math.max(1, Math.round(width)), height: Math.max(1, Math.round(height)) };
+};
+
+/**
+ * Draws the source at the requested size. When the aspect ratio differs, the
+ * source is scaled to cover the output and its center is kept.
+ */
+export const renderExportCanvas = (source: ExportSource, width: number, height: number): HTMLCanvasElement => {
+    if (width > MAX_EXPORT_DIMENSION || height > MAX_EXPORT_DIMENSION) {
+        throw new Error(`Exports are limited to ${MAX_EXPORT_DIMENSION}px per side.`);
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    const scale = Math.max(width / source.width, height / source.height);
+    const sWidth = width / scale;
+    const sHeight = height / scale;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source.image, (source.width - sWidth) / 2, (source.height - sHeight) / 2, sWidth, sHeight, 0, 0, width, height);
+    return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: ExportFormat, quality: number): Promise<Blob> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (!blob) {
+                reject(new Error('The image could not be encoded.'));
+            } else if (blob.type !== format) {
+                reject(new Error(`This browser cannot save ${format.split('/')[1].toUpperCase()} images.`));
+            } else {
+                resolve(blob);
+            }
+        }, format, quality / 100);
+    });
+};
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * What to write into an exported file's XMP packet.
+ */
+export interface XmpFields {
+    description?: string;
+    /** Details of the uploaded photo to carry over. */
+    photo?: ImageMetadata;
+}
+
+// XMP wants `DDD,MM.mmmmk` coordinates and ISO 8601 dates.
+const formatXmpCoordinate = (value: number, positive: string, negative: string) => {
+    const degrees = Math.floor(Math.abs(value));
+    return `${degrees},${((Math.abs(value) - degrees) * 60).toFixed(4)}${value < 0 ? negative : positive}`;
+};
+
+const formatXmpDate = (exifDate: string) => exifDate.replace(/^(\d{4}):(\d{2}):(\d{2}) /, '$1-$2-$3T');
+
+const formatXmpRational = (value: number) => value > 0 && value < 1 ? `1/${Math.round(1 / value)}` : `${value}`;
+
+const buildPhotoProperties = (photo: ImageMetadata): string[] => {
+    const simple: [string, string | number | undefined][] = [
+        ['tiff:Make', photo.make],
+        ['tiff:Model', photo.model],
+        ['exifEX:LensModel', photo.lens],
+        ['exifEX:BodySerialNumber', photo.serialNumber],
+        ['exif:DateTimeOriginal', photo.capturedAt && formatXmpDate(photo.capturedAt)],
+        ['exif:ExposureTime', photo.exposureTime && formatXmpRational(photo.exposureTime)],
+        ['exif:FNumber', photo.fNumber],
+        ['exifEX:PhotographicSensitivity', photo.iso],
+        ['exif:FocalLength', photo.focalLength],
+        ['exif:FocalLengthIn35mmFilm', photo.focalLength35mm],
+        ['exif:GPSLatitude', photo.gps && formatXmpCoordinate(photo.gps.latitude, 'N', 'S')],
+        ['exif:GPSLongitude', photo.gps && formatXmpCoordinate(photo.gps.longitude, 'E', 'W')],
+        ['photoshop:Headline', photo.iptc.Headline ?? photo.xmp['photoshop:Headline']],
+        ['photoshop:City', photo.iptc.City ?? photo.xmp['photoshop:City']],
+        ['photoshop:State', photo.iptc.State ?? photo.xmp['photoshop:State']],
+        ['photoshop:Country', photo.iptc.Country ?? photo.xmp['photoshop:Country']],
+    ];
+    const creator = photo.artist ?? photo.iptc.Byline ?? photo.xmp['dc:creator'];
+    const rights = photo.copyright ?? photo.iptc.Copyright ?? photo.xmp['dc:rights'];
+    const keywords = photo.iptc.Keywords ?? photo.xmp['dc:subject'];
+    return [
+        ...simple
+            .filter(([, value]) => value !== undefined && value !== '')
+            .map(([name, value]) => `<${name}>${escapeXml(String(value))}</${name}>`),
+        ...(creator ? [`<dc:creator><rdf:Seq><rdf:li>${escapeXml(creator)}</rdf:li></rdf:Seq></dc:creator>`] : []),
+        ...(rights ? [`<dc:rights><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(rights)}</rdf:li></rdf:Alt></dc:rights>`] : []),
+        ...(keywords ? [`<dc:subject><rdf:Bag>${keywords.split(/,\s*/).map((keyword) => `<rdf:li>${escapeXml(keyword)}</rdf:li>`).join('')}</rdf:Bag></dc:subject>`] : []),
+    ];
+};
+
+const buildXmpPacket = ({ description, photo }: XmpFields): string => [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:tiff="http://ns.adobe.com/tiff/1.0/" xmlns:exif="http://ns.adobe.com/exif/1.0/" xmlns:exifEX="http://cipa.jp/exif/1.0/" xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/">',
+    '<xmp:CreatorTool>Gemini Image Studio</xmp:CreatorTool>',
+    ...(description ? [`<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(description)}</rdf:li></rdf:Alt></dc:description>`] : []),
+    ...(photo ? buildPhotoProperties(photo) : []),
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+].join('\n');
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+// An uncompressed iTXt chunk, inserted right after IHDR.
+const embedInPng = (bytes: Uint8Array, xmp: Uint8Array): Uint8Array => {
+    const data = concatBytes([ascii('XML:com.adobe.xmp'), new Uint8Array(5), xmp]);
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(ascii('iTXt'), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    // Signature (8 bytes) plus the IHDR chunk (25 bytes).
+    const ihdrEnd = 33;
+    return concatBytes([bytes.subarray(0, ihdrEnd), chunk, bytes.subarray(ihdrEnd)]);
+};
+
+// An APP1 segment, inserted after SOI and the JFIF header if there is one.
+const embedInJpeg = (bytes: Uint8Array, xmp: Uint8Array): Uint8Array => {
+    const header = concatBytes([ascii('http://ns.adobe.com/xap/1.0/'), new Uint8Array(1)]);
+    const length = 2 + header.length + xmp.length;
+    if (length > 0xffff) {
+        throw new Error('The text is too long to embed in a JPEG file.');
+    }
+    const segment = new Uint8Array(4);
+    segment.set([0xff, 0xe1, length >> 8, length & 0xff]);
+    let insertAt = 2;
+    if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+        insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+    }
+    return concatBytes([bytes.subarray(0, insertAt), segment, header, xmp, bytes.subarray(insertAt)]);
+};
+
+// Simple WebP files are upgraded to the extended format so an `XMP ` chunk can be appended.
+const embedInWebp = (bytes: Uint8Array, width: number, height: number, xmp: Uint8Array): Uint8Array => {
+    const XMP_FLAG = 0x04;
+    const ALPHA_FLAG = 0x10;
+    const firstChunk = new TextDecoder().decode(bytes.subarray(12, 16));
+    let body = bytes.subarray(12);
+    if (firstChunk === 'VP8X') {
+        body = body.slice();
+        body[8] |= XMP_FLAG;
+    } else {
+        const vp8x = new Uint8Array(18);
+        const view = new DataView(vp8x.buffer);
+        vp8x.set(ascii('VP8X'));
+        view.setUint32(4, 10, true);
+        vp8x[8] = XMP_FLAG | (firstChunk === 'VP8L' ? ALPHA_FLAG : 0);
+        // Canvas width and height minus one, as 24-bit little-endian values.
+        vp8x.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, (width - 1) >> 16], 12);
+        vp8x.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, (height - 1) >> 16], 15);
+        body = concatBytes([vp8x, body]);
+    }
+
+    const padding = xmp.length % 2;
+    const xmpChunk = new Uint8Array(8 + xmp.length + padding);
+    xmpChunk.set(ascii('XMP '));
+    new DataView(xmpChunk.buffer).setUint32(4, xmp.length, true);
+    xmpChunk.set(xmp, 8);
+
+    const riff = new Uint8Array(12);
+    riff.set(ascii('RIFF'));
+    new DataView(riff.buffer).setUint32(4, 4 + body.length + xmpChunk.length, true);
+    riff.set(ascii('WEBP'), 8);
+    return concatBytes([riff, body, xmpChunk]);
+};
+
+/**
+ * Adds the fields to an encoded image as an XMP packet.
+ */
+export const embedXmp = async (blob: Blob, width: number, height: number, fields: XmpFields): Promise<Blob> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const xmp = new TextEncoder().encode(buildXmpPacket(fields));
+    let result: Uint8Array;
+    switch (blob.type) {
+        case 'image/png':
+            result = embedInPng(bytes, xmp);
+            break;
+        case 'image/jpeg':
+            result = embedInJpeg(bytes, xmp);
+            break;
+        case 'image/webp':
+            result = embedInWebp(bytes, width, height, xmp);
+            break;
+        default:
+            throw new Error(`Metadata cannot be embedded in ${blob.type} files.`);
+    }
+    return new Blob([result], { type: blob.type });
+};
+
+/**
+ * Renders and encodes the source with the given settings. `description` is
+ * embedded when the settings ask for metadata, and the details of the photo
+ * the source was edited from unless they are turned off. Re-encoding drops
+ * everything else, including the original EXIF block.
+ */
+export const exportImage = async (source: ExportSource, settings: ExportSettings, description?: string, photoMetadata?: ImageMetadata | null): Promise<Blob> => {
+    const { width, height } = getExportSize(source.width, source.height, settings);
+    const canvas = renderExportCanvas(source, width, height);
+    const blob = await canvasToBlob(canvas, settings.format, settings.quality);
+    const photo = settings.keepPhotoMetadata && photoMetadata
+        ? (settings.stripPrivateMetadata ? removePrivateMetadata(photoMetadata) : photoMetadata)
+        : undefined;
+    const fields: XmpFields = {
+        description: settings.embedMetadata ? description : undefined,
+        // A photo without any details worth keeping doesn't need a packet.
+        photo: photo && buildPhotoProperties(photo).length > 0 ? photo : undefined,
+    };
+    if ((fields.description || fields.photo) && canEmbedMetadata(settings.format)) {
+        return embedXmp(blob, width, height, fields);
+    }
+    return blob;
+};
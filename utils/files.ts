@@ -0,0 +1,73 @@
+/**
+ * Helpers for turning file inputs and drag-and-drop payloads into image files.
+ */
+
+/** A file together with its path relative to the folder it was picked from. */
+export interface PickedFile {
+    file: File;
+    path: string;
+}
+
+export const isImageFile = (file: File) => file.type.startsWith('image/');
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+    new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryToFile = (entry: FileSystemFileEntry): Promise<File> =>
+    new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const collectEntry = async (entry: FileSystemEntry, picked: PickedFile[]) => {
+    if (entry.isFile) {
+        picked.push({ file: await entryToFile(entry as FileSystemFileEntry), path: entry.fullPath.replace(/^\//, '') });
+    } else if (entry.isDirectory) {
+        const reader = (entry as FileSystemDirectoryEntry).createReader();
+        // readEntries returns at most ~100 entries per call, so keep reading until it is empty.
+        let batch = await readEntries(reader);
+        while (batch.length > 0) {
+            for (const child of batch) {
+                await collectEntry(child, picked);
+            }
+            batch = await readEntries(reader);
+        }
+    }
+};
+
+const sortImages = (picked: PickedFile[]) =>
+    picked
+        .filter(({ file }) => isImageFile(file))
+        .sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }));
+
+/**
+ * Keeps the images of a file input selection, including `webkitdirectory` ones.
+ * Files come back sorted by path so batches run in a predictable order.
+ */
+export const pickImageFiles = (files: FileList | File[]): PickedFile[] =>
+    sortImages(Array.from(files).map((file) => ({ file, path: file.webkitRelativePath || file.name })));
+
+/**
+ * Collects every image from a drop, descending into dropped folders.
+ */
+export const collectDroppedImageFiles = async (dataTransfer: DataTransfer): Promise<PickedFile[]> => {
+    // Entries must be taken synchronously; the DataTransfer is emptied after the event.
+    const entries = Array.from(dataTransfer.items)
+        .map((item) => item.webkitGetAsEntry())
+        .filter((entry): entry is FileSystemEntry => entry !== null);
+    if (entries.length === 0) {
+        return pickImageFiles(dataTransfer.files);
+    }
+
+    const picked: PickedFile[] = [];
+    for (const entry of entries) {
+        await collectEntry(entry, picked);
+    }
+    return sortImages(picked);
+};
+
+export const formatBytes = (bytes: number, decimals = 2) => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const dm = decimals < 0 ? 0 : decimals;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
+};
@@ -0,0 +1,121 @@
+/**
+ * Checks and fetches images that come into the analyzer from a file picker,
+ * a drop, the clipboard or a URL, so every path fails with the same messages.
+ */
+
+// Formats every current browser can decode onto a canvas.
+const SUPPORTED_IMAGE_TYPES: Record<string, string[]> = {
+    'image/jpeg': ['jpg', 'jpeg', 'jfif'],
+    'image/png': ['png'],
+    'image/webp': ['webp'],
+    'image/gif': ['gif'],
+    'image/bmp': ['bmp'],
+    'image/avif': ['avif'],
+};
+
+// Formats people commonly try that browsers cannot display.
+const UNSUPPORTED_IMAGE_FORMATS: { name: string; types: string[]; extensions: string[]; hint: string }[] = [
+    { name: 'HEIC/HEIF', types: ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'], extensions: ['heic', 'heif'], hint: 'Export it as JPEG first, or set the camera to "Most Compatible".' },
+    { name: 'TIFF', types: ['image/tiff'], extensions: ['tif', 'tiff'], hint: 'Convert it to PNG or JPEG first.' },
+    { name: 'SVG', types: ['image/svg+xml'], extensions: ['svg'], hint: 'Convert it to PNG first.' },
+    { name: 'RAW', types: [], extensions: ['dng', 'cr2', 'cr3', 'nef', 'arw', 'orf', 'rw2', 'raf'], hint: 'Develop it to JPEG first.' },
+];
+
+export const MAX_IMAGE_FILE_BYTES = 20 * 1024 * 1024;
+
+const getExtension = (name: string) => name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+const typeForExtension = (extension: string): string | undefined =>
+    Object.keys(SUPPORTED_IMAGE_TYPES).find((type) => SUPPORTED_IMAGE_TYPES[type].includes(extension));
+
+/**
+ * Returns the file ready to load, or throws an error that says why it can't be.
+ * Files without a MIME type (some OSes omit it) get one from their extension.
+ */
+export const validateImageFile = (file: File): File => {
+    const extension = getExtension(file.name);
+    const type = file.type.toLowerCase();
+    const unsupported = UNSUPPORTED_IMAGE_FORMATS.find((format) => format.types.includes(type) || format.extensions.includes(extension));
+    if (unsupported) {
+        throw new Error(`${unsupported.name} images can't be opened in the browser. ${unsupported.hint}`);
+    }
+    const resolvedType = type && type !== 'application/octet-stream' ? type : typeForExtension(extension);
+    if (!resolvedType || !SUPPORTED_IMAGE_TYPES[resolvedType]) {
+        throw new Error(`"${file.name}" is not a supported image. Use JPEG, PNG, WebP, GIF, BMP or AVIF.`);
+    }
+    if (file.size === 0) {
+        throw new Error(`"${file.name}" is empty.`);
+    }
+    if (file.size > MAX_IMAGE_FILE_BYTES) {
+        throw new Error(`"${file.name}" is larger than the ${MAX_IMAGE_FILE_BYTES / 1024 / 1024} MB limit.`);
+    }
+    return resolvedType === file.type ? file : new File([file], file.name, { type: resolvedType, lastModified: file.lastModified });
+};
+
+/**
+ * The image on the clipboard, if any. Screenshots arrive as "image.png", so
+ * they get a timestamped name to tell them apart in history.
+ */
+export const getClipboardImageFile = (clipboardData: DataTransfer | null): File | null => {
+    const item = Array.from(clipboardData?.items ?? []).find((entry) => entry.kind === 'file' && entry.type.startsWith('image/'));
+    const file = item?.getAsFile();
+    if (!file) return null;
+    if (file.name && file.name !== 'image.png') return file;
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    const extension = SUPPORTED_IMAGE_TYPES[file.type]?.[0] ?? 'png';
+    return new File([file], `pasted-${stamp}.${extension}`, { type: file.type, lastModified: file.lastModified });
+};
+
+/**
+ * The first http(s) URL in a drop from another page, e.g. an image dragged out of a browser tab.
+ */
+export const getDroppedImageUrl = (dataTransfer: DataTransfer): string | null => {
+    const url = dataTransfer.getData('text/uri-list').split(/\r?\n/).find((line) => line && !line.startsWith('#'))
+        ?? dataTransfer.getData('text/plain').trim();
+    return /^https?:\/\//i.test(url) ? url : null;
+};
+
+const fileNameFromUrl = (url: URL, type: string): string => {
+    const name = decodeURIComponent(url.pathname.split('/').pop() ?? '');
+    if (name && getExtension(name)) return name;
+    return `${name || url.hostname}.${SUPPORTED_IMAGE_TYPES[type]?.[0] ?? 'img'}`;
+};
+
+/**
+ * Downloads an image from a URL into a File. Most sites don't allow other
+ * pages to read their images (CORS), so that failure gets its own advice.
+ */
+export const fetchImageFromUrl = async (input: string, signal?: AbortSignal): Promise<File> => {
+    let url: URL;
+    try {
+        url = new URL(input.trim());
+    } catch {
+        throw new Error("That doesn't look like a valid URL.");
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:' && url.protocol !== 'data:') {
+        throw new Error("Only http, https and data URLs can be loaded.");
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(url, { signal });
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        throw new Error("The image could not be downloaded. The site may not allow other pages to load its images; save it and drop the file here instead.", { cause: error });
+    }
+    if (!response.ok) {
+        throw new Error(`The server answered ${response.status}${response.statusText ? ` ${response.statusText}` : ''}.`);
+    }
+    const declaredSize = Number(response.headers.get('content-length'));
+    if (declaredSize > MAX_IMAGE_FILE_BYTES) {
+        throw new Error(`The image is larger than the ${MAX_IMAGE_FILE_BYTES / 1024 / 1024} MB limit.`);
+    }
+
+    const blob = await response.blob();
+    const type = blob.type.split(';')[0].toLowerCase();
+    if (type.startsWith('text/html')) {
+        throw new Error("The URL points to a web page, not an image. Right-click the image and copy its address instead.");
+    }
+    const fileName = url.protocol === 'data:' ? `pasted.${SUPPORTED_IMAGE_TYPES[type]?.[0] ?? 'img'}` : fileNameFromUrl(url, type);
+    return validateImageFile(new File([blob], fileName, { type }));
+};
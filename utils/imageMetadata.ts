@@ -0,0 +1,435 @@
+/**
+ * Reads the EXIF, IPTC and XMP metadata and the color profile name embedded in
+ * JPEG, PNG and WebP files. Damaged or unusual blocks are skipped, so a file
+ * always yields whatever could be read from it.
+ */
+
+export interface GpsPosition {
+    /** Decimal degrees, negative south of the equator. */
+    latitude: number;
+    /** Decimal degrees, negative west of Greenwich. */
+    longitude: number;
+    /** Meters above sea level. */
+    altitude?: number;
+}
+
+export interface ImageMetadata {
+    /** EXIF orientation from 1 (upright) to 8. */
+    orientation: number;
+    make?: string;
+    model?: string;
+    lens?: string;
+    serialNumber?: string;
+    software?: string;
+    artist?: string;
+    copyright?: string;
+    /** Capture time as the camera wrote it, e.g. `2024:05:01 14:03:22`. */
+    capturedAt?: string;
+    /** Seconds. */
+    exposureTime?: number;
+    fNumber?: number;
+    iso?: number;
+    /** Millimeters. */
+    focalLength?: number;
+    focalLength35mm?: number;
+    exposureBias?: number;
+    flashFired?: boolean;
+    gps?: GpsPosition;
+    colorProfile?: string;
+    /** IPTC fields by name, e.g. `Headline`, `Keywords`, `City`. */
+    iptc: Record<string, string>;
+    /** Well-known XMP fields by qualified name, e.g. `dc:creator`. */
+    xmp: Record<string, string>;
+}
+
+// IPTC datasets in record 2 that are worth showing.
+const IPTC_FIELDS: Record<number, string> = {
+    5: 'Title',
+    25: 'Keywords',
+    80: 'Byline',
+    85: 'Byline Title',
+    90: 'City',
+    92: 'Sublocation',
+    95: 'State',
+    101: 'Country',
+    105: 'Headline',
+    110: 'Credit',
+    115: 'Source',
+    116: 'Copyright',
+    120: 'Caption',
+};
+
+const XMP_FIELDS = [
+    'dc:title', 'dc:description', 'dc:creator', 'dc:rights', 'dc:subject',
+    'xmp:CreatorTool', 'xmp:CreateDate', 'photoshop:Headline',
+    'photoshop:City', 'photoshop:State', 'photoshop:Country', 'Iptc4xmpCore:Location',
+    'exif:GPSLatitude', 'exif:GPSLongitude',
+];
+
+// Fields that can identify where a photo was taken or which device took it.
+const PRIVATE_IPTC_FIELDS = ['City', 'Sublocation', 'State', 'Country'];
+const PRIVATE_XMP_FIELDS = ['photoshop:City', 'photoshop:State', 'photoshop:Country', 'Iptc4xmpCore:Location', 'exif:GPSLatitude', 'exif:GPSLongitude'];
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder();
+
+const readAscii = (bytes: Uint8Array, start: number, length: number) => latin1.decode(bytes.subarray(start, start + length));
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string) => readAscii(bytes, offset, text.length) === text;
+
+const clean = (text: string | undefined): string | undefined => {
+    const trimmed = text?.replace(/\0+$/, '').trim();
+    return trimmed ? trimmed : undefined;
+};
+
+// --- EXIF (TIFF structure) ---
+
+type TiffValue = number | number[] | string | Uint8Array;
+
+// Byte sizes of the TIFF field types, indexed by type id.
+const TIFF_TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+const readTiffValue = (view: DataView, little: boolean, type: number, count: number, offset: number): TiffValue => {
+    switch (type) {
+        case 2:
+            return latin1.decode(new Uint8Array(view.buffer, view.byteOffset + offset, count)).replace(/\0[\s\S]*$/, '');
+        case 1:
+        case 7:
+            return new Uint8Array(view.buffer, view.byteOffset + offset, count);
+    }
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+        const at = offset + i * TIFF_TYPE_SIZES[type];
+        switch (type) {
+            case 3: values.push(view.getUint16(at, little)); break;
+            case 4: values.push(view.getUint32(at, little)); break;
+            case 9: values.push(view.getInt32(at, little)); break;
+            case 5: values.push(view.getUint32(at, little) / (view.getUint32(at + 4, little) || 1)); break;
+            case 10: values.push(view.getInt32(at, little) / (view.getInt32(at + 4, little) || 1)); break;
+            default: return values;
+        }
+    }
+    return count === 1 ? values[0] : values;
+};
+
+const readIfd = (view: DataView, little: boolean, offset: number): Map<number, TiffValue> => {
+    const tags = new Map<number, TiffValue>();
+    const count = view.getUint16(offset, little);
+    for (let i = 0; i < count; i++) {
+        const entry = offset + 2 + i * 12;
+        const type = view.getUint16(entry + 2, little);
+        const valueCount = view.getUint32(entry + 4, little);
+        if (!TIFF_TYPE_SIZES[type]) continue;
+        const size = TIFF_TYPE_SIZES[type] * valueCount;
+        const valueOffset = size > 4 ? view.getUint32(entry + 8, little) : entry + 8;
+        if (valueOffset + size > view.byteLength) continue;
+        tags.set(view.getUint16(entry, little), readTiffValue(view, little, type, valueCount, valueOffset));
+    }
+    return tags;
+};
+
+const asNumber = (value: TiffValue | undefined): number | undefined =>
+    typeof value === 'number' ? value : Array.isArray(value) ? value[0] : undefined;
+
+const asString = (value: TiffValue | undefined): string | undefined =>
+    typeof value === 'string' ? clean(value) : undefined;
+
+const toDegrees = (value: TiffValue | undefined, ref: TiffValue | undefined, negativeRef: string): number | undefined => {
+    if (!Array.isArray(value) || value.length < 3) return undefined;
+    const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+    return asString(ref)?.toUpperCase() === negativeRef ? -degrees : degrees;
+};
+
+const readExif = (bytes: Uint8Array, metadata: ImageMetadata) => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const little = startsWith(bytes, 0, 'II');
+    if (view.getUint16(2, little) !== 42) return;
+    const ifd0 = readIfd(view, little, view.getUint32(4, little));
+
+    metadata.orientation = asNumber(ifd0.get(0x0112)) ?? metadata.orientation;
+    metadata.make = asString(ifd0.get(0x010f));
+    metadata.model = asString(ifd0.get(0x0110));
+    metadata.software = asString(ifd0.get(0x0131));
+    metadata.artist = asString(ifd0.get(0x013b));
+    metadata.copyright = asString(ifd0.get(0x8298));
+    metadata.capturedAt = asString(ifd0.get(0x0132));
+
+    const exifOffset = asNumber(ifd0.get(0x8769));
+    if (exifOffset) {
+        const exif = readIfd(view, little, exifOffset);
+        metadata.capturedAt = asString(exif.get(0x9003)) ?? metadata.capturedAt;
+        metadata.exposureTime = asNumber(exif.get(0x829a));
+        metadata.fNumber = asNumber(exif.get(0x829d));
+        metadata.iso = asNumber(exif.get(0x8827));
+        metadata.exposureBias = asNumber(exif.get(0x9204));
+        metadata.focalLength = asNumber(exif.get(0x920a));
+        metadata.focalLength35mm = asNumber(exif.get(0xa405));
+        const flash = asNumber(exif.get(0x9209));
+        metadata.flashFired = flash === undefined ? undefined : (flash & 1) === 1;
+        metadata.lens = asString(exif.get(0xa434)) ?? asString(exif.get(0xa433));
+        metadata.serialNumber = asString(exif.get(0xa431));
+        if (asNumber(exif.get(0xa001)) === 1) metadata.colorProfile ??= 'sRGB';
+    }
+
+    const gpsOffset = asNumber(ifd0.get(0x8825));
+    if (gpsOffset) {
+        const gps = readIfd(view, little, gpsOffset);
+        const latitude = toDegrees(gps.get(2), gps.get(1), 'S');
+        const longitude = toDegrees(gps.get(4), gps.get(3), 'W');
+        if (latitude !== undefined && longitude !== undefined) {
+            const altitude = asNumber(gps.get(6));
+            const belowSeaLevel = gps.get(5) instanceof Uint8Array && (gps.get(5) as Uint8Array)[0] === 1;
+            metadata.gps = { latitude, longitude, altitude: altitude === undefined ? undefined : belowSeaLevel ? -altitude : altitude };
+        }
+    }
+};
+
+// --- IPTC (inside a Photoshop image resource block) ---
+
+const readIptc = (bytes: Uint8Array, metadata: ImageMetadata) => {
+    let offset = 0;
+    while (offset + 5 <= bytes.length && bytes[offset] === 0x1c) {
+        const record = bytes[offset + 1];
+        const dataset = bytes[offset + 2];
+        const size = (bytes[offset + 3] << 8) | bytes[offset + 4];
+        // Extended-length datasets only hold binary previews; stop there.
+        if (size & 0x8000) break;
+        const name = IPTC_FIELDS[dataset];
+        if (record === 2 && name) {
+            const value = clean(utf8.decode(bytes.subarray(offset + 5, offset + 5 + size)));
+            if (value) {
+                metadata.iptc[name] = metadata.iptc[name] ? `${metadata.iptc[name]}, ${value}` : value;
+            }
+        }
+        offset += 5 + size;
+    }
+};
+
+const readPhotoshopResources = (bytes: Uint8Array, metadata: ImageMetadata) => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 0;
+    while (offset + 12 <= bytes.length && startsWith(bytes, offset, '8BIM')) {
+        const id = view.getUint16(offset + 4);
+        // A Pascal string name, padded to an even length including its length byte.
+        const nameLength = bytes[offset + 6];
+        const sizeAt = offset + 6 + nameLength + 1 + ((nameLength + 1) % 2);
+        const size = view.getUint32(sizeAt);
+        const dataStart = sizeAt + 4;
+        if (id === 0x0404) {
+            readIptc(bytes.subarray(dataStart, dataStart + size), metadata);
+        }
+        offset = dataStart + size + (size % 2);
+    }
+};
+
+// --- XMP ---
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const decodeXmlEntities = (text: string) =>
+    text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+// XMP properties appear as attributes, simple elements or rdf:Alt/Seq/Bag lists.
+const readXmpProperty = (xmp: string, name: string): string | undefined => {
+    const escaped = escapeRegExp(name);
+    const attribute = new RegExp(`\\s${escaped}="([^"]*)"`).exec(xmp);
+    if (attribute) return clean(decodeXmlEntities(attribute[1]));
+    const element = new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`).exec(xmp);
+    if (!element) return undefined;
+    const items = [...element[1].matchAll(/<rdf:li[^>]*>([^<]*)<\/rdf:li>/g)].map((match) => match[1]);
+    return clean(decodeXmlEntities(items.length > 0 ? items.join(', ') : element[1]));
+};
+
+// XMP writes GPS as `DDD,MM.mmk` or `DDD,MM,SSk`, with k one of N, S, E, W.
+const parseXmpCoordinate = (text: string | undefined): number | undefined => {
+    const match = text && /^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/i.exec(text.trim());
+    if (!match) return undefined;
+    const degrees = Number(match[1]) + Number(match[2]) / 60 + Number(match[3] ?? 0) / 3600;
+    return /[SW]/i.test(match[4]) ? -degrees : degrees;
+};
+
+const readXmp = (xmp: string, metadata: ImageMetadata) => {
+    XMP_FIELDS.forEach((name) => {
+        const value = readXmpProperty(xmp, name);
+        if (value) metadata.xmp[name] = value;
+    });
+    if (!metadata.gps) {
+        const latitude = parseXmpCoordinate(metadata.xmp['exif:GPSLatitude']);
+        const longitude = parseXmpCoordinate(metadata.xmp['exif:GPSLongitude']);
+        if (latitude !== undefined && longitude !== undefined) metadata.gps = { latitude, longitude };
+    }
+};
+
+// --- ICC profiles ---
+
+const readIccDescription = (profile: Uint8Array): string | undefined => {
+    const view = new DataView(profile.buffer, profile.byteOffset, profile.byteLength);
+    const tagCount = view.getUint32(128);
+    for (let i = 0; i < tagCount; i++) {
+        const entry = 132 + i * 12;
+        if (!startsWith(profile, entry, 'desc')) continue;
+        const offset = view.getUint32(entry + 4);
+        if (startsWith(profile, offset, 'desc')) {
+            return clean(readAscii(profile, offset + 12, view.getUint32(offset + 8)));
+        }
+        if (startsWith(profile, offset, 'mluc')) {
+            // The first localized record is good enough for a label.
+            const length = view.getUint32(offset + 20);
+            const start = offset + view.getUint32(offset + 24);
+            return clean(new TextDecoder('utf-16be').decode(profile.subarray(start, start + length)));
+        }
+    }
+    return undefined;
+};
+
+const inflate = async (bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array> =>
+    new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'))).arrayBuffer());
+
+// Each step catches its own errors so one damaged block doesn't hide the rest.
+const tryRead = (read: () => void) => {
+    try {
+        read();
+    } catch (e) {
+        console.error("Failed to read an image metadata block", e);
+    }
+};
+
+// --- Containers ---
+
+const readJpeg = (bytes: Uint8Array, metadata: ImageMetadata) => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const iccChunks: Uint8Array[] = [];
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        // Start of scan: only image data follows.
+        if (marker === 0xda) break;
+        const length = view.getUint16(offset + 2);
+        const start = offset + 4;
+        const segment = bytes.subarray(start, offset + 2 + length);
+        if (marker === 0xe1 && startsWith(segment, 0, 'Exif\0\0')) {
+            tryRead(() => readExif(segment.subarray(6), metadata));
+        } else if (marker === 0xe1 && startsWith(segment, 0, 'http://ns.adobe.com/xap/1.0/\0')) {
+            tryRead(() => readXmp(utf8.decode(segment.subarray(29)), metadata));
+        } else if (marker === 0xed && startsWith(segment, 0, 'Photoshop 3.0\0')) {
+            tryRead(() => readPhotoshopResources(segment.subarray(14), metadata));
+        } else if (marker === 0xe2 && startsWith(segment, 0, 'ICC_PROFILE\0')) {
+            // Profiles over 64 KB are split across segments numbered from 1.
+            iccChunks[segment[12] - 1] = segment.subarray(14);
+        }
+        offset += 2 + length;
+    }
+    if (iccChunks.length > 0) {
+        const profile = new Uint8Array(iccChunks.reduce((sum, chunk) => sum + (chunk?.length ?? 0), 0));
+        iccChunks.reduce((at, chunk) => {
+            profile.set(chunk ?? [], at);
+            return at + (chunk?.length ?? 0);
+        }, 0);
+        tryRead(() => { metadata.colorProfile = readIccDescription(profile) ?? metadata.colorProfile; });
+    }
+};
+
+const readPng = async (bytes: Uint8Array, metadata: ImageMetadata) => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = readAscii(bytes, offset + 4, 4);
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        if (type === 'IDAT' || type === 'IEND') break;
+        if (type === 'eXIf') {
+            tryRead(() => readExif(data, metadata));
+        } else if (type === 'iTXt' && startsWith(data, 0, 'XML:com.adobe.xmp\0')) {
+            // Keyword, compression flag and method, then empty language and translated keyword.
+            const textStart = data.indexOf(0, data.indexOf(0, 20) + 1) + 1;
+            if (data[18] === 0) tryRead(() => readXmp(utf8.decode(data.subarray(textStart)), metadata));
+        } else if (type === 'sRGB') {
+            metadata.colorProfile ??= 'sRGB IEC61966-2.1';
+        } else if (type === 'iCCP') {
+            const nameEnd = data.indexOf(0);
+            try {
+                metadata.colorProfile = readIccDescription(await inflate(data.slice(nameEnd + 2))) ?? clean(readAscii(data, 0, nameEnd));
+            } catch (e) {
+                console.error("Failed to read an image metadata block", e);
+            }
+        }
+        offset += 12 + length;
+    }
+};
+
+const readWebp = (bytes: Uint8Array, metadata: ImageMetadata) => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const type = readAscii(bytes, offset, 4);
+        const length = view.getUint32(offset + 4, true);
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        if (type === 'EXIF') {
+            // Some encoders keep the JPEG-style prefix.
+            tryRead(() => readExif(startsWith(data, 0, 'Exif\0\0') ? data.subarray(6) : data, metadata));
+        } else if (type === 'XMP ') {
+            tryRead(() => readXmp(utf8.decode(data), metadata));
+        } else if (type === 'ICCP') {
+            tryRead(() => { metadata.colorProfile = readIccDescription(data) ?? metadata.colorProfile; });
+        }
+        offset += 8 + length + (length % 2);
+    }
+};
+
+/**
+ * Reads the metadata of a JPEG, PNG or WebP file; null for other formats.
+ */
+export const readImageMetadata = async (file: Blob): Promise<ImageMetadata | null> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const metadata: ImageMetadata = { orientation: 1, iptc: {}, xmp: {} };
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+        readJpeg(bytes, metadata);
+    } else if (startsWith(bytes, 1, 'PNG')) {
+        await readPng(bytes, metadata);
+    } else if (startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP')) {
+        readWebp(bytes, metadata);
+    } else {
+        return null;
+    }
+    if (!(metadata.orientation >= 1 && metadata.orientation <= 8)) metadata.orientation = 1;
+    return metadata;
+};
+
+/**
+ * Names the fields that reveal where a photo was taken or which device took
+ * it, e.g. to warn before sharing.
+ */
+export const listPrivateMetadata = (metadata: ImageMetadata): string[] => [
+    ...(metadata.gps ? ['GPS location'] : []),
+    ...(metadata.serialNumber ? ['Camera serial number'] : []),
+    ...PRIVATE_IPTC_FIELDS.filter((name) => metadata.iptc[name]).map((name) => `IPTC ${name}`),
+    ...PRIVATE_XMP_FIELDS.filter((name) => metadata.xmp[name]).map((name) => `XMP ${name}`),
+];
+
+export const removePrivateMetadata = (metadata: ImageMetadata): ImageMetadata => {
+    const { gps, serialNumber, ...rest } = metadata;
+    return {
+        ...rest,
+        iptc: Object.fromEntries(Object.entries(metadata.iptc).filter(([name]) => !PRIVATE_IPTC_FIELDS.includes(name))),
+        xmp: Object.fromEntries(Object.entries(metadata.xmp).filter(([name]) => !PRIVATE_XMP_FIELDS.includes(name))),
+    };
+};
+
+export const formatExposureTime = (seconds: number): string =>
+    seconds >= 1 || seconds <= 0 ? `${Number(seconds.toFixed(1))} s` : `1/${Math.round(1 / seconds)} s`;
+
+export const formatGpsPosition = ({ latitude, longitude }: GpsPosition): string =>
+    `${Math.abs(latitude).toFixed(5)}° ${latitude < 0 ? 'S' : 'N'}, ${Math.abs(longitude).toFixed(5)}° ${longitude < 0 ? 'W' : 'E'}`;
+
+const orientationLabels: Record<number, string> = {
+    1: 'Upright',
+    2: 'Mirrored',
+    3: 'Rotated 180°',
+    4: 'Flipped vertically',
+    5: 'Mirrored, rotated 90° CCW',
+    6: 'Rotated 90° CW',
+    7: 'Mirrored, rotated 90° CW',
+    8: 'Rotated 90° CCW',
+};
+
+export const describeOrientation = (orientation: number): string => orientationLabels[orientation] ?? 'Upright';
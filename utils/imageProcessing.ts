@@ -0,0 +1,275 @@
+import { ColorAdjustments, CropRect, ImageFilters, initialColorAdjustments, initialToneSettings, ResizeMode, ToneSettings } from '../types';
+import { getRotatedSize } from './crop';
+import { EffectFrame, isIdentityPixelSettings, PixelSettings } from './pixelAdjustments';
+import { adjustPixels } from '../services/pixelWorker';
+
+/**
+ * Everything needed to turn an uploaded image into the picture that is
+ * analyzed or downloaded.
+ */
+export interface ProcessingSettings {
+    /** Target aspect ratio as `W:H`. */
+    aspectRatio: string;
+    resizeMode: ResizeMode;
+    /**
+     * Region to keep in crop mode. Its own pixel ratio decides the output
+     * shape, which allows free-form crops; without it the center is kept.
+     */
+    crop?: CropRect | null;
+    filters: ImageFilters;
+    /** Pixel-level adjustments; none when omitted. */
+    adjustments?: ColorAdjustments;
+    tone?: ToneSettings;
+    /** Color grade applied after the tone adjustments. */
+    lut?: PixelSettings['lut'];
+    rotation: number;
+    isMirrored: boolean;
+}
+
+// Helper function to find the greatest common divisor
+export const gcd = (a: number, b: number): number => {
+    return b === 0 ? a : gcd(b, a % b);
+};
+
+/**
+ * Reduces pixel dimensions to a `W:H` ratio, e.g. 1920×1080 → `16:9`.
+ */
+export const simplifyRatio = (width: number, height: number): string => {
+    const divisor = gcd(width, height);
+    return `${width / divisor}:${height / divisor}`;
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Failed to load image file for processing.'));
+        image.src = src;
+    });
+};
+
+/**
+ * The part of the rotated image, `rotatedWidth` × `rotatedHeight`, that ends
+ * up in the output, and the output's aspect ratio.
+ */
+const getSourceRect = ({ aspectRatio, resizeMode, crop }: Pick<ProcessingSettings, 'aspectRatio' | 'resizeMode' | 'crop'>, rotatedWidth: number, rotatedHeight: number) => {
+    const useCrop = resizeMode === 'crop' && crop;
+    const [ratioW, ratioH] = aspectRatio.split(':').map(Number);
+    const targetAspectRatio = useCrop
+        ? (crop.width * rotatedWidth) / (crop.height * rotatedHeight)
+        : ratioW / ratioH;
+
+    let sx = 0, sy = 0, sWidth = rotatedWidth, sHeight = rotatedHeight;
+    if (useCrop) {
+        sx = crop.x * rotatedWidth;
+        sy = crop.y * rotatedHeight;
+        sWidth = crop.width * rotatedWidth;
+        sHeight = crop.height * rotatedHeight;
+    } else if (resizeMode === 'crop') { // centered crop
+        const imageAspectRatio = rotatedWidth / rotatedHeight;
+        if (imageAspectRatio > targetAspectRatio) {
+            sWidth = rotatedHeight * targetAspectRatio;
+            sx = (rotatedWidth - sWidth) / 2;
+        } else if (imageAspectRatio < targetAspectRatio) {
+            sHeight = rotatedWidth / targetAspectRatio;
+            sy = (rotatedHeight - sHeight) / 2;
+        }
+    }
+    return { sx, sy, sWidth, sHeight, targetAspectRatio };
+};
+
+/**
+ * Draws the image rotated and mirrored, fits it to the target aspect ratio by
+ * cropping or stretching, then applies the filters and adjustments to the
+ * result. Without `outputWidth` the result keeps the resolution of the part of
+ * the image that is used.
+ */
+export const renderProcessedImage = async (image: HTMLImageElement, settings: ProcessingSettings, outputWidth?: number, signal?: AbortSignal): Promise<HTMLCanvasElement> => {
+    const { filters, adjustments, tone, lut, rotation, isMirrored } = settings;
+
+    // Create a temporary canvas to draw the rotated image
+    const tempCanvas = document.createElement('canvas');
+    const tempCtx = tempCanvas.getContext('2d');
+    if (!tempCtx) throw new Error('Could not get temp canvas context');
+
+    const angleRad = (rotation * Math.PI) / 180;
+    const { width: rotatedWidth, height: rotatedHeight } = getRotatedSize(image.naturalWidth, image.naturalHeight, rotation);
+
+    tempCanvas.width = rotatedWidth;
+    tempCanvas.height = rotatedHeight;
+
+    tempCtx.translate(rotatedWidth / 2, rotatedHeight / 2);
+    tempCtx.rotate(angleRad);
+    if (isMirrored) {
+        tempCtx.scale(-1, 1);
+    }
+    tempCtx.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+
+    const finalCanvas = document.createElement('canvas');
+    const finalCtx = finalCanvas.getContext('2d');
+    if (!finalCtx) throw new Error('Could not get final canvas context');
+
+    const { sx, sy, sWidth, sHeight, targetAspectRatio } = getSourceRect(settings, rotatedWidth, rotatedHeight);
+    const width = Math.max(1, Math.round(outputWidth ?? sWidth));
+    const height = Math.max(1, Math.round(width / targetAspectRatio));
+    finalCanvas.width = width;
+    finalCanvas.height = height;
+    finalCtx.imageSmoothingQuality = 'high';
+    finalCtx.drawImage(tempCanvas, sx, sy, sWidth, sHeight, 0, 0, width, height);
+
+    const pixelSettings: PixelSettings = {
+        filters,
+        adjustments: adjustments ?? initialColorAdjustments,
+        tone: tone ?? initialToneSettings,
+        lut: lut ?? null,
+    };
+    if (!isIdentityPixelSettings(pixelSettings)) {
+        const { pixels } = await adjustPixels(finalCtx.getImageData(0, 0, width, height), pixelSettings, signal);
+        finalCtx.putImageData(pixels, 0, 0);
+    }
+
+    return finalCanvas;
+};
+
+/**
+ * Renders the image as `renderProcessedImage` does at the 1024px width sent to
+ * the model. Returns a data URL in `mimeType`.
+ */
+export const processImage = async (image: HTMLImageElement, settings: ProcessingSettings, mimeType: string, signal?: AbortSignal): Promise<string> => {
+    return (await renderProcessedImage(image, settings, 1024, signal)).toDataURL(mimeType);
+};
+
+/**
+ * Where the full-resolution output of `settings` lies in `width` × `height`
+ * pixels of the whole, unrotated image, e.g. the live preview. The preview
+ * shows more than the crop, so its vignette and sharpen are placed with this.
+ */
+export const getEffectFrame = (settings: Pick<ProcessingSettings, 'aspectRatio' | 'resizeMode' | 'crop' | 'rotation' | 'isMirrored'>, naturalWidth: number, naturalHeight: number, width: number, height: number): EffectFrame => {
+    const { width: rotatedWidth, height: rotatedHeight } = getRotatedSize(naturalWidth, naturalHeight, settings.rotation);
+    const { sx, sy, sWidth, sHeight } = getSourceRect(settings, rotatedWidth, rotatedHeight);
+    // The same rotation and mirroring as `renderProcessedImage`, applied right to left.
+    const { a, b, c, d, e, f } = new DOMMatrix()
+        .translate(-1, -1)
+        .scale(2 / sWidth, 2 / sHeight)
+        .translate(rotatedWidth / 2 - sx, rotatedHeight / 2 - sy)
+        .rotate(settings.rotation)
+        .scale(settings.isMirrored ? -1 : 1, 1)
+        .translate(-naturalWidth / 2, -naturalHeight / 2)
+        .scale(naturalWidth / width, naturalHeight / height);
+    return { toOutput: [a, b, c, d, e, f], pixelSize: naturalWidth / width };
+};
+
+/**
+ * Reads the pixels of an image scaled down so neither side exceeds
+ * `maxDimension`, e.g. for a quick adjustment preview.
+ */
+export const readScaledPixels = (image: HTMLImageElement, maxDimension: number): ImageData => {
+    const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Redraws an image at its natural size, as a PNG unless `mimeType` says
+ * otherwise. Used to turn formats a model may not accept (SVG placeholders,
+ * GIF, ...) into plain pixels, and EXIF-tagged photos into upright ones.
+ */
+export const rasterizeImage = async (src: string, mimeType: string = 'image/png') => {
+    const image = await loadImage(src);
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.drawImage(image, 0, 0);
+    return { ...dataUrlToImageData(canvas.toDataURL(mimeType)), width: canvas.width, height: canvas.height };
+};
+
+/**
+ * The analyzer only emits JPEG or PNG; anything else is re-encoded as PNG.
+ */
+export const getOutputMimeType = (inputType: string): string =>
+    (inputType === 'image/jpeg' || inputType === 'image/png') ? inputType : 'image/png';
+
+/**
+ * Splits a `data:` URL into the payload the providers expect.
+ */
+export const dataUrlToImageData = (dataUrl: string) => {
+    const [header, data] = dataUrl.split(',');
+    return { mimeType: header.slice('data:'.length, header.indexOf(';')), data };
+};
+
+// Canvas transforms that turn a stored image upright, by EXIF orientation.
+const orientationTransforms: Record<number, (width: number, height: number) => [number, number, number, number, number, number]> = {
+    2: (width) => [-1, 0, 0, 1, width, 0],
+    3: (width, height) => [-1, 0, 0, -1, width, height],
+    4: (_, height) => [1, 0, 0, -1, 0, height],
+    5: () => [0, 1, 1, 0, 0, 0],
+    6: (_, height) => [0, 1, -1, 0, height, 0],
+    7: (width, height) => [0, -1, -1, 0, height, width],
+    8: (width) => [0, -1, 1, 0, 0, width],
+};
+
+let orientationSupport: Promise<boolean> | null = null;
+
+// Decodes a 2×1 JPEG tagged "rotate 90° clockwise"; browsers that honor the
+// tag report it as 1×2. Current browsers all do, older ones draw it sideways.
+const browserAppliesExifOrientation = (): Promise<boolean> => {
+    orientationSupport ??= (async () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = 2;
+        canvas.height = 1;
+        const jpeg = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg'));
+        if (!jpeg) return true;
+        const bytes = new Uint8Array(await jpeg.arrayBuffer());
+        const exifSegment = new Uint8Array([
+            0xff, 0xe1, 0x00, 0x22,
+            0x45, 0x78, 0x69, 0x66, 0x00, 0x00, // "Exif\0\0"
+            0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // big-endian TIFF header
+            0x00, 0x01, 0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00, // Orientation = 6
+            0x00, 0x00, 0x00, 0x00,
+        ]);
+        const url = URL.createObjectURL(new Blob([bytes.subarray(0, 2), exifSegment, bytes.subarray(2)], { type: 'image/jpeg' }));
+        try {
+            return (await loadImage(url)).naturalWidth === 1;
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+    })().catch(() => true);
+    return orientationSupport;
+};
+
+/**
+ * Returns the file with its EXIF orientation applied to the pixels, so later
+ * steps never see a sideways image. Browsers that already honor the tag while
+ * decoding get the original file back.
+ */
+export const applyExifOrientation = async (file: File, orientation: number): Promise<File> => {
+    const transform = orientationTransforms[orientation];
+    if (!transform || await browserAppliesExifOrientation()) return file;
+
+    const url = URL.createObjectURL(file);
+    try {
+        const image = await loadImage(url);
+        const { naturalWidth: width, naturalHeight: height } = image;
+        const canvas = document.createElement('canvas');
+        canvas.width = orientation >= 5 ? height : width;
+        canvas.height = orientation >= 5 ? width : height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not get canvas context');
+        ctx.setTransform(...transform(width, height));
+        ctx.drawImage(image, 0, 0);
+
+        const type = getOutputMimeType(file.type);
+        const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, 0.95));
+        if (!blob) throw new Error('The image could not be encoded.');
+        return new File([blob], file.name, { type, lastModified: file.lastModified });
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
@@ -0,0 +1,401 @@
+import { ColorAdjustments, ColorLut, CurvePoint, ImageFilters, initialColorAdjustments, initialFilterState, initialToneSettings, Levels, ToneSettings } from '../types';
+
+/**
+ * Pixel-level image adjustments. Everything here works on raw RGBA buffers
+ * and runs in a worker; the CSS filter functions are reimplemented with the
+ * formulas from the Filter Effects spec so every browser renders the same
+ * result.
+ */
+
+export interface PixelSettings {
+    filters: ImageFilters;
+    adjustments: ColorAdjustments;
+    tone: ToneSettings;
+    /** A color grade applied after the curves, blended at `intensity` percent. */
+    lut?: { table: ColorLut; intensity: number } | null;
+    /** Where the output picture lies in the pixels; omitted when they are the output picture. */
+    frame?: EffectFrame;
+}
+
+/**
+ * Places the output picture in pixels that show more than it, like the
+ * uncropped live preview, so the vignette and sharpen look as they will once
+ * exported.
+ */
+export interface EffectFrame {
+    /** Affine map `[a, b, c, d, e, f]` from pixel positions to output coordinates running from -1 to 1 along each side. */
+    toOutput: [number, number, number, number, number, number];
+    /** Size of one of these pixels in pixels of the full-resolution output. */
+    pixelSize: number;
+}
+
+/** Pixel counts per 0–255 value for each channel and for luminance. */
+export interface Histogram {
+    red: Uint32Array;
+    green: Uint32Array;
+    blue: Uint32Array;
+    luminance: Uint32Array;
+}
+
+type Matrix = [number, number, number, number, number, number, number, number, number];
+
+const LUMA_R = 0.2126;
+const LUMA_G = 0.7152;
+const LUMA_B = 0.0722;
+
+/** Exposure range in stops at ±100. */
+const MAX_EXPOSURE_STOPS = 2;
+/** Largest channel gain applied for white balance at ±100. */
+const MAX_WHITE_BALANCE_GAIN = 0.3;
+
+export const isIdentityPixelSettings = ({ filters, adjustments, tone, lut }: PixelSettings): boolean =>
+    (!lut || lut.intensity === 0)
+    && JSON.stringify({ filters, adjustments, tone }) === JSON.stringify({ filters: initialFilterState, adjustments: initialColorAdjustments, tone: initialToneSettings });
+
+const clamp01 = (value: number) => (value < 0 ? 0 : value > 1 ? 1 : value);
+
+const srgbToLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+const linearToSrgb = (c: number) => (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+
+// Exposure and white balance scale light, so they are applied in linear space.
+const buildGainLut = (gain: number): Float32Array => {
+    const lut = new Float32Array(256);
+    for (let v = 0; v < 256; v++) {
+        lut[v] = linearToSrgb(clamp01(srgbToLinear(v / 255) * gain));
+    }
+    return lut;
+};
+
+export const buildLevelsLut = ({ black, white, gamma }: Levels): Uint8Array => {
+    const lut = new Uint8Array(256);
+    const range = Math.max(1, white - black);
+    for (let v = 0; v < 256; v++) {
+        lut[v] = Math.round(Math.pow(clamp01((v - black) / range), 1 / gamma) * 255);
+    }
+    return lut;
+};
+
+/**
+ * Interpolates the points with a monotone cubic spline (Fritsch–Carlson), so
+ * the curve never overshoots between points. Outside the first and last
+ * point the curve is flat.
+ */
+export const buildCurveLut = (points: CurvePoint[]): Uint8Array => {
+    const sorted = [...points].sort((a, b) => a.x - b.x);
+    const lut = new Uint8Array(256);
+    const n = sorted.length;
+    if (n === 0) {
+        for (let v = 0; v < 256; v++) lut[v] = v;
+        return lut;
+    }
+    if (n === 1) {
+        lut.fill(Math.round(sorted[0].y));
+        return lut;
+    }
+
+    const slopes: number[] = [];
+    for (let i = 0; i < n - 1; i++) {
+        const dx = sorted[i + 1].x - sorted[i].x;
+        slopes.push(dx === 0 ? 0 : (sorted[i + 1].y - sorted[i].y) / dx);
+    }
+    const tangents = sorted.map((_, i) => {
+        if (i === 0) return slopes[0];
+        if (i === n - 1) return slopes[n - 2];
+        return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+    });
+    for (let i = 0; i < n - 1; i++) {
+        if (slopes[i] === 0) {
+            tangents[i] = 0;
+            tangents[i + 1] = 0;
+            continue;
+        }
+        const a = tangents[i] / slopes[i];
+        const b = tangents[i + 1] / slopes[i];
+        const magnitude = a * a + b * b;
+        if (magnitude > 9) {
+            const t = 3 / Math.sqrt(magnitude);
+            tangents[i] = t * a * slopes[i];
+            tangents[i + 1] = t * b * slopes[i];
+        }
+    }
+
+    let segment = 0;
+    for (let v = 0; v < 256; v++) {
+        let y: number;
+        if (v <= sorted[0].x) {
+            y = sorted[0].y;
+        } else if (v >= sorted[n - 1].x) {
+            y = sorted[n - 1].y;
+        } else {
+            while (v > sorted[segment + 1].x) segment++;
+            const p0 = sorted[segment];
+            const p1 = sorted[segment + 1];
+            const h = p1.x - p0.x;
+            const t = (v - p0.x) / h;
+            const t2 = t * t;
+            const t3 = t2 * t;
+            y = (2 * t3 - 3 * t2 + 1) * p0.y
+                + (t3 - 2 * t2 + t) * h * tangents[segment]
+                + (-2 * t3 + 3 * t2) * p1.y
+                + (t3 - t2) * h * tangents[segment + 1];
+        }
+        lut[v] = Math.round(Math.min(255, Math.max(0, y)));
+    }
+    return lut;
+};
+
+// Levels, the RGB curve and one channel's curve folded into a single lookup.
+const buildToneLuts = (tone: ToneSettings): [Uint8Array, Uint8Array, Uint8Array] => {
+    const levels = buildLevelsLut(tone.levels);
+    const rgb = buildCurveLut(tone.curves.rgb);
+    return [tone.curves.red, tone.curves.green, tone.curves.blue].map((points) => {
+        const channel = buildCurveLut(points);
+        const lut = new Uint8Array(256);
+        for (let v = 0; v < 256; v++) {
+            lut[v] = channel[rgb[levels[v]]];
+        }
+        return lut;
+    }) as [Uint8Array, Uint8Array, Uint8Array];
+};
+
+const saturateMatrix = (s: number): Matrix => [
+    0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s,
+];
+
+const grayscaleMatrix = (amount: number): Matrix => {
+    const s = 1 - amount;
+    return [
+        0.2126 + 0.7874 * s, 0.7152 - 0.7152 * s, 0.0722 - 0.0722 * s,
+        0.2126 - 0.2126 * s, 0.7152 + 0.2848 * s, 0.0722 - 0.0722 * s,
+        0.2126 - 0.2126 * s, 0.7152 - 0.7152 * s, 0.0722 + 0.9278 * s,
+    ];
+};
+
+const sepiaMatrix = (amount: number): Matrix => {
+    const s = 1 - amount;
+    return [
+        0.393 + 0.607 * s, 0.769 - 0.769 * s, 0.189 - 0.189 * s,
+        0.349 - 0.349 * s, 0.686 + 0.314 * s, 0.168 - 0.168 * s,
+        0.272 - 0.272 * s, 0.534 - 0.534 * s, 0.131 + 0.869 * s,
+    ];
+};
+
+const hueRotateMatrix = (degrees: number): Matrix => {
+    const angle = (degrees * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return [
+        0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+        0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+        0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+    ];
+};
+
+// The CSS filter chain runs brightness, contrast, saturate, grayscale, sepia,
+// invert and hue-rotate in that order. Matrices that change nothing are skipped.
+const buildFilterSteps = (filters: ImageFilters) => {
+    const before: Matrix[] = [];
+    if (filters.saturate !== 100) before.push(saturateMatrix(filters.saturate / 100));
+    if (filters.grayscale !== 0) before.push(grayscaleMatrix(Math.min(1, filters.grayscale / 100)));
+    if (filters.sepia !== 0) before.push(sepiaMatrix(Math.min(1, filters.sepia / 100)));
+    const after: Matrix[] = filters.hueRotate % 360 !== 0 ? [hueRotateMatrix(filters.hueRotate)] : [];
+    return {
+        brightness: filters.brightness / 100,
+        contrast: filters.contrast / 100,
+        invert: Math.min(1, filters.invert / 100),
+        before,
+        after,
+    };
+};
+
+/**
+ * Adjusts an RGBA buffer in place. Alpha is left untouched.
+ */
+export const applyPixelAdjustments = (pixels: Uint8ClampedArray, width: number, height: number, settings: PixelSettings) => {
+    const { adjustments } = settings;
+    const exposureGain = Math.pow(2, (adjustments.exposure / 100) * MAX_EXPOSURE_STOPS);
+    const temperature = (adjustments.temperature / 100) * MAX_WHITE_BALANCE_GAIN;
+    const tint = (adjustments.tint / 100) * MAX_WHITE_BALANCE_GAIN;
+    const gainR = buildGainLut(exposureGain * (1 + temperature));
+    const gainG = buildGainLut(exposureGain * (1 - tint));
+    const gainB = buildGainLut(exposureGain * (1 - temperature));
+    const shadows = adjustments.shadows / 100;
+    const highlights = adjustments.highlights / 100;
+    const vibrance = adjustments.vibrance / 100;
+    const filters = buildFilterSteps(settings.filters);
+    const [toneR, toneG, toneB] = buildToneLuts(settings.tone);
+
+    const applyMatrix = (m: Matrix, r: number, g: number, b: number): [number, number, number] => [
+        clamp01(m[0] * r + m[1] * g + m[2] * b),
+        clamp01(m[3] * r + m[4] * g + m[5] * b),
+        clamp01(m[6] * r + m[7] * g + m[8] * b),
+    ];
+
+    for (let i = 0; i < pixels.length; i += 4) {
+        let r = gainR[pixels[i]];
+        let g = gainG[pixels[i + 1]];
+        let b = gainB[pixels[i + 2]];
+
+        if (shadows !== 0 || highlights !== 0) {
+            // Shadows act mostly on dark pixels and highlights on bright ones;
+            // scaling all channels by the same factor keeps the hue.
+            const luma = LUMA_R * r + LUMA_G * g + LUMA_B * b;
+            const dark = (1 - luma) * (1 - luma);
+            const bright = luma * luma;
+            const target = clamp01(luma + 0.5 * (shadows * dark * (1 - luma) + highlights * bright * luma));
+            if (luma > 0) {
+                const factor = target / luma;
+                r = clamp01(r * factor);
+                g = clamp01(g * factor);
+                b = clamp01(b * factor);
+            } else {
+                r = g = b = target;
+            }
+        }
+
+        r = clamp01(r * filters.brightness);
+        g = clamp01(g * filters.brightness);
+        b = clamp01(b * filters.brightness);
+        const offset = 0.5 - 0.5 * filters.contrast;
+        r = clamp01(r * filters.contrast + offset);
+        g = clamp01(g * filters.contrast + offset);
+        b = clamp01(b * filters.contrast + offset);
+        for (const m of filters.before) [r, g, b] = applyMatrix(m, r, g, b);
+        if (filters.invert !== 0) {
+            r = filters.invert + r * (1 - 2 * filters.invert);
+            g = filters.invert + g * (1 - 2 * filters.invert);
+            b = filters.invert + b * (1 - 2 * filters.invert);
+        }
+        for (const m of filters.after) [r, g, b] = applyMatrix(m, r, g, b);
+
+        if (vibrance !== 0) {
+            // Boost muted colors more than already saturated ones.
+            const luma = LUMA_R * r + LUMA_G * g + LUMA_B * b;
+            const saturation = Math.max(r, g, b) - Math.min(r, g, b);
+            const amount = 1 + vibrance * (1 - saturation);
+            r = clamp01(luma + (r - luma) * amount);
+            g = clamp01(luma + (g - luma) * amount);
+            b = clamp01(luma + (b - luma) * amount);
+        }
+
+        pixels[i] = toneR[Math.round(r * 255)];
+        pixels[i + 1] = toneG[Math.round(g * 255)];
+        pixels[i + 2] = toneB[Math.round(b * 255)];
+    }
+
+    if (settings.lut && settings.lut.intensity > 0) applyLut(pixels, settings.lut.table, settings.lut.intensity / 100);
+    const { frame } = settings;
+    if (adjustments.sharpen > 0) sharpen(pixels, width, height, adjustments.sharpen / 100, frame ? Math.min(1, 1 / frame.pixelSize) : 1);
+    if (adjustments.vignette > 0) vignette(pixels, width, height, adjustments.vignette / 100, frame?.toOutput ?? [2 / width, 0, 0, 2 / height, -1, -1]);
+};
+
+/**
+ * Maps every pixel through a 3D LUT with trilinear interpolation and blends
+ * the result with the original by `intensity` (0–1).
+ */
+const applyLut = (pixels: Uint8ClampedArray, lut: ColorLut, intensity: number) => {
+    const { size, data, domainMin, domainMax } = lut;
+    const max = size - 1;
+    // Table coordinate of an 8-bit value v for channel c: v * scale[c] + offset[c].
+    const scale = domainMin.map((min, c) => max / (255 * (domainMax[c] - min)));
+    const offset = domainMin.map((min, c) => (-min * max) / (domainMax[c] - min));
+    const toCoordinate = (value: number, c: number) => Math.min(max, Math.max(0, value * scale[c] + offset[c]));
+    // Red changes fastest in the table, then green, then blue.
+    const index = (r: number, g: number, b: number) => ((b * size + g) * size + r) * 3;
+
+    for (let i = 0; i < pixels.length; i += 4) {
+        const r = toCoordinate(pixels[i], 0);
+        const g = toCoordinate(pixels[i + 1], 1);
+        const b = toCoordinate(pixels[i + 2], 2);
+        const r0 = Math.floor(r), g0 = Math.floor(g), b0 = Math.floor(b);
+        const r1 = Math.min(max, r0 + 1), g1 = Math.min(max, g0 + 1), b1 = Math.min(max, b0 + 1);
+        const fr = r - r0, fg = g - g0, fb = b - b0;
+        const i000 = index(r0, g0, b0), i100 = index(r1, g0, b0);
+        const i010 = index(r0, g1, b0), i110 = index(r1, g1, b0);
+        const i001 = index(r0, g0, b1), i101 = index(r1, g0, b1);
+        const i011 = index(r0, g1, b1), i111 = index(r1, g1, b1);
+        for (let c = 0; c < 3; c++) {
+            const c00 = data[i000 + c] + (data[i100 + c] - data[i000 + c]) * fr;
+            const c10 = data[i010 + c] + (data[i110 + c] - data[i010 + c]) * fr;
+            const c01 = data[i001 + c] + (data[i101 + c] - data[i001 + c]) * fr;
+            const c11 = data[i011 + c] + (data[i111 + c] - data[i011 + c]) * fr;
+            const graded = (c00 + (c10 - c00) * fg) * (1 - fb) + (c01 + (c11 - c01) * fg) * fb;
+            pixels[i + c] += (clamp01(graded) * 255 - pixels[i + c]) * intensity;
+        }
+    }
+};
+
+/**
+ * Unsharp mask with a 3×3 box blur: each pixel moves away from the average
+ * of its neighbourhood. A `radius` below one pixel blends the blur with the
+ * pixel itself, for pixels that are larger than those of the output.
+ */
+const sharpen = (pixels: Uint8ClampedArray, width: number, height: number, amount: number, radius: number) => {
+    const source = pixels.slice();
+    const strength = amount * 1.5 * radius;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            for (let c = 0; c < 3; c++) {
+                let sum = 0;
+                let count = 0;
+                for (let dy = -1; dy <= 1; dy++) {
+                    const ny = y + dy;
+                    if (ny < 0 || ny >= height) continue;
+                    for (let dx = -1; dx <= 1; dx++) {
+                        const nx = x + dx;
+                        if (nx < 0 || nx >= width) continue;
+                        sum += source[(ny * width + nx) * 4 + c];
+                        count++;
+                    }
+                }
+                pixels[i + c] = source[i + c] + strength * (source[i + c] - sum / count);
+            }
+        }
+    }
+};
+
+/**
+ * Darkens the corners with a smooth elliptical falloff that starts a third of
+ * the way out from the center. `toOutput` maps pixel positions to -1…1 across
+ * the output picture; pixels outside it are darkened fully.
+ */
+const vignette = (pixels: Uint8ClampedArray, width: number, height: number, amount: number, toOutput: EffectFrame['toOutput']) => {
+    const [a, b, c, d, e, f] = toOutput;
+    for (let y = 0; y < height; y++) {
+        const py = y + 0.5;
+        for (let x = 0; x < width; x++) {
+            const px = x + 0.5;
+            const dx = a * px + c * py + e;
+            const dy = b * px + d * py + f;
+            const distance = Math.min(1, Math.sqrt((dx * dx + dy * dy) / 2));
+            const t = clamp01((distance - 0.33) / 0.67);
+            const factor = 1 - amount * t * t * (3 - 2 * t);
+            const i = (y * width + x) * 4;
+            pixels[i] *= factor;
+            pixels[i + 1] *= factor;
+            pixels[i + 2] *= factor;
+        }
+    }
+};
+
+export const computeHistogram = (pixels: Uint8ClampedArray): Histogram => {
+    const histogram: Histogram = {
+        red: new Uint32Array(256),
+        green: new Uint32Array(256),
+        blue: new Uint32Array(256),
+        luminance: new Uint32Array(256),
+    };
+    for (let i = 0; i < pixels.length; i += 4) {
+        const r = pixels[i];
+        const g = pixels[i + 1];
+        const b = pixels[i + 2];
+        histogram.red[r]++;
+        histogram.green[g]++;
+        histogram.blue[b]++;
+        histogram.luminance[Math.round(LUMA_R * r + LUMA_G * g + LUMA_B * b)]++;
+    }
+    return histogram;
+};
@@ -0,0 +1,22 @@
+import { ColorLut } from '../types';
+import { applyPixelAdjustments, computeHistogram } from './pixelAdjustments';
+import type { PixelWorkerRequest, PixelWorkerResponse } from '../services/pixelWorker';
+
+const luts = new Map<string, ColorLut>();
+
+self.onmessage = (event: MessageEvent<PixelWorkerRequest>) => {
+    const { id, pixels, settings, lut, lutTable } = event.data;
+    if (lutTable) luts.set(lutTable.id, lutTable);
+    let response: PixelWorkerResponse;
+    try {
+        const table = lut ? luts.get(lut.id) : undefined;
+        if (lut && !table) {
+            throw new Error(`The LUT ${lut.id} was never sent to the worker.`);
+        }
+        applyPixelAdjustments(pixels.data, pixels.width, pixels.height, { ...settings, lut: table ? { table, intensity: lut.intensity } : null });
+        response = { id, pixels, histogram: computeHistogram(pixels.data) };
+    } catch (error) {
+        response = { id, error: error instanceof Error ? error.message : String(error) };
+    }
+    self.postMessage(response, { transfer: 'pixels' in response ? [response.pixels.data.buffer] : [] });
+};
@@ -0,0 +1,71 @@
+/**
+ * Prompt templates: `{{name}}` placeholders are filled in before generating.
+ * A placeholder given several values (separated by `|`) expands the template
+ * into one prompt per combination.
+ */
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/** Separates the values of a placeholder that is expanded into a matrix. */
+export const VALUE_SEPARATOR = '|';
+
+/** Upper bound on the prompts a single matrix may expand into. */
+export const MAX_MATRIX_SIZE = 24;
+
+export interface TemplateExpansion {
+    prompt: string;
+    /** The value used for each placeholder. */
+    values: Record<string, string>;
+}
+
+/**
+ * Returns the template's placeholder names in order of first appearance.
+ */
+export const getTemplateVariables = (template: string): string[] => {
+    const names = Array.from(template.matchAll(VARIABLE_PATTERN), (match) => match[1]);
+    return Array.from(new Set(names));
+};
+
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+    template.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+
+/**
+ * Splits a field's input into its distinct, non-empty values.
+ */
+export const parseTemplateValues = (input: string | undefined): string[] => {
+    const values = (input ?? '').split(VALUE_SEPARATOR).map((value) => value.trim()).filter(Boolean);
+    return Array.from(new Set(values));
+};
+
+/**
+ * Number of prompts `expandTemplate` would produce; 0 while a placeholder has no value.
+ */
+export const getMatrixSize = (template: string, inputs: Record<string, string>): number =>
+    getTemplateVariables(template).reduce((size, name) => size * parseTemplateValues(inputs[name]).length, 1);
+
+/**
+ * Fills the template with every combination of the placeholders' values. The
+ * first placeholder varies slowest, so related prompts end up next to each other.
+ */
+export const expandTemplate = (template: string, inputs: Record<string, string>): TemplateExpansion[] => {
+    const variables = getTemplateVariables(template);
+    const missing = variables.filter((name) => parseTemplateValues(inputs[name]).length === 0);
+    if (missing.length > 0) {
+        throw new Error(`Please fill in ${missing.map((name) => `{{${name}}}`).join(', ')}.`);
+    }
+    const size = getMatrixSize(template, inputs);
+    if (size > MAX_MATRIX_SIZE) {
+        throw new Error(`These values expand into ${size} prompts; the limit is ${MAX_MATRIX_SIZE}.`);
+    }
+    const combinations = variables.reduce<Record<string, string>[]>(
+        (partial, name) => partial.flatMap((values) => parseTemplateValues(inputs[name]).map((value) => ({ ...values, [name]: value }))),
+        [{}],
+    );
+    return combinations.map((values) => ({ prompt: fillTemplate(template, values), values }));
+};
+
+/**
+ * Parses comma-separated tags into distinct lowercase tags.
+ */
+export const parseTags = (input: string): string[] =>
+    Array.from(new Set(input.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
@@ -0,0 +1,14 @@
+import { StudioTab, studioTabs } from '../types';
+
+const DEFAULT_TAB: StudioTab = 'generate';
+
+/**
+ * Reads the tab from a `#/analyze`-style location hash. Empty or unknown
+ * hashes open the generator.
+ */
+export const parseTabFromHash = (hash: string): StudioTab => {
+    const [name] = hash.replace(/^#\/?/, '').split(/[/?]/);
+    return (studioTabs as readonly string[]).includes(name) ? name as StudioTab : DEFAULT_TAB;
+};
+
+export const hashForTab = (tab: StudioTab): string => `#/${tab}`;
@@ -0,0 +1,56 @@
+export type DiffSegmentType = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+    type: DiffSegmentType;
+    text: string;
+}
+
+// Words keep their trailing whitespace so segments concatenate back into the text.
+const tokenize = (text: string): string[] => text.match(/\S+\s*|\s+/g) ?? [];
+
+/**
+ * Word-level diff of `before` and `after`, based on their longest common
+ * subsequence of words. Adjacent segments of the same type are merged.
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+    const a = tokenize(before);
+    const b = tokenize(after);
+    // Compare words without their whitespace so reflowed text is not a change.
+    const keyA = a.map((token) => token.trim());
+    const keyB = b.map((token) => token.trim());
+
+    // lengths[i][j] is the LCS length of a[i..] and b[j..].
+    const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = keyA[i] === keyB[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    const push = (type: DiffSegmentType, text: string) => {
+        const last = segments[segments.length - 1];
+        if (last?.type === type) {
+            last.text += text;
+        } else {
+            segments.push({ type, text });
+        }
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (keyA[i] === keyB[j]) {
+            push('equal', b[j]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+    return segments;
+};